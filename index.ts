@@ -1,58 +1,76 @@
 #!/usr/bin/env node
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  McpError,
-  ErrorCode,
-} from "@modelcontextprotocol/sdk/types.js";
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
 
 // Import the registry system
-import { initializeToolRegistry, getToolDefinitions, processToolRequest } from './src/base/toolRegistry.js';
+import { initializeToolRegistry } from './src/base/toolRegistry.js';
+import { createMcpServer } from './src/base/mcpServer.js';
+import { startHttpTransport, HTTP_ENDPOINTS } from './src/transports/httpTransport.js';
+import { configureSessionManager } from './src/services/SessionManager.js';
 
-// Initialize the tool registry
-initializeToolRegistry();
-
-// Create and configure the MCP server
-const server = new Server(
-  {
-    name: "thinking-patterns-server",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-// Request Handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  // Get all tools from the registry
-  const tools = getToolDefinitions();
+// Parse command line options
+const argv = yargs(hideBin(process.argv))
+  .option('transport', {
+    choices: ['stdio', 'http'] as const,
+    default: 'stdio' as const,
+    describe: 'Transport to serve MCP over'
+  })
+  .option('host', {
+    type: 'string',
+    default: process.env.MCP_HOST ?? '127.0.0.1',
+    describe: 'Host to bind when using the http transport'
+  })
+  .option('port', {
+    type: 'number',
+    default: Number(process.env.MCP_PORT ?? 3000),
+    describe: 'Port to listen on when using the http transport'
+  })
+  .option('session-store', {
+    choices: ['memory', 'file'] as const,
+    default: (process.env.THINKING_PATTERNS_SESSION_STORE ?? 'memory') as 'memory' | 'file',
+    describe: 'Where reasoning sessions are stored'
+  })
+  .option('session-file', {
+    type: 'string',
+    default: process.env.THINKING_PATTERNS_SESSION_FILE ?? join(homedir(), '.thinking-patterns', 'sessions.jsonl'),
+    describe: 'Append-only JSONL log used by the file session store'
+  })
+  .option('session-ttl', {
+    type: 'number',
+    default: Number(process.env.THINKING_PATTERNS_SESSION_TTL ?? 60),
+    describe: 'Minutes of inactivity before a session expires'
+  })
+  .strict()
+  .help()
+  .parseSync();
 
-  return {
-    tools: tools
-  };
+// Configure session storage before the tool servers capture it
+configureSessionManager({
+  store: argv.sessionStore,
+  filePath: argv.sessionFile,
+  sessionTimeoutMs: argv.sessionTtl * 60 * 1000
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    // Use the registry for all tool processing
-    const result = processToolRequest(request.params.name, request.params.arguments);
-    return result;
-  } catch (error) {
-    throw new McpError(
-      ErrorCode.MethodNotFound,
-      `Tool '${request.params.name}' not found. Available tools: ${getToolDefinitions().map(t => t.name).join(', ')}`
-    );
-  }
-});
+// Initialize the tool registry
+initializeToolRegistry();
 
 // Server startup
 async function runServer() {
+  if (argv.transport === 'http') {
+    const { url } = await startHttpTransport(createMcpServer, {
+      host: argv.host,
+      port: argv.port,
+      sessionTimeoutMs: argv.sessionTtl * 60 * 1000
+    });
+    console.error(`Thinking Patterns MCP Server running on ${url}${HTTP_ENDPOINTS.streamable} (SSE fallback at ${url}${HTTP_ENDPOINTS.sse})`);
+    return;
+  }
+
+  const server = createMcpServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Thinking Patterns MCP Server running on stdio");
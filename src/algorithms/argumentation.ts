@@ -0,0 +1,288 @@
+import { ArgumentData } from '../interfaces/StructuredArgumentationInterfaces.js';
+
+/**
+ * Acceptability of an argument under grounded semantics
+ */
+export type ArgumentStatus = "accepted" | "defeated" | "undecided";
+
+export type ArgumentType = ArgumentData["argumentType"];
+
+/**
+ * How far a debate has come: nothing challenged yet, a challenge still open,
+ * every challenge answered, or drawn together by a synthesis
+ */
+export type DebateStage = "opening" | "contested" | "answered" | "synthesized";
+
+export interface ArgumentNode {
+  argumentId: string;
+  argumentType: ArgumentType;
+  claim: string;
+  confidence: number;
+  respondsTo?: string;
+}
+
+export interface ArgumentRelation {
+  from: string;
+  to: string;
+}
+
+export interface ArgumentGraph {
+  arguments: ArgumentNode[];
+  attacks: ArgumentRelation[];
+  supports: ArgumentRelation[];
+  warnings: string[];
+}
+
+export interface ArgumentExtensions {
+  grounded: string[];
+  preferred?: string[][];
+  stable?: string[][];
+}
+
+export interface DebateState {
+  stage: DebateStage;
+  unanswered: string[];
+  suggestedNextTypes: ArgumentType[];
+}
+
+export interface ArgumentGraphEvaluation {
+  extensions: ArgumentExtensions;
+  status: Record<string, ArgumentStatus>;
+  accepted: string[];
+  defeated: string[];
+  undecided: string[];
+  warnings: string[];
+}
+
+const ARGUMENT_TYPES: ArgumentType[] = ["thesis", "antithesis", "synthesis", "objection", "rebuttal"];
+
+// Argument types whose respondsTo target is attacked rather than merely answered
+export const ATTACKING_TYPES: ReadonlySet<ArgumentType> = new Set(["antithesis", "objection", "rebuttal"]);
+
+// Argument types that challenge a position and leave the debate contested until answered
+const CHALLENGE_TYPES: ReadonlySet<ArgumentType> = new Set(["antithesis", "objection"]);
+
+// Moves that answer an argument of each type
+const RESPONSES: Record<ArgumentType, ArgumentType[]> = {
+  thesis: ["antithesis", "objection"],
+  antithesis: ["rebuttal", "synthesis"],
+  synthesis: ["objection"],
+  objection: ["rebuttal"],
+  rebuttal: ["objection"]
+};
+
+// Preferred and stable extensions are searched over the arguments grounded semantics leaves undecided
+const MAX_UNDECIDED = 16;
+
+/**
+ * Id of an argument in its debate: its argumentId, falling back to its position
+ */
+export function argumentKey(argument: ArgumentData, index: number): string {
+  return argument.argumentId ?? `argument-${index + 1}`;
+}
+
+/**
+ * Build the attack and support graph of a debate from its arguments in the order they were made.
+ * An argument attacks everything it contradicts, and antitheses, objections and rebuttals also attack
+ * the argument they respond to. A later argument with the same id replaces the earlier one.
+ */
+export function buildArgumentGraph(debate: ArgumentData[]): ArgumentGraph {
+  const latest = new Map<string, ArgumentData>();
+  debate.forEach((argument, index) => latest.set(argumentKey(argument, index), argument));
+
+  const warnings: string[] = [];
+  const attacks: ArgumentRelation[] = [];
+  const supports: ArgumentRelation[] = [];
+  const addRelation = (relations: ArgumentRelation[], from: string, to: string, verb: string) => {
+    if (!latest.has(to)) {
+      warnings.push(`Argument "${from}" ${verb} unknown argument "${to}"`);
+      return;
+    }
+    if (!relations.some(relation => relation.from === from && relation.to === to)) {
+      relations.push({ from, to });
+    }
+  };
+
+  for (const [id, argument] of latest) {
+    if (argument.respondsTo && ATTACKING_TYPES.has(argument.argumentType)) {
+      addRelation(attacks, id, argument.respondsTo, 'responds to');
+    } else if (argument.respondsTo && !latest.has(argument.respondsTo)) {
+      warnings.push(`Argument "${id}" responds to unknown argument "${argument.respondsTo}"`);
+    }
+    for (const target of argument.contradicts ?? []) {
+      addRelation(attacks, id, target, 'contradicts');
+    }
+    for (const target of argument.supports ?? []) {
+      addRelation(supports, id, target, 'supports');
+    }
+  }
+
+  return {
+    arguments: [...latest].map(([argumentId, argument]) => ({
+      argumentId,
+      argumentType: argument.argumentType,
+      claim: argument.claim,
+      confidence: argument.confidence,
+      respondsTo: argument.respondsTo
+    })),
+    attacks,
+    supports,
+    warnings
+  };
+}
+
+/**
+ * Attackers of each argument in the graph
+ */
+function attackersOf(graph: ArgumentGraph): Map<string, string[]> {
+  const attackers = new Map<string, string[]>(graph.arguments.map(node => [node.argumentId, []]));
+  for (const attack of graph.attacks) {
+    attackers.get(attack.to)!.push(attack.from);
+  }
+  return attackers;
+}
+
+/**
+ * Grounded labelling: accept arguments whose attackers are all defeated and defeat arguments
+ * attacked by an accepted one, until nothing changes
+ */
+export function groundedLabelling(graph: ArgumentGraph): Record<string, ArgumentStatus> {
+  const attackers = attackersOf(graph);
+  const status: Record<string, ArgumentStatus> = Object.fromEntries(
+    graph.arguments.map(node => [node.argumentId, "undecided" as ArgumentStatus])
+  );
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const node of graph.arguments) {
+      if (status[node.argumentId] !== "undecided") {
+        continue;
+      }
+      const against = attackers.get(node.argumentId)!;
+      if (against.every(attacker => status[attacker] === "defeated")) {
+        status[node.argumentId] = "accepted";
+        changed = true;
+      } else if (against.some(attacker => status[attacker] === "accepted")) {
+        status[node.argumentId] = "defeated";
+        changed = true;
+      }
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Preferred extensions (maximal admissible sets) and stable extensions (conflict-free sets attacking
+ * every argument outside them). Every preferred extension contains the grounded extension and excludes
+ * what it defeats, so only the undecided arguments need to be searched.
+ */
+export function preferredAndStableExtensions(
+  graph: ArgumentGraph,
+  status: Record<string, ArgumentStatus>
+): { preferred: string[][]; stable: string[][] } {
+  const attackers = attackersOf(graph);
+  const attacks = (from: string, to: string) => attackers.get(to)!.includes(from);
+  const grounded = graph.arguments.map(node => node.argumentId).filter(id => status[id] === "accepted");
+  const undecided = graph.arguments.map(node => node.argumentId).filter(id => status[id] === "undecided");
+
+  const admissible: Set<string>[] = [];
+  const search = (index: number, chosen: string[]) => {
+    if (index === undecided.length) {
+      const extension = new Set([...grounded, ...chosen]);
+      const defended = [...extension].every(member =>
+        attackers.get(member)!.every(attacker => [...extension].some(defender => attacks(defender, attacker)))
+      );
+      if (defended) {
+        admissible.push(extension);
+      }
+      return;
+    }
+    const candidate = undecided[index];
+    const conflictFree = !attacks(candidate, candidate)
+      && chosen.every(member => !attacks(candidate, member) && !attacks(member, candidate));
+    if (conflictFree) {
+      search(index + 1, [...chosen, candidate]);
+    }
+    search(index + 1, chosen);
+  };
+  search(0, []);
+
+  const order = (extension: Set<string>) => graph.arguments.map(node => node.argumentId).filter(id => extension.has(id));
+  const preferred = admissible.filter(extension =>
+    !admissible.some(other => other.size > extension.size && [...extension].every(id => other.has(id)))
+  );
+  const stable = preferred.filter(extension =>
+    graph.arguments.every(node => extension.has(node.argumentId) || [...extension].some(member => attacks(member, node.argumentId)))
+  );
+
+  return { preferred: preferred.map(order), stable: stable.map(order) };
+}
+
+/**
+ * Evaluate a debate graph under Dung's grounded, preferred and stable semantics.
+ * Arguments accepted under grounded semantics stand, those attacked by an accepted argument are defeated,
+ * and the rest (e.g. mutual attacks) stay undecided.
+ */
+export function evaluateArgumentGraph(graph: ArgumentGraph): ArgumentGraphEvaluation {
+  const status = groundedLabelling(graph);
+  const ids = graph.arguments.map(node => node.argumentId);
+  const withStatus = (wanted: ArgumentStatus) => ids.filter(id => status[id] === wanted);
+  const undecided = withStatus("undecided");
+  const warnings = [...graph.warnings];
+
+  const extensions: ArgumentExtensions = { grounded: withStatus("accepted") };
+  if (undecided.length <= MAX_UNDECIDED) {
+    Object.assign(extensions, preferredAndStableExtensions(graph, status));
+  } else {
+    warnings.push(`Preferred and stable extensions skipped: ${undecided.length} undecided arguments exceed the limit of ${MAX_UNDECIDED}`);
+  }
+
+  return {
+    extensions,
+    status,
+    accepted: withStatus("accepted"),
+    defeated: withStatus("defeated"),
+    undecided,
+    warnings
+  };
+}
+
+/**
+ * Track where a debate stands: which arguments nobody has responded to or contradicted yet, the
+ * dialectical stage, and the argument types that would move it forward. Undecided arguments call for
+ * a synthesis, as does a debate whose challenges have all been answered but not yet drawn together.
+ */
+export function analyzeDebate(graph: ArgumentGraph, evaluation: ArgumentGraphEvaluation): DebateState {
+  const answered = new Set([
+    ...graph.arguments.flatMap(node => node.respondsTo ? [node.respondsTo] : []),
+    ...graph.attacks.map(attack => attack.to)
+  ]);
+  const unansweredNodes = graph.arguments.filter(node => !answered.has(node.argumentId));
+  const openChallenge = unansweredNodes.some(node => CHALLENGE_TYPES.has(node.argumentType));
+  const synthesized = graph.arguments.some(node => node.argumentType === "synthesis");
+
+  let stage: DebateStage;
+  if (openChallenge) {
+    stage = "contested";
+  } else if (synthesized) {
+    stage = "synthesized";
+  } else {
+    stage = graph.attacks.length > 0 ? "answered" : "opening";
+  }
+
+  const suggested = new Set<ArgumentType>(unansweredNodes.flatMap(node => RESPONSES[node.argumentType]));
+  if (graph.arguments.length === 0) {
+    suggested.add("thesis");
+  }
+  if (evaluation.undecided.length > 0 || stage === "answered") {
+    suggested.add("synthesis");
+  }
+
+  return {
+    stage,
+    unanswered: unansweredNodes.map(node => node.argumentId),
+    suggestedNextTypes: ARGUMENT_TYPES.filter(type => suggested.has(type))
+  };
+}
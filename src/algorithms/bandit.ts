@@ -0,0 +1,190 @@
+import { BanditParameters } from '../schemas/StochasticAlgorithmSchema.js';
+import { Random, beta, normal } from './random.js';
+
+export type BanditDefinition = BanditParameters;
+export type RewardModel = 'bernoulli' | 'gaussian';
+
+export interface ArmEstimate {
+  id: string;
+  pulls: number;
+  simulatedPulls: number;
+  meanReward?: number;
+  posteriorMean: number;
+  credibleInterval: [number, number];
+  probabilityBest: number;
+  trueMean?: number;
+}
+
+export interface BanditResult {
+  policy: BanditDefinition['policy'];
+  rewardModel: RewardModel;
+  simulatedRounds: number;
+  cumulativeRegret: number;
+  regretBasis: 'true-means' | 'estimated-means';
+  arms: ArmEstimate[];
+  recommendedArm: string;
+}
+
+// Gaussian arms use a N(0, PRIOR_VARIANCE_SCALE * noise variance) prior
+const PRIOR_VARIANCE_SCALE = 100;
+const PROBABILITY_BEST_SAMPLES = 2000;
+const Z_95 = 1.96;
+
+type Distribution = NonNullable<BanditDefinition['arms'][number]['distribution']>;
+
+interface ArmState {
+  id: string;
+  distribution?: Distribution;
+  pulls: number;
+  simulatedPulls: number;
+  total: number;
+  // Reward noise standard deviation for gaussian arms
+  noise: number;
+}
+
+interface Posterior {
+  mean: number;
+  sd: number;
+  sample: (random: Random) => number;
+}
+
+function trueMean(distribution: Distribution): number {
+  return distribution.type === 'bernoulli' ? distribution.p : distribution.mean;
+}
+
+function drawReward(distribution: Distribution, random: Random): number {
+  return distribution.type === 'bernoulli'
+    ? (random() < distribution.p ? 1 : 0)
+    : distribution.mean + distribution.stdDev * normal(random);
+}
+
+/**
+ * Beta(1, 1) prior for bernoulli arms, conjugate normal prior for gaussian arms
+ */
+function posterior(arm: ArmState, model: RewardModel): Posterior {
+  if (model === 'bernoulli') {
+    const a = 1 + arm.total;
+    const b = 1 + arm.pulls - arm.total;
+    return {
+      mean: a / (a + b),
+      sd: Math.sqrt((a * b) / ((a + b) ** 2 * (a + b + 1))),
+      sample: random => beta(random, a, b)
+    };
+  }
+
+  const variance = arm.noise ** 2;
+  const precision = 1 / (PRIOR_VARIANCE_SCALE * variance) + arm.pulls / variance;
+  const mean = arm.total / variance / precision;
+  const sd = Math.sqrt(1 / precision);
+  return { mean, sd, sample: random => mean + sd * normal(random) };
+}
+
+function argmax(values: number[]): number {
+  return values.reduce((best, value, index) => (value > values[best] ? index : best), 0);
+}
+
+/**
+ * Highest empirical mean; arms never pulled come first
+ */
+function greedyArm(arms: ArmState[]): number {
+  return argmax(arms.map(arm => (arm.pulls === 0 ? Infinity : arm.total / arm.pulls)));
+}
+
+/**
+ * Highest UCB1 index (mean + sqrt(2 ln T / n)); arms never pulled come first
+ */
+function ucbArm(arms: ArmState[]): number {
+  const totalPulls = arms.reduce((sum, arm) => sum + arm.pulls, 0);
+  return argmax(arms.map(arm =>
+    arm.pulls === 0 ? Infinity : arm.total / arm.pulls + Math.sqrt((2 * Math.log(totalPulls)) / arm.pulls)
+  ));
+}
+
+function chooseArm(definition: BanditDefinition, arms: ArmState[], model: RewardModel, random: Random): number {
+  switch (definition.policy) {
+    case 'epsilon-greedy':
+      return random() < definition.epsilon ? Math.floor(random() * arms.length) : greedyArm(arms);
+    case 'ucb1':
+      return ucbArm(arms);
+    case 'thompson':
+      return argmax(arms.map(arm => posterior(arm, model).sample(random)));
+  }
+}
+
+/**
+ * Share of joint posterior draws in which each arm has the highest mean
+ */
+function probabilityBest(arms: ArmState[], model: RewardModel, random: Random): number[] {
+  const posteriors = arms.map(arm => posterior(arm, model));
+  const wins = arms.map(() => 0);
+  for (let i = 0; i < PROBABILITY_BEST_SAMPLES; i++) {
+    wins[argmax(posteriors.map(entry => entry.sample(random)))]++;
+  }
+  return wins.map(count => count / PROBABILITY_BEST_SAMPLES);
+}
+
+/**
+ * Run a multi-armed bandit policy. When every arm has a reward distribution the
+ * policy is simulated for `rounds` pulls on top of any observed history;
+ * otherwise the histories are analyzed as they are.
+ * Regret covers all pulls and is measured against the true means when every
+ * arm has a distribution, else against posterior mean estimates.
+ * @param definition - Arms, policy and simulation settings
+ * @param random - Seeded generator for policy choices, rewards and posterior draws
+ * @returns Cumulative regret, per-arm posterior estimates and the recommended next arm
+ */
+export function runBandit(definition: BanditDefinition, random: Random): BanditResult {
+  const model: RewardModel = definition.rewardModel
+    ?? definition.arms.find(arm => arm.distribution)?.distribution?.type
+    ?? 'bernoulli';
+
+  const arms: ArmState[] = definition.arms.map(arm => ({
+    id: arm.id,
+    distribution: arm.distribution,
+    pulls: arm.history?.pulls ?? 0,
+    simulatedPulls: 0,
+    total: arm.history?.totalReward ?? 0,
+    noise: (arm.distribution?.type === 'gaussian' ? arm.distribution.stdDev : undefined) ?? arm.history?.stdDev ?? 1
+  }));
+
+  const knownMeans = arms.every(arm => arm.distribution);
+  const simulatedRounds = knownMeans ? definition.rounds : 0;
+  for (let round = 0; round < simulatedRounds; round++) {
+    const arm = arms[chooseArm(definition, arms, model, random)];
+    arm.pulls++;
+    arm.simulatedPulls++;
+    arm.total += drawReward(arm.distribution!, random);
+  }
+
+  const posteriors = arms.map(arm => posterior(arm, model));
+  const means = knownMeans ? arms.map(arm => trueMean(arm.distribution!)) : posteriors.map(entry => entry.mean);
+  const bestMean = Math.max(...means);
+  const cumulativeRegret = arms.reduce((sum, arm, index) => sum + arm.pulls * (bestMean - means[index]), 0);
+
+  const best = probabilityBest(arms, model, random);
+  const recommended = definition.policy === 'epsilon-greedy' ? greedyArm(arms)
+    : definition.policy === 'ucb1' ? ucbArm(arms)
+      : argmax(best);
+
+  return {
+    policy: definition.policy,
+    rewardModel: model,
+    simulatedRounds,
+    cumulativeRegret,
+    regretBasis: knownMeans ? 'true-means' : 'estimated-means',
+    arms: arms.map((arm, index) => ({
+      id: arm.id,
+      pulls: arm.pulls,
+      simulatedPulls: arm.simulatedPulls,
+      ...(arm.pulls > 0 ? { meanReward: arm.total / arm.pulls } : {}),
+      posteriorMean: posteriors[index].mean,
+      credibleInterval: [
+        posteriors[index].mean - Z_95 * posteriors[index].sd,
+        posteriors[index].mean + Z_95 * posteriors[index].sd
+      ].map(bound => (model === 'bernoulli' ? Math.min(1, Math.max(0, bound)) : bound)) as [number, number],
+      probabilityBest: best[index],
+      ...(arm.distribution ? { trueMean: trueMean(arm.distribution) } : {})
+    })),
+    recommendedArm: arms[recommended].id
+  };
+}
@@ -0,0 +1,195 @@
+import { DecisionOption, PossibleOutcome } from '../interfaces/DecisionFrameworkInterfaces.js';
+
+/**
+ * Decision rules computed from possible outcomes
+ */
+export type OutcomeAnalysisType = "expected-utility" | "maximin" | "minimax-regret" | "satisficing";
+
+export interface RankedOption {
+  optionId: string;
+  optionName: string;
+  rank: number;
+  score: number;
+  expectedValue: number;
+  worstCase: number;
+  bestCase: number;
+  maxRegret?: number;
+  satisfices?: boolean;
+}
+
+export interface OutcomeAnalysisResult {
+  method: OutcomeAnalysisType;
+  ranking: RankedOption[];
+  recommendedOptionId?: string;
+  expectedValues: Record<string, number>;
+  aspirationLevel?: number;
+  warnings: string[];
+}
+
+const PROBABILITY_TOLERANCE = 1e-6;
+
+/**
+ * Key used to match outcomes to options: the option id, falling back to its name
+ */
+export function optionKey(option: DecisionOption): string {
+  return option.id ?? option.name;
+}
+
+/**
+ * Group outcomes by option, reporting outcomes that reference unknown options
+ */
+export function groupOutcomesByOption(
+  options: DecisionOption[],
+  outcomes: PossibleOutcome[],
+  warnings: string[]
+): Map<string, PossibleOutcome[]> {
+  const grouped = new Map<string, PossibleOutcome[]>(options.map(option => [optionKey(option), []]));
+
+  for (const outcome of outcomes) {
+    const bucket = grouped.get(outcome.optionId);
+    if (!bucket) {
+      warnings.push(`Outcome "${outcome.description}" references unknown option "${outcome.optionId}"`);
+      continue;
+    }
+    bucket.push(outcome);
+  }
+
+  return grouped;
+}
+
+/**
+ * Expected value of a set of outcomes (sum of probability × value)
+ */
+export function expectedValue(outcomes: PossibleOutcome[]): number {
+  return outcomes.reduce((sum, outcome) => sum + outcome.probability * outcome.value, 0);
+}
+
+/**
+ * Regret of each option: the largest shortfall against the best option in any
+ * state of nature. Outcomes of different options describe the same state when
+ * their descriptions match.
+ */
+function computeMaxRegret(grouped: Map<string, PossibleOutcome[]>, warnings: string[]): Map<string, number> {
+  const bestByState = new Map<string, number>();
+  for (const outcomes of grouped.values()) {
+    for (const outcome of outcomes) {
+      const best = bestByState.get(outcome.description);
+      if (best === undefined || outcome.value > best) {
+        bestByState.set(outcome.description, outcome.value);
+      }
+    }
+  }
+
+  const maxRegret = new Map<string, number>();
+  for (const [optionId, outcomes] of grouped) {
+    if (outcomes.length === 0) continue;
+
+    const states = new Set(outcomes.map(outcome => outcome.description));
+    const missing = [...bestByState.keys()].filter(state => !states.has(state));
+    if (missing.length > 0) {
+      warnings.push(`Option "${optionId}" has no outcome for state(s): ${missing.join(', ')}; regret computed over its own states only`);
+    }
+
+    maxRegret.set(optionId, Math.max(...outcomes.map(outcome => bestByState.get(outcome.description)! - outcome.value)));
+  }
+
+  return maxRegret;
+}
+
+/**
+ * Rank options under a classical decision rule using their possible outcomes
+ * @param options - Options being decided between
+ * @param outcomes - Possible outcomes, each tied to an option by optionId
+ * @param method - Decision rule to apply
+ * @param aspirationLevel - Minimum acceptable worst-case value for satisficing, which recommends
+ * the first option in the order given whose worst case meets it
+ * @returns Ranked options with the computed numbers and any data warnings
+ */
+export function analyzeOutcomes(
+  options: DecisionOption[],
+  outcomes: PossibleOutcome[],
+  method: OutcomeAnalysisType,
+  aspirationLevel?: number
+): OutcomeAnalysisResult {
+  const warnings: string[] = [];
+  const grouped = groupOutcomesByOption(options, outcomes, warnings);
+  const names = new Map(options.map(option => [optionKey(option), option.name]));
+  const maxRegret = method === 'minimax-regret' ? computeMaxRegret(grouped, warnings) : undefined;
+
+  let threshold = aspirationLevel;
+  if (method === 'satisficing' && threshold === undefined && outcomes.length > 0) {
+    threshold = outcomes.reduce((sum, outcome) => sum + outcome.value, 0) / outcomes.length;
+    warnings.push(`No aspirationLevel given; using the mean outcome value ${threshold.toFixed(3)}`);
+  }
+
+  const expectedValues: Record<string, number> = {};
+  const scored: Omit<RankedOption, 'rank'>[] = [];
+
+  for (const [optionId, optionOutcomes] of grouped) {
+    if (optionOutcomes.length === 0) {
+      warnings.push(`Option "${optionId}" has no possible outcomes and was not ranked`);
+      continue;
+    }
+
+    const totalProbability = optionOutcomes.reduce((sum, outcome) => sum + outcome.probability, 0);
+    if (Math.abs(totalProbability - 1) > PROBABILITY_TOLERANCE) {
+      warnings.push(`Outcome probabilities for option "${optionId}" sum to ${totalProbability.toFixed(3)}, not 1`);
+    }
+
+    const values = optionOutcomes.map(outcome => outcome.value);
+    const entry: Omit<RankedOption, 'rank'> = {
+      optionId,
+      optionName: names.get(optionId) ?? optionId,
+      score: 0,
+      expectedValue: expectedValue(optionOutcomes),
+      worstCase: Math.min(...values),
+      bestCase: Math.max(...values)
+    };
+    expectedValues[optionId] = entry.expectedValue;
+
+    switch (method) {
+      case 'expected-utility':
+        entry.score = entry.expectedValue;
+        break;
+      case 'maximin':
+        entry.score = entry.worstCase;
+        break;
+      case 'minimax-regret':
+        entry.maxRegret = maxRegret!.get(optionId)!;
+        // Lower regret is better; negate so every rule ranks by descending score
+        entry.score = -entry.maxRegret;
+        break;
+      case 'satisficing':
+        entry.satisfices = entry.worstCase >= threshold!;
+        entry.score = entry.worstCase;
+        break;
+    }
+
+    scored.push(entry);
+  }
+
+  // Satisficing takes acceptable options in the order given; the sort is stable, so they keep it
+  scored.sort((a, b) => {
+    if (method === 'satisficing' && (a.satisfices || b.satisfices)) {
+      return a.satisfices === b.satisfices ? 0 : a.satisfices ? -1 : 1;
+    }
+    return b.score - a.score;
+  });
+
+  const ranking = scored.map((entry, index) => ({ ...entry, rank: index + 1 }));
+  const top = ranking[0];
+  const recommendedOptionId = top && (method !== 'satisficing' || top.satisfices) ? top.optionId : undefined;
+
+  if (method === 'satisficing' && ranking.length > 0 && !recommendedOptionId) {
+    warnings.push('No option meets the aspiration level');
+  }
+
+  return {
+    method,
+    ranking,
+    recommendedOptionId,
+    expectedValues,
+    ...(method === 'satisficing' ? { aspirationLevel: threshold } : {}),
+    warnings
+  };
+}
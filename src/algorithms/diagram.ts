@@ -0,0 +1,211 @@
+import { VisualElement, VisualOperationData } from '../interfaces/VisualReasoningInterfaces.js';
+
+export interface DiagramOperationResult {
+  elements: VisualElement[];
+  removedElementIds: string[];
+  problems: string[];
+}
+
+export interface DiagramSummary {
+  nodeCount: number;
+  edgeCount: number;
+  containerCount: number;
+  annotationCount: number;
+}
+
+type TransformationType = NonNullable<VisualOperationData["transformationType"]>;
+
+// Element types an edge may connect
+const CONNECTABLE_TYPES: ReadonlySet<VisualElement["type"]> = new Set(["node", "container"]);
+
+// Properties each kind of transform may change; regroup changes a container's contents instead
+const TRANSFORM_PROPERTIES: Record<TransformationType, readonly string[]> = {
+  move: ["x", "y", "position"],
+  resize: ["width", "height", "size", "scale"],
+  rotate: ["rotation", "angle"],
+  recolor: ["color", "fill", "stroke"],
+  regroup: []
+};
+
+/**
+ * Merge an update into an existing element; properties are merged key by key
+ */
+function mergeElement(existing: VisualElement, update: VisualElement): VisualElement {
+  return { ...existing, ...update, properties: { ...existing.properties, ...update.properties } };
+}
+
+/**
+ * Apply a transform to an existing element. Unlike update, a transform only changes the
+ * aspect its transformationType names, and anything else it tries to change is a problem.
+ */
+function transformElement(
+  existing: VisualElement,
+  transform: VisualElement,
+  transformationType: TransformationType
+): { element: VisualElement; problems: string[] } {
+  const problems: string[] = [];
+  for (const field of ["type", "label", "source", "target"] as const) {
+    if (transform[field] !== undefined && transform[field] !== existing[field]) {
+      problems.push(`A ${transformationType} transform cannot change the ${field} of "${existing.id}"; use update`);
+    }
+  }
+
+  const allowed = TRANSFORM_PROPERTIES[transformationType];
+  const disallowed = Object.keys(transform.properties).filter(key => !allowed.includes(key));
+  if (disallowed.length > 0) {
+    const scope = allowed.length > 0 ? `only changes ${allowed.join(", ")}` : "only changes contains";
+    problems.push(`A ${transformationType} transform ${scope}, so it cannot set ${disallowed.join(", ")} on "${existing.id}"`);
+  }
+
+  if (transformationType === "regroup") {
+    if (existing.type !== "container") {
+      problems.push(`A regroup transform applies to containers, but "${existing.id}" is a ${existing.type}`);
+    } else if (!transform.contains) {
+      problems.push(`A regroup transform of "${existing.id}" needs contains`);
+    }
+  } else if (transform.contains && JSON.stringify(transform.contains) !== JSON.stringify(existing.contains ?? [])) {
+    problems.push(`A ${transformationType} transform cannot change what "${existing.id}" contains; use regroup`);
+  }
+
+  const element: VisualElement = {
+    ...existing,
+    properties: { ...existing.properties, ...transform.properties },
+    ...(transformationType === "regroup" && transform.contains ? { contains: transform.contains } : {})
+  };
+  return { element, problems };
+}
+
+/**
+ * Structural problems in a diagram: edges must join existing nodes or containers, and containers
+ * may only contain existing elements other than themselves
+ */
+export function validateDiagram(elements: VisualElement[]): string[] {
+  const byId = new Map(elements.map(element => [element.id, element]));
+  const problems: string[] = [];
+
+  for (const element of elements) {
+    if (element.type === "edge") {
+      if (!element.source || !element.target) {
+        problems.push(`Edge "${element.id}" needs both a source and a target`);
+        continue;
+      }
+      for (const end of [element.source, element.target]) {
+        const endpoint = byId.get(end);
+        if (!endpoint) {
+          problems.push(`Edge "${element.id}" references missing node "${end}"`);
+        } else if (!CONNECTABLE_TYPES.has(endpoint.type)) {
+          problems.push(`Edge "${element.id}" must connect nodes or containers, but "${end}" is of type ${endpoint.type}`);
+        }
+      }
+    }
+    if (element.type === "container") {
+      for (const child of element.contains ?? []) {
+        if (child === element.id) {
+          problems.push(`Container "${element.id}" cannot contain itself`);
+        } else if (!byId.has(child)) {
+          problems.push(`Container "${element.id}" contains missing element "${child}"`);
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Apply one visual_reasoning operation to a diagram's element set.
+ * - create adds elements; re-sending an identical element is a no-op so retries are safe
+ * - update merges the given fields into existing elements
+ * - transform changes only what its transformationType names: position (move), size (resize),
+ *   rotation (rotate), colour (recolor) or a container's contents (regroup)
+ * - delete removes elements, along with edges attached to them and their places in containers
+ * - observe leaves the diagram unchanged
+ * Problems are reported rather than thrown, and only problems the operation introduces are listed.
+ */
+export function applyDiagramOperation(current: VisualElement[], operation: VisualOperationData): DiagramOperationResult {
+  const elements = new Map(current.map(element => [element.id, element]));
+  const problems: string[] = [];
+  const removedElementIds: string[] = [];
+
+  if (operation.operation === "transform" && !operation.transformationType) {
+    return { elements: current, removedElementIds, problems: ["A transform needs a transformationType; use update for other changes"] };
+  }
+
+  for (const element of operation.elements ?? []) {
+    const existing = elements.get(element.id);
+    switch (operation.operation) {
+      case "create":
+        if (existing && JSON.stringify(existing) !== JSON.stringify(element)) {
+          problems.push(`Element "${element.id}" already exists; use update to change it`);
+        } else {
+          elements.set(element.id, element);
+        }
+        break;
+      case "update":
+        if (existing && existing.type !== element.type) {
+          // Fields like contains, source and target only fit the original type
+          problems.push(`Element "${element.id}" is a ${existing.type} and cannot become a ${element.type}; delete and create it instead`);
+        } else if (existing) {
+          elements.set(element.id, mergeElement(existing, element));
+        } else {
+          problems.push(`Element "${element.id}" does not exist; use create to add it`);
+        }
+        break;
+      case "transform":
+        if (existing) {
+          const transformed = transformElement(existing, element, operation.transformationType!);
+          problems.push(...transformed.problems);
+          elements.set(element.id, transformed.element);
+        } else {
+          problems.push(`Element "${element.id}" does not exist; use create to add it`);
+        }
+        break;
+      case "delete":
+        if (existing) {
+          elements.delete(element.id);
+          removedElementIds.push(element.id);
+        } else {
+          problems.push(`Element "${element.id}" does not exist`);
+        }
+        break;
+      case "observe":
+        break;
+    }
+  }
+
+  // Deleting an element takes the edges attached to it and its places in containers with it
+  if (removedElementIds.length > 0) {
+    const removed = new Set(removedElementIds);
+    for (const [id, element] of elements) {
+      if (element.type === "edge" && (removed.has(element.source ?? "") || removed.has(element.target ?? ""))) {
+        elements.delete(id);
+        removedElementIds.push(id);
+        removed.add(id);
+      }
+    }
+    for (const [id, element] of elements) {
+      if (element.contains?.some(child => removed.has(child))) {
+        elements.set(id, { ...element, contains: element.contains.filter(child => !removed.has(child)) });
+      }
+    }
+  }
+
+  const next = [...elements.values()];
+  const existingProblems = new Set(validateDiagram(current));
+  problems.push(...validateDiagram(next).filter(problem => !existingProblems.has(problem)));
+
+  return { elements: next, removedElementIds, problems };
+}
+
+/**
+ * Count a diagram's elements by type
+ */
+export function summarizeDiagram(elements: VisualElement[]): DiagramSummary {
+  const count = (type: VisualElement["type"]) => elements.filter(element => element.type === type).length;
+  return {
+    nodeCount: count("node"),
+    edgeCount: count("edge"),
+    containerCount: count("container"),
+    annotationCount: count("annotation")
+  };
+}
@@ -0,0 +1,138 @@
+import { ArgumentData } from '../interfaces/StructuredArgumentationInterfaces.js';
+
+/**
+ * Fallacies and weak premises the detector looks for
+ */
+export type FallacyType = "circular-reasoning" | "appeal-to-authority" | "false-dichotomy" | "unsupported-universal";
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface DetectedFallacy {
+  type: FallacyType;
+  field: string;
+  span: TextSpan;
+  explanation: string;
+}
+
+interface PhraseRule {
+  type: FallacyType;
+  pattern: RegExp;
+  explanation: string;
+}
+
+const AUTHORITY_RULE: PhraseRule = {
+  type: "appeal-to-authority",
+  pattern: /\b(?:(?:experts?|scientists?|doctors?|researchers?|authorities|analysts?|leaders?)\s+(?:say|says|said|agree|agrees|believe|believes|recommend|recommends|claim|claims)|according to|studies (?:show|prove|have shown)|research (?:shows|proves)|it is (?:widely|well) (?:known|accepted)|(?:industry|best) practice (?:says|dictates)|as \w+ (?:said|says|put it))\b/gi,
+  explanation: "Rests on who said it rather than on the evidence; state what the source found and why it is reliable here"
+};
+
+// The gap between "either" and "or" is bounded, so scanning a long clause stays linear
+const DICHOTOMY_RULE: PhraseRule = {
+  type: "false-dichotomy",
+  pattern: /\b(?:either\b[^.;]{0,200}?\bor\b|the only (?:two )?(?:options?|choices?|alternatives?|ways?)|(?:there is|there's|we have) no (?:other )?(?:choice|option|alternative|middle ground)|no other (?:choice|option|alternative|way)|(?:it's|it is) (?:now )?or never|or (?:else )?nothing)/gi,
+  explanation: "Presents two options as the only ones; check whether a middle ground or third option exists"
+};
+
+const UNIVERSAL_PATTERN = /\b(?:all|every|everyone|everybody|everything|always|never|nobody|no one|none|nothing)\b/gi;
+
+// Words ignored when comparing the content of two statements
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "for", "with", "by", "at", "from", "as",
+  "is", "are", "was", "were", "be", "been", "being", "it", "its", "this", "that", "these", "those",
+  "will", "would", "should", "can", "could", "must", "do", "does", "did", "so", "therefore", "thus", "hence", "we", "our"
+]);
+
+// Share of content words two statements must have in common to count as restating each other
+const RESTATEMENT_OVERLAP = 0.8;
+
+/**
+ * Lower-cased content words of a statement, with a trailing plural "s" removed
+ */
+function contentWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9']+/g) ?? [])
+      .filter(word => !STOP_WORDS.has(word))
+      .map(word => word.length > 3 ? word.replace(/s$/, '') : word)
+  );
+}
+
+/**
+ * Whether two statements say the same thing: nearly all content words of the shorter one appear in the longer one
+ */
+function restates(a: string, b: string): boolean {
+  const [shorter, longer] = [contentWords(a), contentWords(b)].sort((x, y) => x.size - y.size);
+  if (shorter.size < 2) {
+    return false;
+  }
+  const shared = [...shorter].filter(word => longer.has(word)).length;
+  return shared / shorter.size >= RESTATEMENT_OVERLAP && shared / longer.size >= RESTATEMENT_OVERLAP / 2;
+}
+
+function matchPhrases(text: string, field: string, rule: PhraseRule): DetectedFallacy[] {
+  return [...text.matchAll(rule.pattern)].map(match => ({
+    type: rule.type,
+    field,
+    span: { start: match.index!, end: match.index! + match[0].length, text: match[0] },
+    explanation: rule.explanation
+  }));
+}
+
+function matchUniversals(text: string, field: string, explanation: string): DetectedFallacy[] {
+  return [...text.matchAll(UNIVERSAL_PATTERN)].map(match => ({
+    type: "unsupported-universal" as const,
+    field,
+    span: { start: match.index!, end: match.index! + match[0].length, text: match[0] },
+    explanation
+  }));
+}
+
+/**
+ * Run the rule-based fallacy and weak-premise detector over an argument's claim, premises and conclusion.
+ * Fields are named like validation paths ("claim", "premises.0", "conclusion") and spans are character
+ * offsets into that field.
+ */
+export function detectFallacies(argument: Pick<ArgumentData, "claim" | "premises" | "conclusion">): DetectedFallacy[] {
+  const fields: Array<[string, string]> = [
+    ["claim", argument.claim],
+    ...argument.premises.map((premise, index): [string, string] => [`premises.${index}`, premise]),
+    ["conclusion", argument.conclusion]
+  ];
+  const premisesUniversal = argument.premises.some(premise => new RegExp(UNIVERSAL_PATTERN.source, "i").test(premise));
+  const fallacies: DetectedFallacy[] = [];
+
+  // Circularity: the claim or conclusion restates one of the premises
+  for (const [field, text] of [["claim", argument.claim], ["conclusion", argument.conclusion]]) {
+    const restated = argument.premises.findIndex(premise => restates(premise, text));
+    if (restated >= 0) {
+      fallacies.push({
+        type: "circular-reasoning",
+        field,
+        span: { start: 0, end: text.length, text },
+        explanation: `Restates premise ${restated + 1}, so the argument assumes what it sets out to show`
+      });
+    }
+  }
+
+  for (const [field, text] of fields) {
+    const phrases = [...matchPhrases(text, field, AUTHORITY_RULE), ...matchPhrases(text, field, DICHOTOMY_RULE)];
+
+    // A premise stated universally is refuted by a single counterexample; a universal claim or
+    // conclusion cannot follow from premises that are not universal themselves
+    const universals = field.startsWith("premises.")
+      ? matchUniversals(text, field, "Universal premise: a single counterexample defeats it; qualify it or give evidence that it holds without exception")
+      : premisesUniversal
+        ? []
+        : matchUniversals(text, field, "Universal statement not supported by any universal premise; qualify it or add a premise that covers every case");
+
+    // Quantifiers inside a flagged phrase ("now or never") are already explained by that phrase
+    const overlapsPhrase = (universal: DetectedFallacy) =>
+      phrases.some(phrase => universal.span.start < phrase.span.end && phrase.span.start < universal.span.end);
+    fallacies.push(...phrases, ...universals.filter(universal => !overlapsPhrase(universal)));
+  }
+
+  return fallacies;
+}
@@ -0,0 +1,224 @@
+import { BayesianParameters } from '../schemas/StochasticAlgorithmSchema.js';
+import { Random } from './random.js';
+
+export type BayesianDefinition = BayesianParameters;
+export type KernelType = BayesianDefinition['kernel'];
+
+export interface GaussianProcessOptions {
+  kernel: KernelType;
+  lengthScale: number;
+  signalVariance: number;
+  noiseVariance: number;
+}
+
+export interface Prediction {
+  mean: number;
+  variance: number;
+}
+
+export interface PosteriorPoint extends Prediction {
+  x: number[];
+}
+
+export interface BayesianOptimizationResult {
+  kernel: KernelType;
+  acquisitionFunction: BayesianDefinition['acquisitionFunction'];
+  goal: BayesianDefinition['goal'];
+  bestObservation: { x: number[]; y: number };
+  nextPoint: PosteriorPoint & { acquisitionValue: number };
+  posterior: PosteriorPoint[];
+}
+
+// Added to the kernel diagonal so noise-free observations stay numerically stable
+const JITTER = 1e-8;
+const DEFAULT_GRID_POINTS_1D = 51;
+const DEFAULT_GRID_POINTS = 400;
+
+/**
+ * Stationary kernel as a function of the scaled distance r = |x - x'| / lengthScale
+ */
+function kernelValue(kernel: KernelType, r: number, signalVariance: number): number {
+  switch (kernel) {
+    case 'rbf':
+      return signalVariance * Math.exp(-0.5 * r * r);
+    case 'matern32':
+      return signalVariance * (1 + Math.sqrt(3) * r) * Math.exp(-Math.sqrt(3) * r);
+    case 'matern52':
+      return signalVariance * (1 + Math.sqrt(5) * r + (5 * r * r) / 3) * Math.exp(-Math.sqrt(5) * r);
+  }
+}
+
+function distance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+}
+
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      if (i === j) {
+        if (sum <= 0) {
+          throw new Error('Kernel matrix is not positive definite; add observation noise or remove duplicate points');
+        }
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+function solveLower(lower: number[][], b: number[]): number[] {
+  const x: number[] = [];
+  for (let i = 0; i < b.length; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= lower[i][k] * x[k];
+    x.push(sum / lower[i][i]);
+  }
+  return x;
+}
+
+function solveUpper(lower: number[][], b: number[]): number[] {
+  const n = b.length;
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = b[i];
+    for (let k = i + 1; k < n; k++) sum -= lower[k][i] * x[k];
+    x[i] = sum / lower[i][i];
+  }
+  return x;
+}
+
+/**
+ * Fit GP regression with a zero prior mean to (already scaled) inputs and targets
+ * @returns Posterior predictor for new inputs
+ */
+export function fitGaussianProcess(
+  inputs: number[][],
+  targets: number[],
+  options: GaussianProcessOptions
+): (x: number[]) => Prediction {
+  const covariance = (a: number[], b: number[]) =>
+    kernelValue(options.kernel, distance(a, b) / options.lengthScale, options.signalVariance);
+
+  const lower = cholesky(inputs.map((a, i) => inputs.map((b, j) =>
+    covariance(a, b) + (i === j ? options.noiseVariance + JITTER : 0)
+  )));
+  const weights = solveUpper(lower, solveLower(lower, targets));
+
+  return x => {
+    const cross = inputs.map(input => covariance(x, input));
+    const v = solveLower(lower, cross);
+    return {
+      mean: cross.reduce((sum, value, i) => sum + value * weights[i], 0),
+      variance: Math.max(0, options.signalVariance - v.reduce((sum, value) => sum + value * value, 0))
+    };
+  };
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+    Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function normalPdf(z: number): number {
+  return Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Acquisition value for maximizing; `mean`, `sd` and `best` are standardized and already
+ * sign-adjusted for the goal, so `xi` and `kappa` do not depend on the scale of the objective
+ */
+function acquisition(definition: BayesianDefinition, mean: number, sd: number, best: number): number {
+  if (definition.acquisitionFunction === 'upper_confidence_bound') {
+    return mean + definition.kappa * sd;
+  }
+  const improvement = mean - best - definition.xi;
+  if (sd === 0) {
+    return definition.acquisitionFunction === 'expected_improvement' ? Math.max(0, improvement) : (improvement > 0 ? 1 : 0);
+  }
+  const z = improvement / sd;
+  return definition.acquisitionFunction === 'expected_improvement'
+    ? improvement * normalCdf(z) + sd * normalPdf(z)
+    : normalCdf(z);
+}
+
+function grid(dimensions: number, size: number): number[][] {
+  let points: number[][] = [[]];
+  for (let d = 0; d < dimensions; d++) {
+    points = points.flatMap(point => Array.from({ length: size }, (_, i) => [...point, i / (size - 1)]));
+  }
+  return points;
+}
+
+/**
+ * Bayesian optimization step: fit a GP to the observations and pick the next
+ * point to sample. Inputs are scaled to [0, 1] per dimension (so `lengthScale`
+ * is relative to each range) and targets are standardized before fitting. The
+ * acquisition, and so the reported acquisition value, works in standardized units.
+ * @param definition - Bounds, observations, kernel and acquisition settings
+ * @param random - Seeded generator for random acquisition candidates
+ * @returns Posterior mean/variance over a grid of the search space and the next point
+ */
+export function runBayesianOptimization(definition: BayesianDefinition, random: Random): BayesianOptimizationResult {
+  const { bounds, observations } = definition;
+  const toUnit = (x: number[]) => x.map((value, d) => (value - bounds[d].min) / (bounds[d].max - bounds[d].min));
+  const fromUnit = (u: number[]) => u.map((value, d) => bounds[d].min + value * (bounds[d].max - bounds[d].min));
+
+  const ys = observations.map(observation => observation.y);
+  const yMean = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const ySpread = Math.sqrt(ys.reduce((sum, y) => sum + (y - yMean) ** 2, 0) / ys.length);
+  const yScale = ySpread > 0 ? ySpread : 1;
+
+  const predictStandardized = fitGaussianProcess(
+    observations.map(observation => toUnit(observation.x)),
+    ys.map(y => (y - yMean) / yScale),
+    { ...definition, noiseVariance: definition.noiseVariance / yScale ** 2 }
+  );
+  const predict = (u: number[]): PosteriorPoint => {
+    const prediction = predictStandardized(u);
+    return { x: fromUnit(u), mean: yMean + yScale * prediction.mean, variance: yScale ** 2 * prediction.variance };
+  };
+
+  const sign = definition.goal === 'maximize' ? 1 : -1;
+  const best = observations.reduce((a, b) => (sign * b.y > sign * a.y ? b : a));
+  const standardize = (y: number) => sign * (y - yMean) / yScale;
+  const score = (point: PosteriorPoint) =>
+    acquisition(definition, standardize(point.mean), Math.sqrt(point.variance) / yScale, standardize(best.y));
+
+  const gridSize = definition.gridSize
+    ?? (bounds.length === 1 ? DEFAULT_GRID_POINTS_1D : Math.max(2, Math.floor(DEFAULT_GRID_POINTS ** (1 / bounds.length))));
+  const posterior = grid(bounds.length, gridSize).map(predict);
+  const candidates = [
+    ...posterior,
+    ...Array.from({ length: definition.candidates }, () => predict(bounds.map(() => random())))
+  ];
+
+  let nextPoint = { ...candidates[0], acquisitionValue: score(candidates[0]) };
+  for (const candidate of candidates) {
+    const value = score(candidate);
+    if (value > nextPoint.acquisitionValue) {
+      nextPoint = { ...candidate, acquisitionValue: value };
+    }
+  }
+
+  return {
+    kernel: definition.kernel,
+    acquisitionFunction: definition.acquisitionFunction,
+    goal: definition.goal,
+    bestObservation: { x: best.x, y: best.y },
+    nextPoint,
+    posterior
+  };
+}
@@ -0,0 +1,229 @@
+import { HmmParameters } from '../schemas/StochasticAlgorithmSchema.js';
+import { Random } from './random.js';
+
+export type HmmDefinition = HmmParameters;
+
+/**
+ * HMM over state and symbol indices: initial[i], transition[i][j], emission[i][k]
+ */
+export interface HmmModel {
+  initial: number[];
+  transition: number[][];
+  emission: number[][];
+}
+
+export interface ForwardBackwardResult {
+  logLikelihood: number;
+  // posteriors[t][i] = P(state i at time t | observations)
+  posteriors: number[][];
+}
+
+export interface ViterbiResult {
+  path: number[];
+  logProbability: number;
+}
+
+export interface HmmFit {
+  model: HmmModel;
+  iterations: number;
+  converged: boolean;
+}
+
+export interface HmmResult {
+  symbols: string[];
+  viterbiPath: string[];
+  viterbiLogProbability: number;
+  logLikelihood: number;
+  likelihood: number;
+  posteriors: Array<Record<string, number>>;
+  fitted?: HmmModel & { iterations: number; converged: boolean };
+}
+
+/**
+ * Scaled forward and backward passes. alpha[t] is normalized to sum to 1 with
+ * scale[t] as the normalizer, so log P(observations) = sum of log scale[t].
+ */
+function forwardBackwardPasses(model: HmmModel, observations: number[]) {
+  const n = model.initial.length;
+  const alpha: number[][] = [];
+  const scale: number[] = [];
+
+  for (let t = 0; t < observations.length; t++) {
+    const row = Array.from({ length: n }, (_, j) => {
+      const prior = t === 0
+        ? model.initial[j]
+        : alpha[t - 1].reduce((sum, value, i) => sum + value * model.transition[i][j], 0);
+      return prior * model.emission[j][observations[t]];
+    });
+    const total = row.reduce((sum, value) => sum + value, 0);
+    if (total === 0) {
+      throw new Error(`Observation ${t + 1} has zero probability under the model`);
+    }
+    scale.push(total);
+    alpha.push(row.map(value => value / total));
+  }
+
+  const beta: number[][] = new Array(observations.length);
+  beta[observations.length - 1] = new Array(n).fill(1);
+  for (let t = observations.length - 2; t >= 0; t--) {
+    beta[t] = Array.from({ length: n }, (_, i) =>
+      model.transition[i].reduce((sum, probability, j) =>
+        sum + probability * model.emission[j][observations[t + 1]] * beta[t + 1][j], 0
+      ) / scale[t + 1]
+    );
+  }
+
+  return { alpha, beta, scale };
+}
+
+/**
+ * Sequence log-likelihood and posterior state marginals
+ */
+export function forwardBackward(model: HmmModel, observations: number[]): ForwardBackwardResult {
+  const { alpha, beta, scale } = forwardBackwardPasses(model, observations);
+  const posteriors = alpha.map((row, t) => {
+    const joint = row.map((value, i) => value * beta[t][i]);
+    const total = joint.reduce((sum, value) => sum + value, 0);
+    return joint.map(value => value / total);
+  });
+  return { logLikelihood: scale.reduce((sum, value) => sum + Math.log(value), 0), posteriors };
+}
+
+/**
+ * Most likely state path, computed in log space
+ */
+export function viterbi(model: HmmModel, observations: number[]): ViterbiResult {
+  const n = model.initial.length;
+  let scores = model.initial.map((probability, i) => Math.log(probability) + Math.log(model.emission[i][observations[0]]));
+  const backPointers: number[][] = [];
+
+  for (let t = 1; t < observations.length; t++) {
+    const pointers: number[] = [];
+    scores = Array.from({ length: n }, (_, j) => {
+      let best = 0;
+      let bestScore = -Infinity;
+      for (let i = 0; i < n; i++) {
+        const score = scores[i] + Math.log(model.transition[i][j]);
+        if (score > bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      }
+      pointers.push(best);
+      return bestScore + Math.log(model.emission[j][observations[t]]);
+    });
+    backPointers.push(pointers);
+  }
+
+  let last = scores.reduce((best, score, i) => (score > scores[best] ? i : best), 0);
+  const logProbability = scores[last];
+  const path = [last];
+  for (let t = backPointers.length - 1; t >= 0; t--) {
+    last = backPointers[t][last];
+    path.unshift(last);
+  }
+  return { path, logProbability };
+}
+
+function randomDistribution(random: Random, length: number): number[] {
+  const weights = Array.from({ length }, () => 0.5 + random());
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => weight / total);
+}
+
+function normalize(row: number[], fallback: number[]): number[] {
+  const total = row.reduce((sum, value) => sum + value, 0);
+  return total > 0 ? row.map(value => value / total) : fallback;
+}
+
+/**
+ * Fit an HMM to a single observation sequence with Baum-Welch (EM), starting
+ * from random row-stochastic matrices
+ * @param stateCount - Number of hidden states
+ * @param symbolCount - Size of the observation alphabet
+ * @param observations - Observation sequence as symbol indices
+ * @param options - Iteration limit and log-likelihood improvement tolerance
+ * @param random - Seeded generator for the initial model
+ */
+export function baumWelch(
+  stateCount: number,
+  symbolCount: number,
+  observations: number[],
+  options: { maxIterations: number; tolerance: number },
+  random: Random
+): HmmFit {
+  let model: HmmModel = {
+    initial: randomDistribution(random, stateCount),
+    transition: Array.from({ length: stateCount }, () => randomDistribution(random, stateCount)),
+    emission: Array.from({ length: stateCount }, () => randomDistribution(random, symbolCount))
+  };
+
+  let previous = -Infinity;
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    const { alpha, beta, scale } = forwardBackwardPasses(model, observations);
+    const logLikelihood = scale.reduce((sum, value) => sum + Math.log(value), 0);
+    if (logLikelihood - previous < options.tolerance) {
+      return { model, iterations: iteration - 1, converged: true };
+    }
+    previous = logLikelihood;
+
+    const gamma = alpha.map((row, t) => normalize(row.map((value, i) => value * beta[t][i]), row));
+    const expectedTransitions = model.transition.map(row => row.map(() => 0));
+    for (let t = 0; t < observations.length - 1; t++) {
+      for (let i = 0; i < stateCount; i++) {
+        for (let j = 0; j < stateCount; j++) {
+          expectedTransitions[i][j] += alpha[t][i] * model.transition[i][j] *
+            model.emission[j][observations[t + 1]] * beta[t + 1][j] / scale[t + 1];
+        }
+      }
+    }
+    const expectedEmissions = model.emission.map(row => row.map(() => 0));
+    observations.forEach((symbol, t) => {
+      gamma[t].forEach((probability, i) => {
+        expectedEmissions[i][symbol] += probability;
+      });
+    });
+
+    model = {
+      initial: gamma[0],
+      transition: expectedTransitions.map((row, i) => normalize(row, model.transition[i])),
+      emission: expectedEmissions.map((row, i) => normalize(row, model.emission[i]))
+    };
+  }
+
+  return { model, iterations: options.maxIterations, converged: false };
+}
+
+/**
+ * Decode an observation sequence: Viterbi path, posterior marginals and
+ * likelihood. Without initial/transition/emission matrices the model is first
+ * fitted with Baum-Welch.
+ * @param definition - States, symbols, optional matrices and observations
+ * @param random - Seeded generator used to initialize Baum-Welch
+ */
+export function analyzeHmm(definition: HmmDefinition, random: Random): HmmResult {
+  const symbols = definition.symbols ?? [...new Set(definition.observations)];
+  const observations = definition.observations.map(observation => symbols.indexOf(observation));
+
+  const fit = definition.initial && definition.transition && definition.emission
+    ? undefined
+    : baumWelch(definition.states.length, symbols.length, observations, definition, random);
+  const model: HmmModel = fit?.model ?? {
+    initial: definition.initial!,
+    transition: definition.transition!,
+    emission: definition.emission!
+  };
+
+  const { logLikelihood, posteriors } = forwardBackward(model, observations);
+  const decoded = viterbi(model, observations);
+
+  return {
+    symbols,
+    viterbiPath: decoded.path.map(state => definition.states[state]),
+    viterbiLogProbability: decoded.logProbability,
+    logLikelihood,
+    likelihood: Math.exp(logLikelihood),
+    posteriors: posteriors.map(row => Object.fromEntries(definition.states.map((state, i) => [state, row[i]]))),
+    ...(fit ? { fitted: { ...fit.model, iterations: fit.iterations, converged: fit.converged } } : {})
+  };
+}
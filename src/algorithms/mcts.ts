@@ -0,0 +1,149 @@
+import { MctsParameters } from '../schemas/StochasticAlgorithmSchema.js';
+import { Random, pick } from './random.js';
+
+export type MctsDefinition = MctsParameters;
+
+export interface MctsChildStatistics {
+  action: string;
+  state: string;
+  visits: number;
+  value: number;
+}
+
+export interface MctsResult {
+  bestSequence: string[];
+  bestValue?: number;
+  children: MctsChildStatistics[];
+  iterations: number;
+}
+
+type GameState = MctsDefinition['states'][number];
+type GameAction = NonNullable<GameState['actions']>[number];
+
+/**
+ * Search tree node. `total` accumulates returns that include the reward of
+ * the action leading into the node, so total / visits is that action's value.
+ */
+interface TreeNode {
+  state: GameState;
+  action?: GameAction;
+  children: TreeNode[];
+  untried: GameAction[];
+  visits: number;
+  total: number;
+}
+
+function createNode(state: GameState, action?: GameAction): TreeNode {
+  return { state, action, children: [], untried: [...(state.actions ?? [])], visits: 0, total: 0 };
+}
+
+function mean(node: TreeNode): number {
+  return node.total / node.visits;
+}
+
+/**
+ * UCB1 applied to trees: max players pick the highest upper bound of the
+ * value, min players the lowest lower bound
+ */
+function selectChild(node: TreeNode, explorationConstant: number): TreeNode {
+  const sign = node.state.player === 'min' ? -1 : 1;
+  const logVisits = Math.log(node.visits);
+  let best = node.children[0];
+  let bestScore = -Infinity;
+  for (const child of node.children) {
+    const score = sign * mean(child) + explorationConstant * Math.sqrt(logVisits / child.visits);
+    if (score > bestScore) {
+      best = child;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Play uniformly random actions until a terminal state or the depth limit.
+ * Terminal states pay their reward; cutting off at the depth limit pays nothing more.
+ */
+function rollout(
+  start: GameState,
+  depth: number,
+  states: Map<string, GameState>,
+  maxDepth: number,
+  random: Random
+): number {
+  let state = start;
+  let value = 0;
+  while (depth < maxDepth && state.actions && state.actions.length > 0) {
+    const action = pick(random, state.actions);
+    value += action.reward ?? 0;
+    state = states.get(action.next)!;
+    depth++;
+  }
+  return !state.actions || state.actions.length === 0 ? value + (state.reward ?? 0) : value;
+}
+
+/**
+ * Most visited child, breaking ties by value from the mover's perspective
+ */
+function mostVisited(node: TreeNode): TreeNode {
+  const sign = node.state.player === 'min' ? -1 : 1;
+  return node.children.reduce((best, child) =>
+    child.visits > best.visits || (child.visits === best.visits && sign * mean(child) > sign * mean(best)) ? child : best
+  );
+}
+
+/**
+ * Monte Carlo Tree Search with UCT over a declarative game/decision tree.
+ * Rewards are from the max player's perspective; states without actions are terminal.
+ * @param definition - Root, states, iteration budget, exploration constant and depth limit
+ * @param random - Seeded generator used for expansion order and rollouts
+ * @returns Best action sequence and per-child statistics at the root
+ */
+export function runMcts(definition: MctsDefinition, random: Random): MctsResult {
+  const states = new Map(definition.states.map(state => [state.id, state]));
+  const root = createNode(states.get(definition.root)!);
+
+  for (let iteration = 0; iteration < definition.iterations; iteration++) {
+    // Selection
+    let node = root;
+    const path = [root];
+    while (node.untried.length === 0 && node.children.length > 0 && path.length - 1 < definition.maxDepth) {
+      node = selectChild(node, definition.explorationConstant);
+      path.push(node);
+    }
+
+    // Expansion
+    if (node.untried.length > 0 && path.length - 1 < definition.maxDepth) {
+      const [action] = node.untried.splice(Math.floor(random() * node.untried.length), 1);
+      const child = createNode(states.get(action.next)!, action);
+      node.children.push(child);
+      node = child;
+      path.push(node);
+    }
+
+    // Simulation and backpropagation
+    let value = rollout(node.state, path.length - 1, states, definition.maxDepth, random);
+    for (let i = path.length - 1; i >= 0; i--) {
+      value += path[i].action?.reward ?? 0;
+      path[i].visits++;
+      path[i].total += value;
+    }
+  }
+
+  const bestSequence: string[] = [];
+  for (let node = root; node.children.length > 0;) {
+    node = mostVisited(node);
+    bestSequence.push(node.action!.name);
+  }
+
+  const children = root.children
+    .map(child => ({ action: child.action!.name, state: child.state.id, visits: child.visits, value: mean(child) }))
+    .sort((a, b) => b.visits - a.visits);
+
+  return {
+    bestSequence,
+    ...(root.children.length > 0 ? { bestValue: mean(mostVisited(root)) } : {}),
+    children,
+    iterations: definition.iterations
+  };
+}
@@ -0,0 +1,156 @@
+import { MdpParameters } from '../schemas/StochasticAlgorithmSchema.js';
+
+export type MdpDefinition = Omit<MdpParameters, 'method'>;
+
+export interface MdpSolution {
+  policy: Record<string, string | null>;
+  values: Record<string, number>;
+  iterations: number;
+  converged: boolean;
+}
+
+interface Outcome {
+  next: number;
+  probability: number;
+  reward: number;
+}
+
+/**
+ * Compiled MDP: for each state, the available actions and their outcomes.
+ * States without any transitions are terminal and have value 0.
+ */
+interface CompiledMdp {
+  states: string[];
+  choices: Array<Array<{ action: string; outcomes: Outcome[] }>>;
+  gamma: number;
+}
+
+function compile(definition: MdpDefinition): CompiledMdp {
+  const stateIndex = new Map(definition.states.map((state, index) => [state, index]));
+
+  const immediate = new Map<string, number>();
+  for (const entry of definition.rewards ?? []) {
+    // A reward without an action applies to every action taken in that state
+    const actions = entry.action ? [entry.action] : definition.actions;
+    for (const action of actions) {
+      const key = `${entry.state}\u0000${action}`;
+      immediate.set(key, (immediate.get(key) ?? 0) + entry.reward);
+    }
+  }
+
+  const choices = definition.states.map(state => definition.actions
+    .map(action => ({
+      action,
+      outcomes: definition.transitions
+        .filter(transition => transition.state === state && transition.action === action)
+        .map(transition => ({
+          next: stateIndex.get(transition.nextState)!,
+          probability: transition.probability,
+          reward: (transition.reward ?? 0) + (immediate.get(`${state}\u0000${action}`) ?? 0)
+        }))
+    }))
+    .filter(choice => choice.outcomes.length > 0)
+  );
+
+  return { states: definition.states, choices, gamma: definition.gamma };
+}
+
+function actionValue(mdp: CompiledMdp, outcomes: Outcome[], values: number[]): number {
+  return outcomes.reduce((sum, outcome) => sum + outcome.probability * (outcome.reward + mdp.gamma * values[outcome.next]), 0);
+}
+
+function greedyPolicy(mdp: CompiledMdp, values: number[]): number[] {
+  return mdp.choices.map(choices => {
+    let best = -1;
+    let bestValue = -Infinity;
+    choices.forEach((choice, index) => {
+      const value = actionValue(mdp, choice.outcomes, values);
+      if (value > bestValue + 1e-12) {
+        best = index;
+        bestValue = value;
+      }
+    });
+    return best;
+  });
+}
+
+function toSolution(mdp: CompiledMdp, policy: number[], values: number[], iterations: number, converged: boolean): MdpSolution {
+  return {
+    policy: Object.fromEntries(mdp.states.map((state, s) => [state, policy[s] >= 0 ? mdp.choices[s][policy[s]].action : null])),
+    values: Object.fromEntries(mdp.states.map((state, s) => [state, values[s]])),
+    iterations,
+    converged
+  };
+}
+
+/**
+ * Solve an MDP with value iteration (Bellman optimality backups until the
+ * largest value change drops below the tolerance)
+ */
+export function valueIteration(definition: MdpDefinition): MdpSolution {
+  const mdp = compile(definition);
+  let values = mdp.states.map(() => 0);
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < definition.maxIterations) {
+    iterations++;
+    const next = mdp.choices.map(choices =>
+      choices.length === 0 ? 0 : Math.max(...choices.map(choice => actionValue(mdp, choice.outcomes, values)))
+    );
+    const delta = Math.max(...next.map((value, s) => Math.abs(value - values[s])));
+    values = next;
+    if (delta < definition.tolerance) {
+      converged = true;
+      break;
+    }
+  }
+
+  return toSolution(mdp, greedyPolicy(mdp, values), values, iterations, converged);
+}
+
+/**
+ * Evaluate a fixed policy by iterating its Bellman expectation equation
+ */
+function evaluatePolicy(mdp: CompiledMdp, policy: number[], initial: number[], definition: MdpDefinition): number[] {
+  let values = initial;
+  for (let i = 0; i < definition.maxIterations; i++) {
+    const next = mdp.choices.map((choices, s) =>
+      policy[s] < 0 ? 0 : actionValue(mdp, choices[policy[s]].outcomes, values)
+    );
+    const delta = Math.max(...next.map((value, s) => Math.abs(value - values[s])));
+    values = next;
+    if (delta < definition.tolerance) break;
+  }
+  return values;
+}
+
+/**
+ * Solve an MDP with policy iteration (alternate policy evaluation and greedy
+ * improvement until the policy is stable); iterations counts improvement steps
+ */
+export function policyIteration(definition: MdpDefinition): MdpSolution {
+  const mdp = compile(definition);
+  let policy: number[] = mdp.choices.map(choices => (choices.length > 0 ? 0 : -1));
+  let values = mdp.states.map(() => 0);
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < definition.maxIterations) {
+    iterations++;
+    values = evaluatePolicy(mdp, policy, values, definition);
+    const improved = greedyPolicy(mdp, values);
+    // Keep the current action on ties so the loop cannot cycle between equally good policies
+    const stable = improved.every((action, s) =>
+      action === policy[s] ||
+      actionValue(mdp, mdp.choices[s][action].outcomes, values) <= actionValue(mdp, mdp.choices[s][policy[s]].outcomes, values) + definition.tolerance
+    );
+    if (stable) {
+      converged = true;
+      break;
+    }
+    policy = improved;
+  }
+
+  return toSolution(mdp, policy, values, iterations, converged);
+}
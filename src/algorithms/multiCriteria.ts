@@ -0,0 +1,262 @@
+import {
+  DecisionOption,
+  DecisionCriterion,
+  CriterionEvaluation,
+  PairwiseComparison
+} from '../interfaces/DecisionFrameworkInterfaces.js';
+import { optionKey } from './decisionAnalysis.js';
+
+/**
+ * Multi-criteria scoring methods
+ */
+export type MultiCriteriaMethod = "weighted-sum" | "topsis" | "ahp";
+
+export interface MultiCriteriaRankedOption {
+  optionId: string;
+  optionName: string;
+  rank: number;
+  score: number;
+  contributions: Record<string, number>;
+}
+
+export interface ConsistencyReport {
+  lambdaMax: number;
+  consistencyIndex: number;
+  consistencyRatio: number;
+  isConsistent: boolean;
+}
+
+export interface MultiCriteriaResult {
+  method: MultiCriteriaMethod;
+  ranking: MultiCriteriaRankedOption[];
+  recommendedOptionId?: string;
+  scores: Record<string, number>;
+  criterionWeights: Record<string, number>;
+  consistency?: ConsistencyReport;
+  warnings: string[];
+}
+
+// Saaty's random consistency index by matrix size
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
+const CONSISTENCY_THRESHOLD = 0.1;
+
+/**
+ * Key used to match evaluations to criteria: the criterion id, falling back to its name
+ */
+export function criterionKey(criterion: DecisionCriterion): string {
+  return criterion.id ?? criterion.name;
+}
+
+/**
+ * Build the option × criterion score matrix, filling gaps with 0
+ */
+export function buildScoreMatrix(
+  options: DecisionOption[],
+  criteria: DecisionCriterion[],
+  evaluations: CriterionEvaluation[],
+  warnings: string[]
+): number[][] {
+  const optionIndex = new Map(options.map((option, index) => [optionKey(option), index]));
+  const criterionIndex = new Map(criteria.map((criterion, index) => [criterionKey(criterion), index]));
+  const matrix: (number | undefined)[][] = options.map(() => criteria.map(() => undefined));
+
+  for (const evaluation of evaluations) {
+    const row = optionIndex.get(evaluation.optionId);
+    const column = criterionIndex.get(evaluation.criterionId);
+    if (row === undefined || column === undefined) {
+      warnings.push(`Evaluation of "${evaluation.optionId}" on "${evaluation.criterionId}" references an unknown option or criterion`);
+      continue;
+    }
+    matrix[row][column] = evaluation.score;
+  }
+
+  return matrix.map((row, i) => row.map((score, j) => {
+    if (score === undefined) {
+      warnings.push(`No evaluation of "${optionKey(options[i])}" on "${criterionKey(criteria[j])}"; scored as 0`);
+      return 0;
+    }
+    return score;
+  }));
+}
+
+/**
+ * Normalize criterion weights so they sum to 1
+ */
+export function normalizeWeights(criteria: DecisionCriterion[], warnings: string[]): number[] {
+  const total = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (total === 0) {
+    warnings.push('All criterion weights are 0; weighting criteria equally');
+    return criteria.map(() => 1 / criteria.length);
+  }
+  return criteria.map(criterion => criterion.weight / total);
+}
+
+/**
+ * Derive criterion weights from an AHP pairwise comparison matrix using the
+ * row geometric mean, and report Saaty's consistency ratio
+ */
+export function ahpWeights(
+  criteria: DecisionCriterion[],
+  comparisons: PairwiseComparison[],
+  warnings: string[]
+): { weights: number[]; consistency: ConsistencyReport } {
+  const n = criteria.length;
+  const index = new Map(criteria.map((criterion, i) => [criterionKey(criterion), i]));
+  const matrix: number[][] = criteria.map((_, i) => criteria.map((_, j) => (i === j ? 1 : 0)));
+
+  for (const comparison of comparisons) {
+    const i = index.get(comparison.criterionA);
+    const j = index.get(comparison.criterionB);
+    if (i === undefined || j === undefined || i === j) {
+      warnings.push(`Pairwise comparison "${comparison.criterionA}" vs "${comparison.criterionB}" does not name two distinct criteria`);
+      continue;
+    }
+    matrix[i][j] = comparison.preference;
+    matrix[j][i] = 1 / comparison.preference;
+  }
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (matrix[i][j] === 0) {
+        warnings.push(`No pairwise comparison of "${criterionKey(criteria[i])}" and "${criterionKey(criteria[j])}"; assuming equal importance`);
+        matrix[i][j] = 1;
+        matrix[j][i] = 1;
+      }
+    }
+  }
+
+  const geometricMeans = matrix.map(row => Math.pow(row.reduce((product, value) => product * value, 1), 1 / n));
+  const total = geometricMeans.reduce((sum, value) => sum + value, 0);
+  const weights = geometricMeans.map(value => value / total);
+
+  const lambdaMax = matrix.reduce((sum, row, i) => {
+    const weighted = row.reduce((rowSum, value, j) => rowSum + value * weights[j], 0);
+    return sum + weighted / weights[i];
+  }, 0) / n;
+  const consistencyIndex = n > 1 ? (lambdaMax - n) / (n - 1) : 0;
+  const randomIndex = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length - 1)];
+  const consistencyRatio = randomIndex > 0 ? consistencyIndex / randomIndex : 0;
+
+  return {
+    weights,
+    consistency: {
+      lambdaMax,
+      consistencyIndex,
+      consistencyRatio,
+      isConsistent: consistencyRatio < CONSISTENCY_THRESHOLD
+    }
+  };
+}
+
+/**
+ * Weighted-sum contributions: weight × score per criterion
+ */
+function weightedSumContributions(matrix: number[][], weights: number[]): number[][] {
+  return matrix.map(row => row.map((score, j) => weights[j] * score));
+}
+
+/**
+ * TOPSIS: closeness of each option to the ideal solution, using vector
+ * normalization and treating every criterion score as a benefit
+ */
+function topsis(matrix: number[][], weights: number[]): { scores: number[]; contributions: number[][] } {
+  const columns = weights.length;
+  const norms = Array.from({ length: columns }, (_, j) =>
+    Math.sqrt(matrix.reduce((sum, row) => sum + row[j] * row[j], 0))
+  );
+  const weighted = matrix.map(row => row.map((score, j) => (norms[j] > 0 ? (score / norms[j]) * weights[j] : 0)));
+
+  const idealBest = Array.from({ length: columns }, (_, j) => Math.max(...weighted.map(row => row[j])));
+  const idealWorst = Array.from({ length: columns }, (_, j) => Math.min(...weighted.map(row => row[j])));
+
+  const distance = (row: number[], ideal: number[]) =>
+    Math.sqrt(row.reduce((sum, value, j) => sum + (value - ideal[j]) ** 2, 0));
+
+  const scores = weighted.map(row => {
+    const toBest = distance(row, idealBest);
+    const toWorst = distance(row, idealWorst);
+    return toBest + toWorst > 0 ? toWorst / (toBest + toWorst) : 1;
+  });
+
+  return { scores, contributions: weighted };
+}
+
+/**
+ * AHP synthesis: option priorities per criterion come from the evaluation
+ * scores normalized to sum to 1 (distributive mode), weighted by AHP weights
+ */
+function ahpContributions(matrix: number[][], weights: number[]): number[][] {
+  const columnTotals = weights.map((_, j) => matrix.reduce((sum, row) => sum + row[j], 0));
+  return matrix.map(row => row.map((score, j) => {
+    const priority = columnTotals[j] > 0 ? score / columnTotals[j] : 1 / matrix.length;
+    return weights[j] * priority;
+  }));
+}
+
+/**
+ * Score and rank options against weighted criteria
+ * @param options - Options being decided between
+ * @param criteria - Criteria with weights (ignored by AHP, which derives its own)
+ * @param evaluations - Per option, per criterion scores
+ * @param method - Scoring method
+ * @param comparisons - AHP pairwise criterion comparisons
+ * @returns Ranked options with per-criterion contributions
+ */
+export function analyzeMultiCriteria(
+  options: DecisionOption[],
+  criteria: DecisionCriterion[],
+  evaluations: CriterionEvaluation[],
+  method: MultiCriteriaMethod,
+  comparisons: PairwiseComparison[] = []
+): MultiCriteriaResult {
+  const warnings: string[] = [];
+  const matrix = buildScoreMatrix(options, criteria, evaluations, warnings);
+
+  let weights: number[];
+  let consistency: ConsistencyReport | undefined;
+  if (method === 'ahp') {
+    ({ weights, consistency } = ahpWeights(criteria, comparisons, warnings));
+    if (!consistency.isConsistent) {
+      warnings.push(`Pairwise comparisons are inconsistent (CR ${consistency.consistencyRatio.toFixed(3)} ≥ ${CONSISTENCY_THRESHOLD}); revisit the judgments`);
+    }
+  } else {
+    weights = normalizeWeights(criteria, warnings);
+  }
+
+  let scores: number[];
+  let contributions: number[][];
+  switch (method) {
+    case 'weighted-sum':
+      contributions = weightedSumContributions(matrix, weights);
+      scores = contributions.map(row => row.reduce((sum, value) => sum + value, 0));
+      break;
+    case 'topsis':
+      ({ scores, contributions } = topsis(matrix, weights));
+      break;
+    case 'ahp':
+      contributions = ahpContributions(matrix, weights);
+      scores = contributions.map(row => row.reduce((sum, value) => sum + value, 0));
+      break;
+  }
+
+  const criterionIds = criteria.map(criterionKey);
+  const ranking = options
+    .map((option, i) => ({
+      optionId: optionKey(option),
+      optionName: option.name,
+      score: scores[i],
+      contributions: Object.fromEntries(criterionIds.map((id, j) => [id, contributions[i][j]]))
+    }))
+    .sort((a, b) => b.score - a.score)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+  return {
+    method,
+    ranking,
+    recommendedOptionId: ranking[0]?.optionId,
+    scores: Object.fromEntries(ranking.map(entry => [entry.optionId, entry.score])),
+    criterionWeights: Object.fromEntries(criterionIds.map((id, j) => [id, weights[j]])),
+    ...(consistency ? { consistency } : {}),
+    warnings
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Seeded pseudo-random number generator returning floats in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * Create a seeded generator (mulberry32) so stochastic runs are reproducible
+ * @param seed - Unsigned 32-bit integer; other numbers are truncated to one
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh seed for callers that did not supply one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Uniformly pick an element of a non-empty array
+ */
+export function pick<T>(random: Random, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+export function normal(random: Random): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Gamma(shape, 1) sample (Marsaglia-Tsang, boosted for shape < 1)
+ */
+export function gamma(random: Random, shape: number): number {
+  if (shape < 1) {
+    return gamma(random, shape + 1) * Math.pow(1 - random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = normal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) continue;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+/**
+ * Beta(a, b) sample
+ */
+export function beta(random: Random, a: number, b: number): number {
+  const x = gamma(random, a);
+  return x / (x + gamma(random, b));
+}
@@ -0,0 +1,192 @@
+import {
+  DecisionOption,
+  DecisionCriterion,
+  CriterionEvaluation,
+  PossibleOutcome
+} from '../interfaces/DecisionFrameworkInterfaces.js';
+import { analyzeOutcomes, optionKey, OutcomeAnalysisType } from './decisionAnalysis.js';
+import { analyzeMultiCriteria, criterionKey, MultiCriteriaMethod } from './multiCriteria.js';
+
+export interface ParameterSensitivity {
+  parameter: string;
+  kind: 'criterion-weight' | 'outcome-probability';
+  baselineValue: number;
+  flips: boolean;
+  threshold?: number;
+  direction?: 'increase' | 'decrease';
+  newTopOptionId?: string;
+}
+
+export interface SensitivityResult {
+  baselineTopOptionId: string;
+  parameters: ParameterSensitivity[];
+  robustness: 'robust' | 'moderate' | 'fragile';
+  insights: string[];
+}
+
+const SCAN_STEPS = 100;
+const BISECTION_ITERATIONS = 30;
+// A flip closer than this to the baseline value makes a recommendation fragile
+const FRAGILE_DISTANCE = 0.1;
+
+/**
+ * Find the value nearest the baseline at which the top-ranked option changes.
+ * Scans the range in both directions, then bisects to locate the threshold.
+ */
+function findTippingPoint(
+  baselineValue: number,
+  min: number,
+  max: number,
+  baselineTop: string,
+  topAt: (value: number) => string | undefined
+): Pick<ParameterSensitivity, 'threshold' | 'direction' | 'newTopOptionId'> | undefined {
+  const step = (max - min) / SCAN_STEPS;
+  const candidates: Array<{ threshold: number; direction: 'increase' | 'decrease'; newTopOptionId: string }> = [];
+
+  for (const direction of ['increase', 'decrease'] as const) {
+    const sign = direction === 'increase' ? 1 : -1;
+    let stable = baselineValue;
+
+    for (let value = baselineValue + sign * step; sign > 0 ? value <= max + 1e-12 : value >= min - 1e-12; value += sign * step) {
+      const clamped = Math.min(max, Math.max(min, value));
+      const top = topAt(clamped);
+      if (top === baselineTop) {
+        stable = clamped;
+        continue;
+      }
+
+      // Bisect between the last stable value and the first flipped value
+      let flipped = clamped;
+      for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+        const mid = (stable + flipped) / 2;
+        if (topAt(mid) === baselineTop) {
+          stable = mid;
+        } else {
+          flipped = mid;
+        }
+      }
+
+      candidates.push({ threshold: flipped, direction, newTopOptionId: topAt(flipped) ?? 'none' });
+      break;
+    }
+  }
+
+  candidates.sort((a, b) => Math.abs(a.threshold - baselineValue) - Math.abs(b.threshold - baselineValue));
+  return candidates[0];
+}
+
+/**
+ * Summarize tipping points into a robustness rating and readable insights
+ */
+function summarize(baselineTop: string, parameters: ParameterSensitivity[], names: Map<string, string>): SensitivityResult {
+  const flips = parameters.filter(parameter => parameter.flips);
+  const nearest = Math.min(...flips.map(parameter => Math.abs(parameter.threshold! - parameter.baselineValue)));
+
+  const robustness = flips.length === 0 ? 'robust' : nearest < FRAGILE_DISTANCE ? 'fragile' : 'moderate';
+  const name = (optionId: string) => names.get(optionId) ?? optionId;
+
+  const insights = flips.length === 0
+    ? [`${name(baselineTop)} stays top-ranked across the full range of every parameter tested`]
+    : flips
+      .sort((a, b) => Math.abs(a.threshold! - a.baselineValue) - Math.abs(b.threshold! - b.baselineValue))
+      .map(parameter =>
+        `${parameter.kind === 'criterion-weight' ? 'Weight' : 'Probability'} of ${parameter.parameter}: ` +
+        `${parameter.direction === 'increase' ? 'raising' : 'lowering'} it from ${parameter.baselineValue.toFixed(3)} ` +
+        `to ${parameter.threshold!.toFixed(3)} makes ${name(parameter.newTopOptionId!)} top-ranked instead of ${name(baselineTop)}`
+      );
+
+  return { baselineTopOptionId: baselineTop, parameters, robustness, insights };
+}
+
+/**
+ * Perturb each criterion weight over [0, 1] and report where the top option flips
+ * @param options - Options being decided between
+ * @param criteria - Weighted criteria
+ * @param evaluations - Per option, per criterion scores
+ * @param method - Multi-criteria method (AHP weights come from pairwise judgments and are not perturbed)
+ * @returns Sensitivity result, or undefined if nothing is ranked
+ */
+export function weightSensitivity(
+  options: DecisionOption[],
+  criteria: DecisionCriterion[],
+  evaluations: CriterionEvaluation[],
+  method: Exclude<MultiCriteriaMethod, 'ahp'>
+): SensitivityResult | undefined {
+  const baselineTop = analyzeMultiCriteria(options, criteria, evaluations, method).recommendedOptionId;
+  if (!baselineTop) {
+    return undefined;
+  }
+
+  const parameters = criteria.map((criterion, index): ParameterSensitivity => {
+    const topAt = (weight: number) => analyzeMultiCriteria(
+      options,
+      criteria.map((other, j) => (j === index ? { ...other, weight } : other)),
+      evaluations,
+      method
+    ).recommendedOptionId;
+
+    const tippingPoint = findTippingPoint(criterion.weight, 0, 1, baselineTop, topAt);
+    return {
+      parameter: criterionKey(criterion),
+      kind: 'criterion-weight',
+      baselineValue: criterion.weight,
+      flips: !!tippingPoint,
+      ...tippingPoint
+    };
+  });
+
+  return summarize(baselineTop, parameters, new Map(options.map(option => [optionKey(option), option.name])));
+}
+
+/**
+ * Perturb each outcome probability and report where the top option flips.
+ * The other outcomes of the same option are rescaled so the option's total
+ * probability is unchanged; options with a single outcome are not perturbed.
+ * @param options - Options being decided between
+ * @param outcomes - Possible outcomes
+ * @param method - Outcome decision rule
+ * @param aspirationLevel - Aspiration level for satisficing
+ * @returns Sensitivity result, or undefined if nothing is ranked
+ */
+export function probabilitySensitivity(
+  options: DecisionOption[],
+  outcomes: PossibleOutcome[],
+  method: OutcomeAnalysisType,
+  aspirationLevel?: number
+): SensitivityResult | undefined {
+  const baselineTop = analyzeOutcomes(options, outcomes, method, aspirationLevel).recommendedOptionId;
+  if (!baselineTop) {
+    return undefined;
+  }
+
+  const parameters: ParameterSensitivity[] = [];
+  outcomes.forEach((outcome, index) => {
+    const siblings = outcomes.filter((other, j) => j !== index && other.optionId === outcome.optionId);
+    const siblingTotal = siblings.reduce((sum, other) => sum + other.probability, 0);
+    if (siblings.length === 0 || siblingTotal === 0) {
+      return;
+    }
+
+    const total = siblingTotal + outcome.probability;
+    const topAt = (probability: number) => {
+      const scale = (total - probability) / siblingTotal;
+      const perturbed = outcomes.map((other, j) => {
+        if (j === index) return { ...other, probability };
+        if (other.optionId === outcome.optionId) return { ...other, probability: other.probability * scale };
+        return other;
+      });
+      return analyzeOutcomes(options, perturbed, method, aspirationLevel).recommendedOptionId;
+    };
+
+    const tippingPoint = findTippingPoint(outcome.probability, 0, total, baselineTop, topAt);
+    parameters.push({
+      parameter: `${outcome.optionId}: ${outcome.description}`,
+      kind: 'outcome-probability',
+      baselineValue: outcome.probability,
+      flips: !!tippingPoint,
+      ...tippingPoint
+    });
+  });
+
+  return summarize(baselineTop, parameters, new Map(options.map(option => [optionKey(option), option.name])));
+}
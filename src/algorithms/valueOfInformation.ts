@@ -0,0 +1,188 @@
+import { DecisionOption, PossibleOutcome, InformationGap } from '../interfaces/DecisionFrameworkInterfaces.js';
+import { groupOutcomesByOption } from './decisionAnalysis.js';
+
+export interface InformationGapValue {
+  description: string;
+  researchMethod: string;
+  impact: number;
+  states: string[];
+  evpi: number;
+  evsi?: number;
+  sampleAccuracy?: number;
+  cost?: number;
+  netValue: number;
+  worthResearching: boolean;
+  rank: number;
+}
+
+export interface ValueOfInformationResult {
+  baselineOptionId: string;
+  baselineExpectedValue: number;
+  evpi: number;
+  gaps: InformationGapValue[];
+  warnings: string[];
+}
+
+const PROBABILITY_TOLERANCE = 1e-6;
+
+/**
+ * State-of-nature model shared by all options: outcomes with the same
+ * description are the same state, and each state's probability is the mean
+ * of the probabilities the options assign to it.
+ */
+interface StateModel {
+  states: string[];
+  probabilities: number[];
+  // values[option][state]; undefined when an option has no outcome for the state
+  values: Map<string, (number | undefined)[]>;
+}
+
+function buildStateModel(options: DecisionOption[], outcomes: PossibleOutcome[], warnings: string[]): StateModel {
+  const grouped = groupOutcomesByOption(options, outcomes, warnings);
+  const states = [...new Set(outcomes.filter(outcome => grouped.has(outcome.optionId)).map(outcome => outcome.description))];
+
+  const probabilities = states.map(state => {
+    const assigned = outcomes.filter(outcome => outcome.description === state && grouped.has(outcome.optionId)).map(outcome => outcome.probability);
+    if (Math.max(...assigned) - Math.min(...assigned) > PROBABILITY_TOLERANCE) {
+      warnings.push(`Options assign different probabilities to state "${state}"; using their mean`);
+    }
+    return assigned.reduce((sum, probability) => sum + probability, 0) / assigned.length;
+  });
+
+  const total = probabilities.reduce((sum, probability) => sum + probability, 0);
+  if (total > 0 && Math.abs(total - 1) > PROBABILITY_TOLERANCE) {
+    warnings.push(`State probabilities sum to ${total.toFixed(3)}; normalizing to 1`);
+  }
+
+  const values = new Map<string, (number | undefined)[]>();
+  for (const [optionId, optionOutcomes] of grouped) {
+    if (optionOutcomes.length === 0) continue;
+    values.set(optionId, states.map(state => optionOutcomes.find(outcome => outcome.description === state)?.value));
+    const missing = states.filter((_, s) => values.get(optionId)![s] === undefined);
+    if (missing.length > 0) {
+      warnings.push(`Option "${optionId}" has no outcome for state(s): ${missing.join(', ')}; valued at 0`);
+    }
+  }
+
+  return {
+    states,
+    probabilities: total > 0 ? probabilities.map(probability => probability / total) : probabilities,
+    values
+  };
+}
+
+/**
+ * Best expected value when the state distribution is the given weights
+ */
+function bestExpectedValue(model: StateModel, weights: number[]): { optionId: string; value: number } {
+  let best = { optionId: '', value: -Infinity };
+  for (const [optionId, optionValues] of model.values) {
+    const value = optionValues.reduce<number>((sum, stateValue, s) => sum + weights[s] * (stateValue ?? 0), 0);
+    if (value > best.value) {
+      best = { optionId, value };
+    }
+  }
+  return best;
+}
+
+/**
+ * Split states into the cells an information source can distinguish: each
+ * named state on its own, and all remaining states together
+ */
+function partitionStates(model: StateModel, named: string[]): number[][] {
+  const cells = named
+    .map(state => model.states.indexOf(state))
+    .filter(index => index >= 0)
+    .map(index => [index]);
+  const rest = model.states.map((_, s) => s).filter(s => !cells.some(cell => cell[0] === s));
+  if (rest.length > 0) {
+    cells.push(rest);
+  }
+  return cells;
+}
+
+/**
+ * Expected value of deciding after observing a signal about which cell the
+ * state falls in. The signal is correct with probability `accuracy` and
+ * otherwise points to one of the other cells uniformly.
+ */
+function valueWithSignal(model: StateModel, cells: number[][], accuracy: number): number {
+  const k = cells.length;
+  const cellOf = model.states.map((_, s) => cells.findIndex(cell => cell.includes(s)));
+  const likelihood = (signal: number, s: number) =>
+    k === 1 ? 1 : cellOf[s] === signal ? accuracy : (1 - accuracy) / (k - 1);
+
+  let total = 0;
+  for (let signal = 0; signal < k; signal++) {
+    // Unnormalized posterior over states; its sum is P(signal)
+    const joint = model.probabilities.map((probability, s) => probability * likelihood(signal, s));
+    const signalProbability = joint.reduce((sum, value) => sum + value, 0);
+    if (signalProbability === 0) continue;
+    total += bestExpectedValue(model, joint).value;
+  }
+  return total;
+}
+
+/**
+ * Expected value of perfect and sample information for each information gap
+ * @param options - Options being decided between
+ * @param outcomes - Possible outcomes; outcomes sharing a description are one state of nature
+ * @param gaps - Information gaps; `states` limits what the research reveals,
+ *   `sampleAccuracy` makes it imperfect and `cost` is weighed against its value
+ * @returns Value of information per gap, ranked by net value
+ */
+export function analyzeValueOfInformation(
+  options: DecisionOption[],
+  outcomes: PossibleOutcome[],
+  gaps: InformationGap[]
+): ValueOfInformationResult | undefined {
+  const warnings: string[] = [];
+  const model = buildStateModel(options, outcomes, warnings);
+  if (model.values.size === 0 || model.states.length === 0) {
+    return undefined;
+  }
+
+  const baseline = bestExpectedValue(model, model.probabilities);
+  const allStates = model.states.map((_, s) => [s]);
+  const evpi = valueWithSignal(model, allStates, 1) - baseline.value;
+
+  const valued = gaps.map(gap => {
+    const states = gap.states && gap.states.length > 0 ? gap.states : model.states;
+    const unknown = states.filter(state => !model.states.includes(state));
+    if (unknown.length > 0) {
+      warnings.push(`Information gap "${gap.description}" names unknown state(s): ${unknown.join(', ')}`);
+    }
+
+    const cells = partitionStates(model, states);
+    const gapEvpi = Math.max(0, valueWithSignal(model, cells, 1) - baseline.value);
+    const evsi = gap.sampleAccuracy !== undefined
+      ? Math.max(0, valueWithSignal(model, cells, gap.sampleAccuracy) - baseline.value)
+      : undefined;
+    const netValue = (evsi ?? gapEvpi) - (gap.cost ?? 0);
+
+    return {
+      description: gap.description,
+      researchMethod: gap.researchMethod,
+      impact: gap.impact,
+      states: states.filter(state => model.states.includes(state)),
+      evpi: gapEvpi,
+      ...(evsi !== undefined ? { evsi, sampleAccuracy: gap.sampleAccuracy } : {}),
+      ...(gap.cost !== undefined ? { cost: gap.cost } : {}),
+      netValue,
+      worthResearching: netValue > 0
+    };
+  });
+
+  const ranked = valued
+    .map((gap, index) => ({ gap, index }))
+    .sort((a, b) => b.gap.netValue - a.gap.netValue || a.index - b.index)
+    .map(({ gap }, index) => ({ ...gap, rank: index + 1 }));
+
+  return {
+    baselineOptionId: baseline.optionId,
+    baselineExpectedValue: baseline.value,
+    evpi: Math.max(0, evpi),
+    gaps: ranked,
+    warnings
+  };
+}
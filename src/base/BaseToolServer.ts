@@ -1,13 +1,30 @@
 import { z } from 'zod';
+import { ValidationError, SecurityError, ToolError, isToolError, toToolError } from '../errors/CustomErrors.js';
 
 /**
  * Tool registry entry type definition
  */
 export interface ToolRegistryEntry<TIn = unknown, TOut = unknown> {
   name: string;
-  schema: z.ZodSchema<TIn>;
+  schema: z.ZodType<TIn, z.ZodTypeDef, unknown>;
   server: BaseToolServer<TIn, TOut>;
   description?: string;
+  // Example inputs advertised under `examples` in the input schema
+  examples?: unknown[];
+}
+
+/**
+ * Largest tool input accepted, measured as serialized JSON; larger requests are rejected
+ * before validation so one call cannot tie up the process
+ */
+export const MAX_INPUT_BYTES = 1024 * 1024;
+
+/**
+ * Information about the MCP request a tool call arrived with
+ */
+export interface ToolCallContext {
+  // Transport session of the calling client; unset for stdio, which serves a single client
+  transportSessionId?: string;
 }
 
 /**
@@ -15,6 +32,8 @@ export interface ToolRegistryEntry<TIn = unknown, TOut = unknown> {
  */
 export interface MCPResponse {
   content: Array<{ type: string; text: string }>;
+  // Result object matching the tool's output schema, for servers that declare one
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -22,30 +41,17 @@ export interface MCPResponse {
  * Convert Zod schema to JSON schema for MCP tool definitions
  */
 function zodToJsonSchema(zodSchema: z.ZodSchema): Record<string, unknown> {
-  // Basic conversion for common Zod types
-  // This is a simplified implementation - could be enhanced with a library like zod-to-json-schema
-  
+  // Refinements and preprocessing don't change the JSON shape
+  if (zodSchema instanceof z.ZodEffects) {
+    return zodToJsonSchema(zodSchema.innerType());
+  }
+
+  if (zodSchema instanceof z.ZodDiscriminatedUnion) {
+    return discriminatedUnionToJsonSchema(zodSchema);
+  }
+
   if (zodSchema instanceof z.ZodObject) {
-    const shape = zodSchema._def.shape();
-    const properties: Record<string, unknown> = {};
-    const required: string[] = [];
-    
-    for (const [key, fieldSchema] of Object.entries(shape)) {
-      const field = fieldSchema as z.ZodSchema;
-      properties[key] = getFieldSchema(field);
-      
-      // Check if field is required (not optional)
-      if (!field.isOptional()) {
-        required.push(key);
-      }
-    }
-    
-    return {
-      type: "object",
-      properties,
-      required,
-      additionalProperties: false
-    };
+    return objectToJsonSchema(zodSchema);
   }
   
   // Fallback for non-object schemas
@@ -56,20 +62,133 @@ function zodToJsonSchema(zodSchema: z.ZodSchema): Record<string, unknown> {
   };
 }
 
+/**
+ * Convert a Zod object to JSON schema. Passthrough objects allow unknown keys
+ * and catchalls describe them. Strict objects reject them, and so does the
+ * advertised schema for Zod's default strip mode, even though the validator
+ * accepts and silently drops them: a client that sends an unknown key is
+ * almost always sending a misspelled field, and it should hear so up front
+ * instead of having the value ignored.
+ */
+function objectToJsonSchema(object: z.AnyZodObject): Record<string, unknown> {
+  const shape = object._def.shape();
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+  
+  for (const [key, fieldSchema] of Object.entries(shape)) {
+    const field = fieldSchema as z.ZodSchema;
+    properties[key] = getFieldSchema(field);
+    
+    // Check if field is required (not optional)
+    if (!field.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const catchall = object._def.catchall;
+  const additionalProperties = !(catchall instanceof z.ZodNever)
+    ? getFieldSchema(catchall)
+    : object._def.unknownKeys === "passthrough";
+  
+  return {
+    type: "object",
+    ...withDescription(object),
+    properties,
+    required,
+    additionalProperties
+  };
+}
+
+/**
+ * Convert a discriminated union of objects to JSON schema. The top level stays a
+ * plain object, since some clients reject tools whose input schema has a top-level
+ * `oneOf`: the discriminator becomes an enum, shared properties are kept as they
+ * are, and a property that differs per variant lists each variant's shape under
+ * `anyOf`, titled with the discriminator value it belongs to. The Zod union still
+ * does the real validation.
+ */
+function discriminatedUnionToJsonSchema(
+  union: z.ZodDiscriminatedUnion<string, z.ZodDiscriminatedUnionOption<string>[]>
+): Record<string, unknown> {
+  const variants = union.options.map(option => zodToJsonSchema(option) as {
+    properties: Record<string, Record<string, unknown>>;
+    required: string[];
+  });
+  const values = variants.map(variant => variant.properties[union.discriminator].const as string);
+
+  const keys = [...new Set(variants.flatMap(variant => Object.keys(variant.properties)))];
+  const properties: Record<string, unknown> = {};
+  for (const key of keys) {
+    const schemas = variants.map(variant => variant.properties[key]);
+    if (key === union.discriminator) {
+      properties[key] = {
+        type: "string",
+        enum: values,
+        ...(schemas[0].description ? { description: schemas[0].description } : {})
+      };
+    } else if (schemas.every(schema => JSON.stringify(schema) === JSON.stringify(schemas[0]))) {
+      properties[key] = schemas[0];
+    } else {
+      properties[key] = {
+        description: `Depends on ${union.discriminator}; use the entry titled with the chosen value`,
+        anyOf: schemas.flatMap((schema, index) => schema ? [{ title: `${union.discriminator}: ${values[index]}`, ...schema }] : [])
+      };
+    }
+  }
+
+  return {
+    type: "object",
+    ...withDescription(union),
+    properties,
+    required: keys.filter(key => variants.every(variant => variant.required.includes(key))),
+    additionalProperties: false
+  };
+}
+
+/**
+ * `description` keyword for schemas annotated with `.describe()`
+ */
+function withDescription(schema: z.ZodTypeAny): { description?: string } {
+  return schema.description ? { description: schema.description } : {};
+}
+
 /**
  * Get JSON schema for individual Zod field
  */
 function getFieldSchema(field: z.ZodSchema): Record<string, unknown> {
+  const schema = getFieldShape(field);
+  // Wrappers copy the description of the schema they wrap, so the outermost one wins
+  return field.description ? { ...schema, description: field.description } : schema;
+}
+
+function getFieldShape(field: z.ZodSchema): Record<string, unknown> {
   if (field instanceof z.ZodString) {
     const schema: Record<string, unknown> = { type: "string" };
-    if (field._def.checks) {
-      for (const check of field._def.checks) {
-        if (check.kind === "min") {
+    for (const check of field._def.checks) {
+      switch (check.kind) {
+        case "min":
           schema.minLength = check.value;
-        }
-        if (check.kind === "max") {
+          break;
+        case "max":
           schema.maxLength = check.value;
-        }
+          break;
+        case "length":
+          schema.minLength = check.value;
+          schema.maxLength = check.value;
+          break;
+        case "email":
+        case "uuid":
+          schema.format = check.kind;
+          break;
+        case "url":
+          schema.format = "uri";
+          break;
+        case "datetime":
+          schema.format = "date-time";
+          break;
+        case "regex":
+          schema.pattern = check.regex.source;
+          break;
       }
     }
     return schema;
@@ -77,17 +196,15 @@ function getFieldSchema(field: z.ZodSchema): Record<string, unknown> {
   
   if (field instanceof z.ZodNumber) {
     const schema: Record<string, unknown> = { type: "number" };
-    if (field._def.checks) {
-      for (const check of field._def.checks) {
-        if (check.kind === "min") {
-          schema.minimum = check.value;
-        }
-        if (check.kind === "max") {
-          schema.maximum = check.value;
-        }
-        if (check.kind === "int") {
-          schema.type = "integer";
-        }
+    for (const check of field._def.checks) {
+      if (check.kind === "min") {
+        schema[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      }
+      if (check.kind === "max") {
+        schema[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      if (check.kind === "int") {
+        schema.type = "integer";
       }
     }
     return schema;
@@ -96,21 +213,72 @@ function getFieldSchema(field: z.ZodSchema): Record<string, unknown> {
   if (field instanceof z.ZodBoolean) {
     return { type: "boolean" };
   }
+
+  if (field instanceof z.ZodNull) {
+    return { type: "null" };
+  }
   
   if (field instanceof z.ZodArray) {
-    return {
+    const schema: Record<string, unknown> = {
       type: "array",
       items: getFieldSchema(field._def.type)
     };
+    if (field._def.minLength) {
+      schema.minItems = field._def.minLength.value;
+    }
+    if (field._def.maxLength) {
+      schema.maxItems = field._def.maxLength.value;
+    }
+    if (field._def.exactLength) {
+      schema.minItems = field._def.exactLength.value;
+      schema.maxItems = field._def.exactLength.value;
+    }
+    return schema;
   }
   
   if (field instanceof z.ZodObject) {
-    return zodToJsonSchema(field);
+    return objectToJsonSchema(field);
+  }
+
+  if (field instanceof z.ZodRecord) {
+    const schema: Record<string, unknown> = {
+      type: "object",
+      additionalProperties: getFieldSchema(field._def.valueType)
+    };
+    const keys = getFieldShape(field._def.keyType);
+    if (keys.enum || keys.minLength !== undefined || keys.maxLength !== undefined || keys.pattern) {
+      schema.propertyNames = keys;
+    }
+    return schema;
   }
   
   if (field instanceof z.ZodOptional) {
     return getFieldSchema(field._def.innerType);
   }
+
+  if (field instanceof z.ZodNullable) {
+    return { anyOf: [getFieldSchema(field._def.innerType), { type: "null" }] };
+  }
+
+  if (field instanceof z.ZodDefault) {
+    return { ...getFieldSchema(field._def.innerType), default: field._def.defaultValue() };
+  }
+
+  if (field instanceof z.ZodEffects) {
+    return getFieldSchema(field.innerType());
+  }
+
+  if (field instanceof z.ZodDiscriminatedUnion) {
+    return discriminatedUnionToJsonSchema(field);
+  }
+
+  if (field instanceof z.ZodUnion) {
+    return { anyOf: (field._def.options as z.ZodTypeAny[]).map(option => getFieldSchema(option)) };
+  }
+
+  if (field instanceof z.ZodLiteral) {
+    return { type: typeof field._def.value, const: field._def.value };
+  }
   
   if (field instanceof z.ZodEnum) {
     return {
@@ -118,9 +286,43 @@ function getFieldSchema(field: z.ZodSchema): Record<string, unknown> {
       enum: field._def.values
     };
   }
+
+  if (field instanceof z.ZodNativeEnum) {
+    // Numeric TypeScript enums map values back to their names; keep only the values
+    const values = Object.entries(field._def.values as Record<string, string | number>)
+      .filter(([key]) => !/^\d+$/.test(key))
+      .map(([, value]) => value);
+    return { enum: values };
+  }
   
-  // Fallback for unknown types
-  return { type: "string" };
+  // Unknown, any and types JSON schema can't express accept any value
+  return {};
+}
+
+/**
+ * One failing field of a validation error
+ */
+export interface ValidationIssue {
+  // Dotted path to the field, empty for the input itself
+  path: string;
+  message: string;
+  code: string;
+  expected?: unknown;
+  received?: unknown;
+}
+
+function describeIssue(issue: z.ZodIssue): ValidationIssue {
+  const described: ValidationIssue = { path: issue.path.join('.'), message: issue.message, code: issue.code };
+  if (issue.code === z.ZodIssueCode.invalid_type || issue.code === z.ZodIssueCode.invalid_literal) {
+    described.expected = issue.expected;
+    described.received = issue.received;
+  } else if (issue.code === z.ZodIssueCode.invalid_enum_value) {
+    described.expected = issue.options;
+    described.received = issue.received;
+  } else if (issue.code === z.ZodIssueCode.invalid_union_discriminator) {
+    described.expected = issue.options;
+  }
+  return described;
 }
 
 /**
@@ -128,43 +330,53 @@ function getFieldSchema(field: z.ZodSchema): Record<string, unknown> {
  * Provides standardized validation, error handling, and response formatting
  */
 export abstract class BaseToolServer<TIn, TOut> {
-  protected schema: z.ZodSchema<TIn>;
+  protected schema: z.ZodType<TIn, z.ZodTypeDef, unknown>;
+  protected outputSchema?: z.ZodType<TOut, z.ZodTypeDef, unknown>;
 
   /**
    * Constructor that accepts a Zod schema for input validation
    * @param schema - Zod schema for validating input data
+   * @param outputSchema - Zod schema describing the result; when given, results
+   *   are also returned as `structuredContent`
    */
-  constructor(schema: z.ZodSchema<TIn>) {
+  constructor(schema: z.ZodType<TIn, z.ZodTypeDef, unknown>, outputSchema?: z.ZodType<TOut, z.ZodTypeDef, unknown>) {
     this.schema = schema;
+    this.outputSchema = outputSchema;
+  }
+
+  /**
+   * Schema of the results this server produces, advertised as the tool's outputSchema
+   * @returns Output schema, or undefined if the server does not declare one
+   */
+  public getOutputSchema(): z.ZodType<TOut, z.ZodTypeDef, unknown> | undefined {
+    return this.outputSchema;
   }
 
   /**
    * Validates input using the provided Zod schema
    * @param input - Raw input data to validate
    * @returns Validated and typed input data
-   * @throws Error if validation fails
+   * @throws ValidationError listing each failing field if validation fails
    */
   protected validate(input: unknown): TIn {
-    try {
-      return this.schema.parse(input);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        const errorMessages = error.errors.map(err =>
-          `${err.path.join('.')}: ${err.message}`
-        ).join(', ');
-        throw new Error(`Validation failed: ${errorMessages}`);
-      }
-      throw error;
+    const parsed = this.schema.safeParse(input);
+    if (parsed.success) {
+      return parsed.data;
     }
+
+    const issues = parsed.error.errors.map(describeIssue);
+    const errorMessages = issues.map(issue => `${issue.path}: ${issue.message}`).join(', ');
+    throw new ValidationError(`Validation failed: ${errorMessages}`, { issues });
   }
 
   /**
    * Abstract method to be implemented by concrete servers
    * Contains the core business logic for processing validated input
    * @param validInput - Validated input data
+   * @param context - Request the call arrived with
    * @returns Processed output data
    */
-  protected abstract handle(validInput: TIn): TOut;
+  protected abstract handle(validInput: TIn, context: ToolCallContext): TOut;
 
   /**
    * Standardized process method for unified server interface
@@ -174,41 +386,46 @@ export abstract class BaseToolServer<TIn, TOut> {
    * @returns Processed output data
    */
   public process(validInput: TIn): TOut {
-    return this.handle(validInput);
+    return this.handle(validInput, {});
   }
 
   /**
    * Main entry point that wraps validation, processing, and error handling
    * Provides standardized {content, isError} envelope response
    * @param rawInput - Raw input data from MCP request
+   * @param context - Request the call arrived with
    * @returns Standardized MCP response
+   * @throws SecurityError if the input exceeds MAX_INPUT_BYTES or processing rejects the request outright
    */
-  public run(rawInput: unknown): MCPResponse {
+  public run(rawInput: unknown, context: ToolCallContext = {}): MCPResponse {
     try {
+      const inputBytes = Buffer.byteLength(JSON.stringify(rawInput) ?? '');
+      if (inputBytes > MAX_INPUT_BYTES) {
+        throw new SecurityError(`Input of ${inputBytes} bytes exceeds the limit of ${MAX_INPUT_BYTES} bytes`, 'medium');
+      }
+
       // Validate input using schema
       const validatedInput = this.validate(rawInput);
 
       // Process with concrete implementation
-      const result = this.handle(validatedInput);
+      const result = this.handle(validatedInput, context);
 
       // Format successful response
       return {
         content: [{
           type: "text",
           text: JSON.stringify(result, null, 2)
-        }]
+        }],
+        ...(this.outputSchema ? { structuredContent: result as Record<string, unknown> } : {})
       };
     } catch (error) {
-      // Format error response
+      // Rejected requests are not tool results; let the transport report them
+      if (error instanceof SecurityError) {
+        throw error;
+      }
+
       return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            error: error instanceof Error ? error.message : String(error),
-            status: 'failed',
-            timestamp: new Date().toISOString()
-          }, null, 2)
-        }],
+        content: this.formatError(toToolError(error)),
         isError: true
       };
     }
@@ -228,14 +445,18 @@ export abstract class BaseToolServer<TIn, TOut> {
 
   /**
    * Optional method for servers that need custom error formatting
+   * Tool errors contribute their code and structured fields (details,
+   * sessionId, context) next to the message
    * @param error - Error that occurred during processing
    * @returns Formatted error response content
    */
-  protected formatError(error: Error): Array<{ type: string; text: string }> {
+  protected formatError(error: Error | ToolError): Array<{ type: string; text: string }> {
+    const { message, name: _name, ...fields } = isToolError(error) ? error.toJSON() : { message: error.message, name: error.name };
     return [{
       type: "text",
       text: JSON.stringify({
-        error: error.message,
+        error: message,
+        ...fields,
         status: 'failed',
         timestamp: new Date().toISOString()
       }, null, 2)
@@ -282,11 +503,19 @@ export class ToolRegistry {
     name: string;
     description: string;
     inputSchema: Record<string, unknown>;
+    outputSchema?: Record<string, unknown>;
   }> {
-    return this.tools.map(tool => ({
-      name: tool.name,
-      description: tool.description || `Tool for ${tool.name} operations`,
-      inputSchema: zodToJsonSchema(tool.schema)
-    }));
+    return this.tools.map(tool => {
+      const outputSchema = tool.server.getOutputSchema();
+      return {
+        name: tool.name,
+        description: tool.description || `Tool for ${tool.name} operations`,
+        inputSchema: {
+          ...zodToJsonSchema(tool.schema),
+          ...(tool.examples?.length ? { examples: tool.examples } : {})
+        },
+        ...(outputSchema ? { outputSchema: zodToJsonSchema(outputSchema) } : {})
+      };
+    });
   }
 }
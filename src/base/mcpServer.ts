@@ -0,0 +1,145 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+} from "@modelcontextprotocol/sdk/types.js";
+import { getToolDefinitions, processToolRequest } from './toolRegistry.js';
+import { getPromptDefinitions, getPrompt } from '../prompts/promptCatalogue.js';
+import { listResources, getResourceTemplates, readResource, parseResourceUri, resourceUri } from '../resources/sessionResources.js';
+import { ValidationError, SecurityError, StateError, isToolError } from '../errors/CustomErrors.js';
+import { SessionManager, sessionManager } from '../services/SessionManager.js';
+
+/**
+ * Server identity advertised to MCP clients
+ */
+export const SERVER_INFO = {
+  name: "thinking-patterns-server",
+  version: "1.0.0",
+};
+
+/**
+ * Map an error that escaped tool processing to a JSON-RPC error
+ * Unknown tools and invalid arguments are InvalidParams, rejected or
+ * out-of-state requests are InvalidRequest, anything else is InternalError.
+ * Tool errors pass their structured fields along as `data`.
+ * @param error - Thrown value
+ * @returns MCP error to send to the client
+ */
+export function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (!isToolError(error)) {
+    return new McpError(ErrorCode.InternalError, error instanceof Error ? error.message : String(error));
+  }
+
+  const code = error instanceof ValidationError ? ErrorCode.InvalidParams
+    : error instanceof SecurityError || error instanceof StateError ? ErrorCode.InvalidRequest
+      : ErrorCode.InternalError;
+  return new McpError(code, error.message, error.toJSON());
+}
+
+/**
+ * Create an MCP server wired to the tool registry, the prompt catalogue and
+ * the session store's resources
+ * Each transport connection needs its own Server instance; all instances
+ * share the registry and the session store, so state is kept across them
+ * @param store - Session store exposed as resources (defaults to the shared instance)
+ * @returns Configured MCP server ready to be connected to a transport
+ */
+export function createMcpServer(store: SessionManager = sessionManager): Server {
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      tools: {},
+      prompts: {},
+      resources: { subscribe: true, listChanged: true },
+    },
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    // Get all tools from the registry
+    const tools = getToolDefinitions();
+
+    return {
+      tools: tools
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    try {
+      // Use the registry for all tool processing; tool failures come back as isError results
+      return processToolRequest(request.params.name, request.params.arguments, { transportSessionId: extra.sessionId });
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: getPromptDefinitions()
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    try {
+      return getPrompt(request.params.name, request.params.arguments);
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listResources(store)
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: getResourceTemplates()
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    try {
+      return readResource(store, request.params.uri);
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  // URIs this connection subscribed to; the resource need not exist yet
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    try {
+      parseResourceUri(request.params.uri);
+    } catch (error) {
+      throw toMcpError(error);
+    }
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Notifications are best effort: the client may not be connected yet or any more
+  const stopWatching = store.onChange(change => {
+    const uri = resourceUri(change.kind, change.id);
+    if (subscriptions.has(uri)) {
+      server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+    if (change.change !== 'updated') {
+      server.sendResourceListChanged().catch(() => undefined);
+    }
+  });
+  server.onclose = stopWatching;
+
+  return server;
+}
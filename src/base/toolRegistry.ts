@@ -1,15 +1,26 @@
-import { ToolRegistry } from './BaseToolServer.js';
+import { ToolRegistry, ToolCallContext } from './BaseToolServer.js';
+import { ValidationError } from '../errors/CustomErrors.js';
 import {
   SequentialThoughtSchema,
+  SequentialThoughtExamples,
   MentalModelSchema,
+  MentalModelExamples,
   DebuggingApproachSchema,
+  DebuggingApproachExamples,
   StochasticAlgorithmSchema,
+  StochasticAlgorithmExamples,
   CollaborativeReasoningSchema,
+  CollaborativeReasoningExamples,
   DecisionFrameworkSchema,
+  DecisionFrameworkExamples,
   MetacognitiveMonitoringSchema,
+  MetacognitiveMonitoringExamples,
   ScientificMethodSchema,
+  ScientificMethodExamples,
   StructuredArgumentationSchema,
-  VisualReasoningSchema
+  StructuredArgumentationExamples,
+  VisualReasoningSchema,
+  VisualReasoningExamples
 } from '../schemas/index.js';
 
 // Import all the clear-thought tool servers
@@ -32,6 +43,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "sequential_thinking",
     schema: SequentialThoughtSchema,
+    examples: SequentialThoughtExamples,
     server: new SequentialThinkingServer(),
     description: "A detailed tool for dynamic and reflective problem-solving through thoughts. This tool helps analyze problems through a flexible thinking process that can adapt and evolve."
   });
@@ -40,6 +52,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "mental_model",
     schema: MentalModelSchema,
+    examples: MentalModelExamples,
     server: new MentalModelServer(),
     description: "Tool for creating and analyzing mental models to understand complex problems and systems."
   });
@@ -48,6 +61,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "debugging_approach",
     schema: DebuggingApproachSchema,
+    examples: DebuggingApproachExamples,
     server: new DebuggingApproachServer(),
     description: "Systematic debugging methodologies for troubleshooting and problem resolution."
   });
@@ -56,6 +70,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "stochastic_algorithm",
     schema: StochasticAlgorithmSchema,
+    examples: StochasticAlgorithmExamples,
     server: new StochasticAlgorithmServer(),
     description: "Probabilistic algorithms for decision-making under uncertainty, including MDPs, MCTS, and Bayesian optimization."
   });
@@ -64,6 +79,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "collaborative_reasoning",
     schema: CollaborativeReasoningSchema,
+    examples: CollaborativeReasoningExamples,
     server: new CollaborativeReasoningServer(),
     description: "Multi-perspective collaborative problem solving with diverse personas and structured contributions."
   });
@@ -72,6 +88,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "decision_framework",
     schema: DecisionFrameworkSchema,
+    examples: DecisionFrameworkExamples,
     server: new DecisionFrameworkServer(),
     description: "Structured decision analysis and rational choice frameworks for complex decisions."
   });
@@ -80,6 +97,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "metacognitive_monitoring",
     schema: MetacognitiveMonitoringSchema,
+    examples: MetacognitiveMonitoringExamples,
     server: new MetacognitiveMonitoringServer(),
     description: "Self-assessment of knowledge and reasoning quality for improved metacognition."
   });
@@ -88,6 +106,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "scientific_method",
     schema: ScientificMethodSchema,
+    examples: ScientificMethodExamples,
     server: new ScientificMethodServer(),
     description: "Formal hypothesis testing and experimentation following the scientific method."
   });
@@ -96,6 +115,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "structured_argumentation",
     schema: StructuredArgumentationSchema,
+    examples: StructuredArgumentationExamples,
     server: new StructuredArgumentationServer(),
     description: "Dialectical reasoning and argument analysis for structured debates and logical reasoning."
   });
@@ -104,6 +124,7 @@ export function initializeToolRegistry(): void {
   ToolRegistry.register({
     name: "visual_reasoning",
     schema: VisualReasoningSchema,
+    examples: VisualReasoningExamples,
     server: new VisualReasoningServer(),
     description: "Diagram-based thinking and problem solving with visual elements and transformations."
   });
@@ -116,32 +137,30 @@ export function getToolDefinitions(): Array<{
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
 }> {
   return ToolRegistry.getToolDefinitions();
 }
 
 /**
  * Process tool request using registry
+ * @throws ValidationError if no tool is registered under `toolName`
+ * @throws SecurityError if the tool rejects the input outright
  */
-export function processToolRequest(toolName: string, arguments_: unknown): {
+export function processToolRequest(toolName: string, arguments_: unknown, context: ToolCallContext = {}): {
   content: Array<{ type: string; text: string }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 } {
   const tool = ToolRegistry.findTool(toolName);
 
   if (!tool) {
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          error: `Unknown tool: ${toolName}`,
-          status: 'failed',
-          timestamp: new Date().toISOString()
-        }, null, 2)
-      }],
-      isError: true
-    };
+    const availableTools = ToolRegistry.getAllTools().map(entry => entry.name);
+    throw new ValidationError(`Unknown tool: ${toolName}. Available tools: ${availableTools.join(', ')}`, {
+      field: 'name',
+      availableTools
+    });
   }
 
-  return tool.server.run(arguments_);
+  return tool.server.run(arguments_, context);
 }
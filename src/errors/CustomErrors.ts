@@ -82,6 +82,30 @@ export class ProcessingError extends Error {
   }
 }
 
+/**
+ * Errors that tool servers throw deliberately
+ */
+export type ToolError = ValidationError | StateError | SecurityError | ProcessingError;
+
+export function isToolError(error: unknown): error is ToolError {
+  return error instanceof ValidationError ||
+    error instanceof StateError ||
+    error instanceof SecurityError ||
+    error instanceof ProcessingError;
+}
+
+/**
+ * Wrap anything thrown during tool processing so it carries a code
+ * @param error - Thrown value
+ * @returns The error itself if it is a tool error, else a ProcessingError with its message
+ */
+export function toToolError(error: unknown): ToolError {
+  if (isToolError(error)) {
+    return error;
+  }
+  return new ProcessingError(error instanceof Error ? error.message : String(error));
+}
+
 export interface ErrorResponse {
   code: string;
   message: string;
@@ -30,10 +30,19 @@ export interface PossibleOutcome {
   confidenceInEstimate: number; // 0.0-1.0
 }
 
+export interface PairwiseComparison {
+  criterionA: string;
+  criterionB: string;
+  preference: number; // Saaty scale 1/9-9: how strongly A is preferred over B
+}
+
 export interface InformationGap {
   description: string;
   impact: number; // 0.0-1.0
   researchMethod: string;
+  states?: string[]; // Outcome descriptions the research would reveal; all states if omitted
+  sampleAccuracy?: number; // 0.0-1.0, probability the research reports the true state
+  cost?: number; // Cost of the research in outcome value units
 }
 
 export interface DecisionFrameworkData {
@@ -53,6 +62,9 @@ export interface DecisionFrameworkData {
   sensitivityInsights?: string[];
   expectedValues?: Record<string, number>;
   multiCriteriaScores?: Record<string, number>;
+  multiCriteriaMethod?: "weighted-sum" | "topsis" | "ahp";
+  pairwiseComparisons?: PairwiseComparison[];
+  aspirationLevel?: number; // Minimum acceptable worst-case value for satisficing
   decisionId: string;
   iteration: number;
   suggestedNextStage?: string;
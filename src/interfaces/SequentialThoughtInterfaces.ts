@@ -37,6 +37,7 @@ export interface SequentialThoughtData {
     usedAt: string;
     effectivenessScore?: number;
   }[];
+  sessionId?: string;
 }
 
 export interface ToolContext {
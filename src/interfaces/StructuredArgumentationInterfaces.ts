@@ -1,10 +1,19 @@
 // Structured Argumentation Data Interfaces
 
+export interface ToulminStructure {
+  data?: string[];
+  warrant?: string;
+  backing?: string;
+  qualifier?: string;
+  rebuttal?: string;
+}
+
 export interface ArgumentData {
   claim: string;
   premises: string[];
   conclusion: string;
   argumentId?: string;
+  debateId?: string;
   argumentType: "thesis" | "antithesis" | "synthesis" | "objection" | "rebuttal";
   confidence: number; // 0.0-1.0
   respondsTo?: string;
@@ -12,6 +21,6 @@ export interface ArgumentData {
   contradicts?: string[];
   strengths?: string[];
   weaknesses?: string[];
+  toulmin?: ToulminStructure;
   nextArgumentNeeded: boolean;
-  suggestedNextTypes?: ("thesis" | "antithesis" | "synthesis" | "objection" | "rebuttal")[];
 }
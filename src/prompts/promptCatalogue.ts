@@ -0,0 +1,288 @@
+import { ValidationError } from '../errors/CustomErrors.js';
+
+/**
+ * Argument a prompt accepts; MCP prompt arguments are always strings
+ */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+/**
+ * Prompt that walks the model through one thinking tool: the user states the
+ * task, the assistant lays out the steps, and the user asks it to start
+ */
+interface PromptDefinition {
+  name: string;
+  description: string;
+  // Tool the walkthrough drives
+  tool: string;
+  arguments: PromptArgument[];
+  intro: (args: Record<string, string>) => string;
+  steps: (args: Record<string, string>) => string[];
+}
+
+/**
+ * Split a comma-separated argument into trimmed, non-empty entries
+ */
+function list(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+}
+
+const DESIGN_REVIEW_PERSONAS = [
+  'architect (structure, coupling, evolution)',
+  'security (threats, trust boundaries, data exposure)',
+  'operations (deployment, observability, failure recovery)',
+  'user_advocate (usability, accessibility, user impact)',
+  'skeptic (hidden assumptions, cost, simpler alternatives)'
+];
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'pre_mortem',
+    description: 'Assume a decision has already failed, work out why, and weigh the options against those failures with decision_framework',
+    tool: 'decision_framework',
+    arguments: [
+      { name: 'decision', description: 'The decision to be made', required: true },
+      { name: 'options', description: 'Comma-separated options under consideration', required: false },
+      { name: 'horizon', description: 'When the failure is imagined, e.g. "six months"', required: false }
+    ],
+    intro: args => [
+      `Run a pre-mortem on this decision: ${args.decision}`,
+      list(args.options).length > 0 ? `Options: ${list(args.options).join('; ')}` : 'Identify the realistic options first.',
+      `Imagine it is ${args.horizon ?? 'one year'} from now and the decision turned out badly.`
+    ].join('\n'),
+    steps: () => [
+      'Call decision_framework with stage "problem-definition", the decisionStatement and the options.',
+      'For each option, write the most plausible stories of how it failed and record them as possibleOutcomes with a probability, a value (negative for losses) and confidenceInEstimate; include the outcome where it succeeds.',
+      'Call decision_framework with stage "evaluation" and analysisType "expected-utility" to rank the options with the failures priced in.',
+      'Call it again with analysisType "maximin" to find the option whose worst failure is least bad, and compare the two rankings.',
+      'Record the unknowns behind the costliest failures as informationGaps with impact and researchMethod, and check which are worth resolving before deciding.',
+      'Finish with stage "recommendation": recommend an option and list mitigations for its top failure modes.'
+    ]
+  },
+  {
+    name: 'binary_search_debugging',
+    description: 'Narrow down the cause of a regression by halving the search space with debugging_approach',
+    tool: 'debugging_approach',
+    arguments: [
+      { name: 'issue', description: 'The bug or regression being investigated', required: true },
+      { name: 'known_good', description: 'Last version, commit, input or configuration known to work', required: false },
+      { name: 'known_bad', description: 'First version, commit, input or configuration known to fail', required: false }
+    ],
+    intro: args => [
+      `Debug this issue with a binary search: ${args.issue}`,
+      `Known good: ${args.known_good ?? 'not yet established'}`,
+      `Known bad: ${args.known_bad ?? 'not yet established'}`
+    ].join('\n'),
+    steps: () => [
+      'Establish a reliable reproduction and confirm one known-good and one known-bad point, so the search has two ends.',
+      'Call debugging_approach with approachName "binary_search", the issue, and the boundaries as the first steps.',
+      'Pick the midpoint between the ends (commits, config changes, input size or code path), test it, and move the good or bad end to it; add each test and its result to steps and call debugging_approach again.',
+      'Stop when the ends are adjacent; write down the single change between them as findings.',
+      'Explain why that change causes the issue, propose the fix as resolution, and call debugging_approach a final time.'
+    ]
+  },
+  {
+    name: 'design_review',
+    description: 'Review a design from five expert personas in turn with collaborative_reasoning',
+    tool: 'collaborative_reasoning',
+    arguments: [
+      { name: 'design', description: 'The design, proposal or change to review', required: true },
+      { name: 'context', description: 'Constraints, goals or background the reviewers should know', required: false }
+    ],
+    intro: args => [
+      `Hold a design review of: ${args.design}`,
+      ...(args.context ? [`Context: ${args.context}`] : []),
+      `The reviewers are five personas: ${DESIGN_REVIEW_PERSONAS.join('; ')}.`
+    ].join('\n'),
+    steps: () => [
+      'Call collaborative_reasoning with stage "problem-definition", iteration 1, a new sessionId and the five personas, each with expertise, background, perspective, biases and communication style.',
+      'Move to stage "critique": let each persona in turn add a concern, question or challenge as a contribution, with activePersonaId set to the speaker and nextPersonaId to the next reviewer; call the tool after each contribution.',
+      'Record the points the personas disagree on as disagreements with each persona\'s position and arguments.',
+      'Move to stage "integration": add synthesis contributions that resolve or table each disagreement, and collect consensusPoints and keyInsights.',
+      'Finish with stage "decision": give a finalRecommendation (approve, approve with changes, or rework) with the required changes, and list openQuestions.'
+    ]
+  },
+  {
+    name: 'step_by_step',
+    description: 'Break a problem into numbered thoughts, revising and branching where needed, with sequential_thinking',
+    tool: 'sequential_thinking',
+    arguments: [
+      { name: 'problem', description: 'The problem to think through', required: true },
+      { name: 'estimated_thoughts', description: 'Initial estimate of how many thoughts are needed', required: false }
+    ],
+    intro: args => `Think through this problem one step at a time: ${args.problem}`,
+    steps: args => [
+      `Call sequential_thinking with thoughtNumber 1, totalThoughts ${args.estimated_thoughts ?? 'your best estimate'} and a sessionId, stating what is being asked and what a good answer looks like.`,
+      'Add one thought per call, each building on the last; raise or lower totalThoughts as the picture changes.',
+      'When a thought turns out wrong, add a revision with isRevision and revisesThought instead of carrying on.',
+      'When two approaches are both promising, explore one as a branch with branchFromThought and branchId.',
+      'Set nextThoughtNeeded to false only once the final thought answers the problem.'
+    ]
+  },
+  {
+    name: 'mental_model_analysis',
+    description: 'Apply a named mental model to a problem with mental_model',
+    tool: 'mental_model',
+    arguments: [
+      { name: 'problem', description: 'The problem to analyze', required: true },
+      { name: 'model', description: 'Mental model to apply, e.g. first_principles, opportunity_cost, pareto_principle or occams_razor', required: false }
+    ],
+    intro: args => `Analyze this problem with the ${args.model ?? 'first_principles'} mental model: ${args.problem}`,
+    steps: args => [
+      `Explain briefly what ${args.model ?? 'first_principles'} asks you to look for in this problem.`,
+      'Apply the model step by step to the specifics of the problem, recording each step.',
+      'Reason from those steps to what they imply, and state a conclusion.',
+      `Call mental_model with modelName "${args.model ?? 'first_principles'}", the problem, the steps, the reasoning and the conclusion.`
+    ]
+  },
+  {
+    name: 'explore_exploit',
+    description: 'Decide which option to try next from observed results with a multi-armed bandit in stochastic_algorithm',
+    tool: 'stochastic_algorithm',
+    arguments: [
+      { name: 'decision', description: 'What is being chosen repeatedly, e.g. which headline to show', required: true },
+      { name: 'options', description: 'Comma-separated options (bandit arms)', required: true }
+    ],
+    intro: args => [
+      `Decide what to try next for: ${args.decision}`,
+      `Options: ${list(args.options).join('; ')}`
+    ].join('\n'),
+    steps: args => [
+      `Gather for each option (${list(args.options).join(', ')}) how often it was tried and its total reward; ask for the numbers if they are missing.`,
+      'Call stochastic_algorithm with algorithm "bandit" and an arm per option with its history of pulls and totalReward, using policy "thompson" and a fixed seed.',
+      'Read each arm\'s posterior mean, credible interval and probability of being best from the solution.',
+      'Recommend the arm to try next, and say whether the evidence is strong enough to stop exploring.'
+    ]
+  },
+  {
+    name: 'confidence_check',
+    description: 'Audit what is known, which claims are supported and where reasoning may be biased with metacognitive_monitoring',
+    tool: 'metacognitive_monitoring',
+    arguments: [
+      { name: 'task', description: 'The task or answer whose reasoning should be checked', required: true }
+    ],
+    intro: args => `Check how far to trust the reasoning behind: ${args.task}`,
+    steps: () => [
+      'Call metacognitive_monitoring with stage "knowledge-assessment", a monitoringId and iteration 1, rating your knowledge of the domain and its known limitations.',
+      'List the key claims and record each with its status (fact, inference, speculation or uncertain), evidenceBasis and what would falsify it.',
+      'Assess the main reasoning steps for potentialBiases, assumptions, logicalValidity and inferenceStrength.',
+      'Finish with stage "evaluation": set overallConfidence, the uncertaintyAreas and a recommendedApproach for closing the biggest gaps.'
+    ]
+  },
+  {
+    name: 'hypothesis_test',
+    description: 'Go from an observation to a tested conclusion with scientific_method',
+    tool: 'scientific_method',
+    arguments: [
+      { name: 'observation', description: 'What was observed', required: true },
+      { name: 'question', description: 'The question to answer about it', required: false }
+    ],
+    intro: args => [
+      `Investigate this observation: ${args.observation}`,
+      ...(args.question ? [`Question: ${args.question}`] : [])
+    ].join('\n'),
+    steps: () => [
+      'Call scientific_method with stage "observation", a new inquiryId and iteration 1, then with stage "question" and a focused research question.',
+      'Propose a testable hypothesis with its variables and assumptions, and note at least one alternative hypothesis.',
+      'Design an experiment with if/then predictions that would tell the hypotheses apart, plus control measures.',
+      'Record the results and whether they matched the predictions in stage "analysis".',
+      'State the conclusion, including which hypothesis is supported or refuted and what to test next.'
+    ]
+  },
+  {
+    name: 'dialectic_debate',
+    description: 'Test a claim through thesis, antithesis and synthesis with structured_argumentation',
+    tool: 'structured_argumentation',
+    arguments: [
+      { name: 'claim', description: 'The claim or position to debate', required: true }
+    ],
+    intro: args => `Debate this claim rigorously: ${args.claim}`,
+    steps: () => [
+      'Call structured_argumentation with argumentType "thesis", a debateId, an argumentId, the premises that support the claim and a conclusion.',
+      'Give the strongest antithesis with respondsTo set to the thesis, and raise objections to the weakest premises.',
+      'Answer each objection with a rebuttal, or concede it by noting it among the weaknesses; argumentGraph shows which claims still stand.',
+      'Close with a synthesis that keeps what survived and states how confident the conclusion deserves to be.'
+    ]
+  },
+  {
+    name: 'diagram_system',
+    description: 'Map a system as a diagram and reason about its structure with visual_reasoning',
+    tool: 'visual_reasoning',
+    arguments: [
+      { name: 'system', description: 'The system, process or concept to map', required: true },
+      { name: 'diagram_type', description: 'graph, flowchart, stateDiagram, conceptMap or treeDiagram', required: false }
+    ],
+    intro: args => `Draw and analyze a ${args.diagram_type ?? 'graph'} of: ${args.system}`,
+    steps: args => [
+      `Call visual_reasoning with operation "create", a diagramId, diagramType "${args.diagram_type ?? 'graph'}" and iteration 1, adding the main components as nodes.`,
+      'Add edges for the relationships between components, and containers for groups that belong together.',
+      'Call it with operation "observe" and note what stands out: bottlenecks, cycles, isolated parts or missing links.',
+      'Update or transform the diagram to test an idea, then record the insight and any hypothesis it suggests.'
+    ]
+  }
+];
+
+/**
+ * Prompt metadata for prompts/list
+ */
+export function getPromptDefinitions(): Array<{
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}> {
+  return PROMPTS.map(({ name, description, arguments: promptArguments }) => ({
+    name,
+    description,
+    arguments: promptArguments
+  }));
+}
+
+/**
+ * Build the message sequence for a prompt
+ * @param name - Prompt name
+ * @param args - Prompt arguments by name
+ * @returns Description and messages for prompts/get
+ * @throws ValidationError if the prompt is unknown or a required argument is missing
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): {
+  description: string;
+  messages: PromptMessage[];
+} {
+  const prompt = PROMPTS.find(entry => entry.name === name);
+  if (!prompt) {
+    const availablePrompts = PROMPTS.map(entry => entry.name);
+    throw new ValidationError(`Unknown prompt: ${name}. Available prompts: ${availablePrompts.join(', ')}`, {
+      field: 'name',
+      availablePrompts
+    });
+  }
+
+  const missing = prompt.arguments
+    .filter(argument => argument.required && !args[argument.name]?.trim())
+    .map(argument => argument.name);
+  if (missing.length > 0) {
+    throw new ValidationError(`Prompt ${name} is missing required arguments: ${missing.join(', ')}`, {
+      field: 'arguments',
+      missing
+    });
+  }
+
+  const text = (role: PromptMessage['role'], value: string): PromptMessage => ({ role, content: { type: 'text', text: value } });
+  const steps = prompt.steps(args);
+  return {
+    description: prompt.description,
+    messages: [
+      text('user', prompt.intro(args)),
+      text('assistant', `I'll work through this with the ${prompt.tool} tool:\n${steps.map((step, index) => `${index + 1}. ${step}`).join('\n')}`),
+      text('user', `Go ahead. Start with step 1 and call ${prompt.tool} at each step, carrying its results into the next.`)
+    ]
+  };
+}
@@ -0,0 +1,115 @@
+import { ValidationError } from '../errors/CustomErrors.js';
+import { SessionManager, RecordKind, StoreChange } from '../services/SessionManager.js';
+
+export const RESOURCE_MIME_TYPE = 'application/json';
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * URI path segment for each kind of stored reasoning
+ */
+const COLLECTIONS: Record<StoreChange['kind'], string> = {
+  session: 'sessions',
+  decision: 'decisions',
+  diagram: 'diagrams',
+  inquiry: 'inquiries',
+  debate: 'debates'
+};
+
+const TEMPLATES: Array<{ kind: StoreChange['kind']; variable: string; name: string; description: string }> = [
+  { kind: 'session', variable: 'id', name: 'Thinking session', description: 'Thought history and branches recorded by sequential_thinking' },
+  { kind: 'decision', variable: 'decisionId', name: 'Decision', description: 'Every decision_framework iteration for a decision, with its analysis' },
+  { kind: 'diagram', variable: 'diagramId', name: 'Diagram', description: 'Every visual_reasoning operation applied to a diagram' },
+  { kind: 'inquiry', variable: 'inquiryId', name: 'Inquiry', description: 'Every scientific_method stage of an inquiry' },
+  { kind: 'debate', variable: 'debateId', name: 'Debate', description: 'Every structured_argumentation argument in a debate, with which claims stand' }
+];
+
+const RECORD_KINDS: RecordKind[] = ['decision', 'diagram', 'inquiry', 'debate'];
+
+/**
+ * URI of a stored session or record, e.g. thinking://decisions/cloud-migration
+ */
+export function resourceUri(kind: StoreChange['kind'], id: string): string {
+  return `thinking://${COLLECTIONS[kind]}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Split a thinking:// URI into the kind and id it names
+ * @throws ValidationError if the URI is not a thinking:// resource URI
+ */
+export function parseResourceUri(uri: string): { kind: StoreChange['kind']; id: string } {
+  const match = /^thinking:\/\/([a-z]+)\/([^/]+)$/.exec(uri);
+  const kind = match && (Object.keys(COLLECTIONS) as Array<StoreChange['kind']>).find(key => COLLECTIONS[key] === match[1]);
+  if (!match || !kind) {
+    throw new ValidationError(`Invalid resource URI: ${uri}`, {
+      field: 'uri',
+      expected: TEMPLATES.map(template => `thinking://${COLLECTIONS[template.kind]}/{${template.variable}}`)
+    });
+  }
+  return { kind, id: decodeURIComponent(match[2]) };
+}
+
+/**
+ * URI templates for resources/templates/list
+ */
+export function getResourceTemplates(): Array<{ uriTemplate: string; name: string; description: string; mimeType: string }> {
+  return TEMPLATES.map(template => ({
+    uriTemplate: `thinking://${COLLECTIONS[template.kind]}/{${template.variable}}`,
+    name: template.name,
+    description: template.description,
+    mimeType: RESOURCE_MIME_TYPE
+  }));
+}
+
+/**
+ * Every stored session and record, for resources/list
+ */
+export function listResources(store: SessionManager): ResourceDescriptor[] {
+  return [
+    ...store.listSessionIds().map(sessionId => ({
+      uri: resourceUri('session', sessionId),
+      name: `Thinking session ${sessionId}`,
+      mimeType: RESOURCE_MIME_TYPE
+    })),
+    ...RECORD_KINDS.flatMap(kind => store.listRecords(kind).map(record => ({
+      uri: resourceUri(kind, record.id),
+      name: `${TEMPLATES.find(template => template.kind === kind)!.name} ${record.id}`,
+      description: `${record.entries.length} tool call${record.entries.length === 1 ? '' : 's'}`,
+      mimeType: RESOURCE_MIME_TYPE
+    })))
+  ];
+}
+
+/**
+ * Read a stored session or record as JSON, for resources/read
+ * @throws ValidationError if the URI is invalid or nothing is stored under it
+ */
+export function readResource(store: SessionManager, uri: string): {
+  contents: Array<{ uri: string; mimeType: string; text: string }>;
+} {
+  const { kind, id } = parseResourceUri(uri);
+
+  let body: unknown;
+  if (kind === 'session') {
+    const session = store.getSession(id);
+    body = session && { sessionId: id, ...session };
+  } else {
+    const record = store.getRecord(kind, id);
+    if (record) {
+      const { kind: _kind, id: _id, ...contents } = record;
+      body = { [`${kind}Id`]: id, ...contents };
+    }
+  }
+  if (!body) {
+    throw new ValidationError(`Resource not found: ${uri}`, { field: 'uri', uri });
+  }
+
+  return {
+    contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: JSON.stringify(body, null, 2) }]
+  };
+}
@@ -1,64 +1,119 @@
 import { z } from 'zod';
+import { ToolResultSchema } from './ToolSchemas.js';
 
 // Collaborative Reasoning Schema
 export const PersonaSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  expertise: z.array(z.string()),
-  background: z.string(),
-  perspective: z.string(),
-  biases: z.array(z.string()),
+  id: z.string().describe("Identifier contributions refer to"),
+  name: z.string().describe("Display name of the persona"),
+  expertise: z.array(z.string()).describe("Areas the persona knows well"),
+  background: z.string().describe("Experience that shapes the persona's views"),
+  perspective: z.string().describe("Viewpoint the persona brings to the topic"),
+  biases: z.array(z.string()).describe("Known biases to watch for in the persona's contributions"),
   communication: z.object({
-    style: z.string(),
-    tone: z.string()
-  })
+    style: z.string().describe("How the persona communicates, e.g. \"analytical\""),
+    tone: z.string().describe("Tone of the persona, e.g. \"measured\"")
+  }).describe("How the persona expresses itself")
 });
 
 export const ContributionSchema = z.object({
-  personaId: z.string(),
-  content: z.string(),
-  type: z.enum(["observation", "question", "insight", "concern", "suggestion", "challenge", "synthesis"]),
-  confidence: z.number().min(0).max(1),
-  referenceIds: z.array(z.string()).optional()
+  personaId: z.string().describe("Id of the persona making the contribution"),
+  content: z.string().describe("What the persona says"),
+  type: z.enum(["observation", "question", "insight", "concern", "suggestion", "challenge", "synthesis"]).describe("Kind of contribution"),
+  confidence: z.number().min(0).max(1).describe("Persona's confidence in the contribution, from 0 to 1"),
+  referenceIds: z.array(z.string()).optional().describe("Ids of earlier contributions this one builds on")
 });
 
 export const DisagreementPositionSchema = z.object({
-  personaId: z.string(),
-  position: z.string(),
-  arguments: z.array(z.string())
+  personaId: z.string().describe("Id of the persona holding the position"),
+  position: z.string().describe("The position taken"),
+  arguments: z.array(z.string()).describe("Arguments for the position")
 });
 
 export const DisagreementResolutionSchema = z.object({
-  type: z.enum(["consensus", "compromise", "integration", "tabled"]),
-  description: z.string()
+  type: z.enum(["consensus", "compromise", "integration", "tabled"]).describe("How the disagreement was settled"),
+  description: z.string().describe("What was agreed")
 });
 
 export const DisagreementSchema = z.object({
-  topic: z.string(),
-  positions: z.array(DisagreementPositionSchema),
-  resolution: DisagreementResolutionSchema.optional()
+  topic: z.string().describe("What the personas disagree about"),
+  positions: z.array(DisagreementPositionSchema).describe("Positions held by the personas"),
+  resolution: DisagreementResolutionSchema.optional().describe("How the disagreement was resolved, if it was")
 });
 
 export const CollaborativeReasoningSchema = z.object({
-  topic: z.string(),
-  personas: z.array(PersonaSchema),
-  contributions: z.array(ContributionSchema),
-  stage: z.enum(["problem-definition", "ideation", "critique", "integration", "decision", "reflection"]),
-  activePersonaId: z.string(),
-  nextPersonaId: z.string().optional(),
-  consensusPoints: z.array(z.string()).optional(),
-  disagreements: z.array(DisagreementSchema).optional(),
-  keyInsights: z.array(z.string()).optional(),
-  openQuestions: z.array(z.string()).optional(),
-  finalRecommendation: z.string().optional(),
-  sessionId: z.string(),
-  iteration: z.number(),
-  suggestedContributionTypes: z.array(z.enum(["observation", "question", "insight", "concern", "suggestion", "challenge", "synthesis"])).optional(),
-  nextContributionNeeded: z.boolean()
+  topic: z.string().describe("Topic the personas reason about"),
+  personas: z.array(PersonaSchema).describe("Personas taking part"),
+  contributions: z.array(ContributionSchema).describe("Contributions made so far"),
+  stage: z.enum(["problem-definition", "ideation", "critique", "integration", "decision", "reflection"]).describe("Current stage of the collaboration"),
+  activePersonaId: z.string().describe("Id of the persona contributing now"),
+  nextPersonaId: z.string().optional().describe("Id of the persona who should contribute next"),
+  consensusPoints: z.array(z.string()).optional().describe("Points all personas agree on"),
+  disagreements: z.array(DisagreementSchema).optional().describe("Open or resolved disagreements"),
+  keyInsights: z.array(z.string()).optional().describe("Most important insights so far"),
+  openQuestions: z.array(z.string()).optional().describe("Questions still to answer"),
+  finalRecommendation: z.string().optional().describe("Recommendation the group arrived at"),
+  sessionId: z.string().describe("Identifier of the collaboration across iterations"),
+  iteration: z.number().describe("Number of this iteration, starting at 1"),
+  suggestedContributionTypes: z.array(z.enum(["observation", "question", "insight", "concern", "suggestion", "challenge", "synthesis"])).optional().describe("Contribution types that would help most next"),
+  nextContributionNeeded: z.boolean().describe("Whether another contribution should follow")
 });
 
+export const CollaborativeReasoningOutputSchema = ToolResultSchema.extend({
+  topic: z.string().describe("Topic the personas reason about"),
+  sessionId: z.string().describe("Identifier of the collaboration"),
+  stage: CollaborativeReasoningSchema.shape.stage,
+  activePersonaId: z.string().describe("Id of the persona that contributed"),
+  iteration: z.number().describe("Number of the iteration"),
+  nextContributionNeeded: z.boolean().describe("Whether another contribution should follow"),
+  personaCount: z.number().int().describe("Number of personas taking part"),
+  contributionCount: z.number().int().describe("Number of contributions so far"),
+  consensusPointCount: z.number().int().describe("Number of points all personas agree on")
+});
+
+// Example payloads advertised with the tool definition
+export const CollaborativeReasoningExamples: z.input<typeof CollaborativeReasoningSchema>[] = [
+  {
+    topic: "Should we split the billing module into its own service?",
+    personas: [
+      {
+        id: "architect",
+        name: "Senior Architect",
+        expertise: ["distributed systems", "scalability"],
+        background: "Ten years designing payment platforms",
+        perspective: "Long-term maintainability",
+        biases: ["over-engineering"],
+        communication: { style: "analytical", tone: "measured" }
+      },
+      {
+        id: "sre",
+        name: "Site Reliability Engineer",
+        expertise: ["operations", "incident response"],
+        background: "Runs the on-call rotation",
+        perspective: "Operational cost of every new service",
+        biases: ["status quo"],
+        communication: { style: "direct", tone: "skeptical" }
+      }
+    ],
+    contributions: [
+      {
+        personaId: "architect",
+        content: "Billing changes on a different cadence from the rest of the monolith",
+        type: "observation",
+        confidence: 0.8
+      }
+    ],
+    stage: "ideation",
+    activePersonaId: "architect",
+    nextPersonaId: "sre",
+    sessionId: "billing-split",
+    iteration: 1,
+    nextContributionNeeded: true
+  }
+];
+
 // Type exports for TypeScript
 export type CollaborativeReasoningData = z.infer<typeof CollaborativeReasoningSchema>;
+export type CollaborativeReasoningOutput = z.infer<typeof CollaborativeReasoningOutputSchema>;
 export type PersonaData = z.infer<typeof PersonaSchema>;
 export type ContributionData = z.infer<typeof ContributionSchema>;
 export type DisagreementData = z.infer<typeof DisagreementSchema>;
\ No newline at end of file
@@ -1,13 +1,38 @@
 import { z } from 'zod';
+import { ToolResultSchema } from './ToolSchemas.js';
 
 // Debugging Approach Schema
 export const DebuggingApproachSchema = z.object({
-  approachName: z.string().min(1),
-  issue: z.string().min(1),
-  steps: z.array(z.string()).optional(),
-  findings: z.string().optional(),
-  resolution: z.string().optional()
+  approachName: z.string().min(1).describe("Debugging approach to use, e.g. binary_search, reverse_engineering, divide_conquer or cause_elimination"),
+  issue: z.string().min(1).describe("Issue being debugged"),
+  steps: z.array(z.string()).optional().describe("Steps taken while debugging"),
+  findings: z.string().optional().describe("What the steps revealed"),
+  resolution: z.string().optional().describe("How the issue was or will be resolved")
 });
 
+export const DebuggingApproachOutputSchema = ToolResultSchema.extend({
+  approachName: z.string().describe("Debugging approach that was used"),
+  issue: z.string().describe("Issue being debugged"),
+  hasSteps: z.boolean().describe("Whether any steps were given"),
+  hasResolution: z.boolean().describe("Whether a resolution was given"),
+  stepCount: z.number().int().describe("Number of steps given")
+});
+
+// Example payloads advertised with the tool definition
+export const DebuggingApproachExamples: z.input<typeof DebuggingApproachSchema>[] = [
+  {
+    approachName: "binary_search",
+    issue: "Checkout started returning 500s after the last 40 commits were deployed",
+    steps: [
+      "Deploy the commit halfway through the range to staging",
+      "Replay the failing checkout request",
+      "Repeat on the half that still fails"
+    ],
+    findings: "The failure starts with the commit that changed currency rounding",
+    resolution: "Revert the rounding change and add a regression test"
+  }
+];
+
 // Type exports for TypeScript
-export type DebuggingApproachData = z.infer<typeof DebuggingApproachSchema>;
\ No newline at end of file
+export type DebuggingApproachData = z.infer<typeof DebuggingApproachSchema>;
+export type DebuggingApproachOutput = z.infer<typeof DebuggingApproachOutputSchema>;
\ No newline at end of file
@@ -1,66 +1,221 @@
 import { z } from 'zod';
+import { ToolResultSchema } from './ToolSchemas.js';
 
 // Decision Framework Schema
 export const DecisionOptionSchema = z.object({
-  id: z.string().optional(),
-  name: z.string(),
-  description: z.string()
+  id: z.string().optional().describe("Identifier used by outcomes and evaluations; defaults to the name"),
+  name: z.string().describe("Short name of the option"),
+  description: z.string().describe("What choosing the option involves")
 });
 
 export const DecisionCriterionSchema = z.object({
-  id: z.string().optional(),
-  name: z.string(),
-  description: z.string(),
-  weight: z.number().min(0).max(1),
-  evaluationMethod: z.enum(["quantitative", "qualitative", "boolean"])
+  id: z.string().optional().describe("Identifier used by evaluations and pairwise comparisons; defaults to the name"),
+  name: z.string().describe("Short name of the criterion"),
+  description: z.string().describe("What the criterion measures"),
+  weight: z.number().min(0).max(1).describe("Relative importance from 0 to 1; weights are normalized to sum to 1"),
+  evaluationMethod: z.enum(["quantitative", "qualitative", "boolean"]).describe("How options are scored on the criterion")
 });
 
 export const CriterionEvaluationSchema = z.object({
-  criterionId: z.string(),
-  optionId: z.string(),
-  score: z.number().min(0).max(1),
-  justification: z.string()
+  criterionId: z.string().describe("Id (or name) of the criterion"),
+  optionId: z.string().describe("Id (or name) of the option"),
+  score: z.number().min(0).max(1).describe("How well the option meets the criterion, from 0 to 1"),
+  justification: z.string().describe("Why the option received this score")
 });
 
 export const PossibleOutcomeSchema = z.object({
-  id: z.string().optional(),
-  description: z.string(),
-  probability: z.number().min(0).max(1),
-  value: z.number(),
-  optionId: z.string(),
-  confidenceInEstimate: z.number().min(0).max(1)
+  id: z.string().optional().describe("Identifier of the outcome"),
+  description: z.string().describe("State of the world; outcomes of different options with the same description are the same state"),
+  probability: z.number().min(0).max(1).describe("Probability of the outcome given the option"),
+  value: z.number().describe("Payoff or utility of the outcome"),
+  optionId: z.string().describe("Id (or name) of the option the outcome belongs to"),
+  confidenceInEstimate: z.number().min(0).max(1).describe("Confidence in the probability and value estimates, from 0 to 1")
+});
+
+export const PairwiseComparisonSchema = z.object({
+  criterionA: z.string().describe("Id (or name) of the first criterion"),
+  criterionB: z.string().describe("Id (or name) of the second criterion"),
+  preference: z.number().min(1 / 9).max(9).describe("How much more important A is than B on Saaty's 1/9 to 9 scale; 1 means equal")
 });
 
 export const InformationGapSchema = z.object({
-  description: z.string(),
-  impact: z.number().min(0).max(1),
-  researchMethod: z.string()
+  description: z.string().describe("What is not known"),
+  impact: z.number().min(0).max(1).describe("How much the gap could change the decision, from 0 to 1"),
+  researchMethod: z.string().describe("How the gap could be closed"),
+  states: z.array(z.string()).optional().describe("Outcome descriptions the research would tell apart; defaults to all of them"),
+  sampleAccuracy: z.number().min(0).max(1).optional().describe("Probability the research reports the true state; omit for perfect information"),
+  cost: z.number().min(0).optional().describe("Cost of the research, in the same units as outcome values")
 });
 
 export const DecisionFrameworkSchema = z.object({
-  decisionStatement: z.string(),
-  options: z.array(DecisionOptionSchema),
-  criteria: z.array(DecisionCriterionSchema).optional(),
-  stakeholders: z.array(z.string()).optional(),
-  constraints: z.array(z.string()).optional(),
-  timeHorizon: z.string().optional(),
-  riskTolerance: z.enum(["risk-averse", "risk-neutral", "risk-seeking"]).optional(),
-  possibleOutcomes: z.array(PossibleOutcomeSchema).optional(),
-  criteriaEvaluations: z.array(CriterionEvaluationSchema).optional(),
-  informationGaps: z.array(InformationGapSchema).optional(),
-  analysisType: z.enum(["expected-utility", "multi-criteria", "maximin", "minimax-regret", "satisficing"]),
-  stage: z.enum(["problem-definition", "options", "criteria", "evaluation", "analysis", "recommendation"]),
-  recommendation: z.string().optional(),
-  sensitivityInsights: z.array(z.string()).optional(),
-  expectedValues: z.record(z.number()).optional(),
-  multiCriteriaScores: z.record(z.number()).optional(),
-  decisionId: z.string(),
-  iteration: z.number(),
-  suggestedNextStage: z.string().optional(),
-  nextStageNeeded: z.boolean()
+  decisionStatement: z.string().describe("The decision to be made"),
+  options: z.array(DecisionOptionSchema).describe("Options being decided between"),
+  criteria: z.array(DecisionCriterionSchema).optional().describe("Criteria for multi-criteria analysis"),
+  stakeholders: z.array(z.string()).optional().describe("People or groups affected by the decision"),
+  constraints: z.array(z.string()).optional().describe("Limits any acceptable option must respect"),
+  timeHorizon: z.string().optional().describe("Period over which the decision plays out"),
+  riskTolerance: z.enum(["risk-averse", "risk-neutral", "risk-seeking"]).optional().describe("Attitude to risk of the decision maker"),
+  possibleOutcomes: z.array(PossibleOutcomeSchema).optional().describe("Outcomes per option, used by expected-utility, maximin, minimax-regret and satisficing"),
+  criteriaEvaluations: z.array(CriterionEvaluationSchema).optional().describe("Scores of each option on each criterion"),
+  informationGaps: z.array(InformationGapSchema).optional().describe("Unknowns whose value of information should be assessed"),
+  analysisType: z.enum(["expected-utility", "multi-criteria", "maximin", "minimax-regret", "satisficing"]).describe("Decision rule used to rank options"),
+  stage: z.enum(["problem-definition", "options", "criteria", "evaluation", "analysis", "recommendation"]).describe("Current stage of the decision process"),
+  recommendation: z.string().optional().describe("Recommended option and why"),
+  sensitivityInsights: z.array(z.string()).optional().describe("Notes on how the result depends on the inputs"),
+  expectedValues: z.record(z.number()).optional().describe("Expected value per option id, when already known"),
+  multiCriteriaScores: z.record(z.number()).optional().describe("Multi-criteria score per option id, when already known"),
+  multiCriteriaMethod: z.enum(["weighted-sum", "topsis", "ahp"]).optional().describe("Scoring method for multi-criteria analysis"),
+  pairwiseComparisons: z.array(PairwiseComparisonSchema).optional().describe("Criterion comparisons from which AHP derives weights"),
+  aspirationLevel: z.number().optional().describe("Minimum acceptable worst-case value for satisficing"),
+  decisionId: z.string().describe("Identifier of the decision across iterations"),
+  iteration: z.number().describe("Number of this iteration, starting at 1"),
+  suggestedNextStage: z.string().optional().describe("Stage to move to next"),
+  nextStageNeeded: z.boolean().describe("Whether another stage should follow")
+});
+
+// Decision Framework results
+export const OutcomeAnalysisOutputSchema = z.object({
+  method: z.enum(["expected-utility", "maximin", "minimax-regret", "satisficing"]).describe("Decision rule that ranked the options"),
+  ranking: z.array(z.object({
+    optionId: z.string().describe("Id of the option"),
+    optionName: z.string().describe("Name of the option"),
+    rank: z.number().int().describe("Rank of the option, 1 being best"),
+    score: z.number().describe("Score under the decision rule"),
+    expectedValue: z.number().describe("Probability-weighted value of the option's outcomes"),
+    worstCase: z.number().describe("Lowest outcome value"),
+    bestCase: z.number().describe("Highest outcome value"),
+    maxRegret: z.number().optional().describe("Largest shortfall from the best option in any state, for minimax-regret"),
+    satisfices: z.boolean().optional().describe("Whether the worst case meets the aspiration level, for satisficing")
+  })).describe("Options from best to worst"),
+  recommendedOptionId: z.string().optional().describe("Id of the top-ranked option"),
+  expectedValues: z.record(z.number()).describe("Expected value per option id"),
+  aspirationLevel: z.number().optional().describe("Threshold used for satisficing"),
+  warnings: z.array(z.string()).describe("Problems found in the inputs")
 });
 
+export const MultiCriteriaOutputSchema = z.object({
+  method: z.enum(["weighted-sum", "topsis", "ahp"]).describe("Scoring method that ranked the options"),
+  ranking: z.array(z.object({
+    optionId: z.string().describe("Id of the option"),
+    optionName: z.string().describe("Name of the option"),
+    rank: z.number().int().describe("Rank of the option, 1 being best"),
+    score: z.number().describe("Score under the scoring method"),
+    contributions: z.record(z.number()).describe("Contribution of each criterion id to the score")
+  })).describe("Options from best to worst"),
+  recommendedOptionId: z.string().optional().describe("Id of the top-ranked option"),
+  scores: z.record(z.number()).describe("Score per option id"),
+  criterionWeights: z.record(z.number()).describe("Normalized weight per criterion id"),
+  consistency: z.object({
+    lambdaMax: z.number().describe("Principal eigenvalue of the comparison matrix"),
+    consistencyIndex: z.number().describe("Saaty's consistency index"),
+    consistencyRatio: z.number().describe("Consistency index over the random index"),
+    isConsistent: z.boolean().describe("Whether the ratio is below 0.1")
+  }).optional().describe("Consistency of the AHP pairwise comparisons"),
+  warnings: z.array(z.string()).describe("Problems found in the inputs")
+});
+
+export const SensitivityOutputSchema = z.object({
+  baselineTopOptionId: z.string().describe("Id of the top-ranked option with the given inputs"),
+  parameters: z.array(z.object({
+    parameter: z.string().describe("Criterion weight or outcome probability that was varied"),
+    kind: z.enum(["criterion-weight", "outcome-probability"]).describe("Kind of parameter"),
+    baselineValue: z.number().describe("Value of the parameter as given"),
+    flips: z.boolean().describe("Whether any value in range changes the top-ranked option"),
+    threshold: z.number().optional().describe("Nearest value at which the top-ranked option changes"),
+    direction: z.enum(["increase", "decrease"]).optional().describe("Direction of change that reaches the threshold"),
+    newTopOptionId: z.string().optional().describe("Option that becomes top-ranked past the threshold")
+  })).describe("Sensitivity of the recommendation to each parameter"),
+  robustness: z.enum(["robust", "moderate", "fragile"]).describe("How easily the recommendation changes"),
+  insights: z.array(z.string()).describe("Plain-language summary of the sensitivity analysis")
+});
+
+export const ValueOfInformationOutputSchema = z.object({
+  baselineOptionId: z.string().describe("Option with the best expected value before any research"),
+  baselineExpectedValue: z.number().describe("Expected value of the baseline option"),
+  evpi: z.number().describe("Expected value of perfect information about every state"),
+  gaps: z.array(z.object({
+    description: z.string().describe("What is not known"),
+    researchMethod: z.string().describe("How the gap could be closed"),
+    impact: z.number().describe("Stated impact of the gap, from 0 to 1"),
+    states: z.array(z.string()).describe("States the research would tell apart"),
+    evpi: z.number().describe("Expected value of perfect information about these states"),
+    evsi: z.number().optional().describe("Expected value of sample information, given sampleAccuracy"),
+    sampleAccuracy: z.number().optional().describe("Probability the research reports the true state"),
+    cost: z.number().optional().describe("Cost of the research"),
+    netValue: z.number().describe("Value of the research minus its cost"),
+    worthResearching: z.boolean().describe("Whether the net value is positive"),
+    rank: z.number().int().describe("Rank by net value, 1 being most valuable")
+  })).describe("Value of closing each information gap"),
+  warnings: z.array(z.string()).describe("Problems found in the inputs")
+});
+
+export const DecisionFrameworkOutputSchema = ToolResultSchema.extend({
+  decisionStatement: z.string().describe("The decision being made"),
+  decisionId: z.string().describe("Identifier of the decision"),
+  analysisType: DecisionFrameworkSchema.shape.analysisType,
+  stage: DecisionFrameworkSchema.shape.stage,
+  iteration: z.number().describe("Number of the iteration"),
+  nextStageNeeded: z.boolean().describe("Whether another stage should follow"),
+  optionCount: z.number().int().describe("Number of options"),
+  criteriaCount: z.number().int().describe("Number of criteria"),
+  hasRecommendation: z.boolean().describe("Whether a recommendation was given"),
+  expectedValues: z.record(z.number()).optional().describe("Expected value per option id, computed or as given"),
+  multiCriteriaScores: z.record(z.number()).optional().describe("Multi-criteria score per option id, computed or as given"),
+  analysis: z.union([OutcomeAnalysisOutputSchema, MultiCriteriaOutputSchema]).optional()
+    .describe("Ranking computed from the outcomes or criteria evaluations"),
+  sensitivity: SensitivityOutputSchema.optional().describe("How robust the recommendation is to the inputs"),
+  sensitivityInsights: z.array(z.string()).optional().describe("Sensitivity insights, computed or as given"),
+  valueOfInformation: ValueOfInformationOutputSchema.optional().describe("Value of closing each information gap")
+});
+
+// Example payloads advertised with the tool definition
+export const DecisionFrameworkExamples: z.input<typeof DecisionFrameworkSchema>[] = [
+  {
+    decisionStatement: "Selecting a cloud provider",
+    options: [
+      { id: "aws", name: "AWS", description: "Broadest service catalogue" },
+      { id: "gcp", name: "GCP", description: "Strong data tooling" }
+    ],
+    possibleOutcomes: [
+      { optionId: "aws", description: "steady growth", probability: 0.7, value: 80, confidenceInEstimate: 0.6 },
+      { optionId: "aws", description: "rapid growth", probability: 0.3, value: 60, confidenceInEstimate: 0.6 },
+      { optionId: "gcp", description: "steady growth", probability: 0.7, value: 70, confidenceInEstimate: 0.6 },
+      { optionId: "gcp", description: "rapid growth", probability: 0.3, value: 95, confidenceInEstimate: 0.6 }
+    ],
+    analysisType: "expected-utility",
+    stage: "analysis",
+    decisionId: "cloud-provider",
+    iteration: 1,
+    nextStageNeeded: true
+  },
+  {
+    decisionStatement: "Selecting a cloud provider",
+    options: [
+      { id: "aws", name: "AWS", description: "Broadest service catalogue" },
+      { id: "gcp", name: "GCP", description: "Strong data tooling" }
+    ],
+    criteria: [
+      { id: "cost", name: "Cost", description: "Total cost of ownership", weight: 0.6, evaluationMethod: "quantitative" },
+      { id: "support", name: "Support", description: "Support quality", weight: 0.4, evaluationMethod: "qualitative" }
+    ],
+    criteriaEvaluations: [
+      { optionId: "aws", criterionId: "cost", score: 0.6, justification: "Reserved pricing" },
+      { optionId: "aws", criterionId: "support", score: 0.9, justification: "Enterprise support" },
+      { optionId: "gcp", criterionId: "cost", score: 0.8, justification: "Sustained-use discounts" },
+      { optionId: "gcp", criterionId: "support", score: 0.7, justification: "Partner support" }
+    ],
+    analysisType: "multi-criteria",
+    multiCriteriaMethod: "topsis",
+    stage: "evaluation",
+    decisionId: "cloud-provider",
+    iteration: 2,
+    nextStageNeeded: true
+  }
+];
+
 // Type exports for TypeScript
 export type DecisionFrameworkData = z.infer<typeof DecisionFrameworkSchema>;
+export type DecisionFrameworkOutput = z.infer<typeof DecisionFrameworkOutputSchema>;
 export type DecisionOptionData = z.infer<typeof DecisionOptionSchema>;
-export type DecisionCriterionData = z.infer<typeof DecisionCriterionSchema>;
\ No newline at end of file
+export type DecisionCriterionData = z.infer<typeof DecisionCriterionSchema>;
+export type PairwiseComparisonData = z.infer<typeof PairwiseComparisonSchema>;
\ No newline at end of file
@@ -1,13 +1,38 @@
 import { z } from 'zod';
+import { ToolResultSchema } from './ToolSchemas.js';
 
 // Mental Model Schema
 export const MentalModelSchema = z.object({
-  modelName: z.string().min(1),
-  problem: z.string().min(1),
-  steps: z.array(z.string()).optional(),
-  reasoning: z.string().optional(),
-  conclusion: z.string().optional()
+  modelName: z.string().min(1).describe("Mental model to apply, e.g. first_principles, opportunity_cost, pareto_principle or occams_razor"),
+  problem: z.string().min(1).describe("Problem the model is applied to"),
+  steps: z.array(z.string()).optional().describe("Steps taken while applying the model"),
+  reasoning: z.string().optional().describe("Reasoning that follows from the model"),
+  conclusion: z.string().optional().describe("Conclusion reached")
 });
 
+export const MentalModelOutputSchema = ToolResultSchema.extend({
+  modelName: z.string().describe("Mental model that was applied"),
+  problem: z.string().describe("Problem the model was applied to"),
+  hasSteps: z.boolean().describe("Whether any steps were given"),
+  hasConclusion: z.boolean().describe("Whether a conclusion was given"),
+  stepCount: z.number().int().describe("Number of steps given")
+});
+
+// Example payloads advertised with the tool definition
+export const MentalModelExamples: z.input<typeof MentalModelSchema>[] = [
+  {
+    modelName: "first_principles",
+    problem: "Our build takes 20 minutes",
+    steps: [
+      "List what a build fundamentally has to do",
+      "Measure how long each of those parts takes",
+      "Question every step that is not fundamental"
+    ],
+    reasoning: "Only compilation and tests are essential; packaging runs twice",
+    conclusion: "Package once and cache compilation output"
+  }
+];
+
 // Type exports for TypeScript
-export type MentalModelData = z.infer<typeof MentalModelSchema>;
\ No newline at end of file
+export type MentalModelData = z.infer<typeof MentalModelSchema>;
+export type MentalModelOutput = z.infer<typeof MentalModelOutputSchema>;
\ No newline at end of file
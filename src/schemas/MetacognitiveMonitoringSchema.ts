@@ -1,49 +1,94 @@
 import { z } from 'zod';
+import { ToolResultSchema } from './ToolSchemas.js';
 
 // Metacognitive Monitoring Schema
 export const KnowledgeAssessmentSchema = z.object({
-  domain: z.string(),
-  knowledgeLevel: z.enum(["expert", "proficient", "familiar", "basic", "minimal", "none"]),
-  confidenceScore: z.number().min(0).max(1),
-  supportingEvidence: z.string(),
-  knownLimitations: z.array(z.string()),
-  relevantTrainingCutoff: z.string().optional()
+  domain: z.string().describe("Knowledge domain being assessed"),
+  knowledgeLevel: z.enum(["expert", "proficient", "familiar", "basic", "minimal", "none"]).describe("Self-assessed level of knowledge"),
+  confidenceScore: z.number().min(0).max(1).describe("Confidence in the assessment, from 0 to 1"),
+  supportingEvidence: z.string().describe("Why the level is what it is"),
+  knownLimitations: z.array(z.string()).describe("Known gaps in the knowledge"),
+  relevantTrainingCutoff: z.string().optional().describe("Date after which knowledge may be missing, e.g. \"2024-06\"")
 });
 
 export const ClaimAssessmentSchema = z.object({
-  claim: z.string(),
-  status: z.enum(["fact", "inference", "speculation", "uncertain"]),
-  confidenceScore: z.number().min(0).max(1),
-  evidenceBasis: z.string(),
-  falsifiabilityCriteria: z.string().optional(),
-  alternativeInterpretations: z.array(z.string()).optional()
+  claim: z.string().describe("The claim being assessed"),
+  status: z.enum(["fact", "inference", "speculation", "uncertain"]).describe("Epistemic status of the claim"),
+  confidenceScore: z.number().min(0).max(1).describe("Confidence in the claim, from 0 to 1"),
+  evidenceBasis: z.string().describe("Evidence the claim rests on"),
+  falsifiabilityCriteria: z.string().optional().describe("What would show the claim to be false"),
+  alternativeInterpretations: z.array(z.string()).optional().describe("Other ways to read the evidence")
 });
 
 export const ReasoningAssessmentSchema = z.object({
-  step: z.string(),
-  potentialBiases: z.array(z.string()),
-  assumptions: z.array(z.string()),
-  logicalValidity: z.number().min(0).max(1),
-  inferenceStrength: z.number().min(0).max(1)
+  step: z.string().describe("The reasoning step being assessed"),
+  potentialBiases: z.array(z.string()).describe("Biases that may affect the step"),
+  assumptions: z.array(z.string()).describe("Assumptions the step relies on"),
+  logicalValidity: z.number().min(0).max(1).describe("How logically valid the step is, from 0 to 1"),
+  inferenceStrength: z.number().min(0).max(1).describe("How strongly the premises support the inference, from 0 to 1")
 });
 
 export const MetacognitiveMonitoringSchema = z.object({
-  task: z.string(),
-  stage: z.enum(["knowledge-assessment", "planning", "execution", "monitoring", "evaluation", "reflection"]),
-  knowledgeAssessment: KnowledgeAssessmentSchema.optional(),
-  claims: z.array(ClaimAssessmentSchema).optional(),
-  reasoningSteps: z.array(ReasoningAssessmentSchema).optional(),
-  overallConfidence: z.number().min(0).max(1),
-  uncertaintyAreas: z.array(z.string()),
-  recommendedApproach: z.string(),
-  monitoringId: z.string(),
-  iteration: z.number(),
-  suggestedAssessments: z.array(z.enum(["knowledge", "claim", "reasoning", "overall"])).optional(),
-  nextAssessmentNeeded: z.boolean()
+  task: z.string().describe("Task whose reasoning is being monitored"),
+  stage: z.enum(["knowledge-assessment", "planning", "execution", "monitoring", "evaluation", "reflection"]).describe("Current stage of monitoring"),
+  knowledgeAssessment: KnowledgeAssessmentSchema.optional().describe("Assessment of knowledge in the task's domain"),
+  claims: z.array(ClaimAssessmentSchema).optional().describe("Claims made so far and how well they are supported"),
+  reasoningSteps: z.array(ReasoningAssessmentSchema).optional().describe("Reasoning steps and their quality"),
+  overallConfidence: z.number().min(0).max(1).describe("Overall confidence in the work, from 0 to 1"),
+  uncertaintyAreas: z.array(z.string()).describe("Areas of most uncertainty"),
+  recommendedApproach: z.string().describe("How to proceed given the assessment"),
+  monitoringId: z.string().describe("Identifier of the monitoring session across iterations"),
+  iteration: z.number().describe("Number of this iteration, starting at 1"),
+  suggestedAssessments: z.array(z.enum(["knowledge", "claim", "reasoning", "overall"])).optional().describe("Assessments that would help most next"),
+  nextAssessmentNeeded: z.boolean().describe("Whether another assessment should follow")
 });
 
+export const MetacognitiveMonitoringOutputSchema = ToolResultSchema.extend({
+  task: z.string().describe("Task whose reasoning is being monitored"),
+  monitoringId: z.string().describe("Identifier of the monitoring session"),
+  stage: MetacognitiveMonitoringSchema.shape.stage,
+  iteration: z.number().describe("Number of the iteration"),
+  overallConfidence: z.number().describe("Overall confidence in the work, from 0 to 1"),
+  nextAssessmentNeeded: z.boolean().describe("Whether another assessment should follow"),
+  uncertaintyAreaCount: z.number().int().describe("Number of areas of uncertainty"),
+  hasKnowledgeAssessment: z.boolean().describe("Whether a knowledge assessment was given"),
+  claimCount: z.number().int().describe("Number of claims assessed"),
+  reasoningStepCount: z.number().int().describe("Number of reasoning steps assessed")
+});
+
+// Example payloads advertised with the tool definition
+export const MetacognitiveMonitoringExamples: z.input<typeof MetacognitiveMonitoringSchema>[] = [
+  {
+    task: "Review a fix for a race condition in the job scheduler",
+    stage: "monitoring",
+    knowledgeAssessment: {
+      domain: "Concurrency in Node.js",
+      knowledgeLevel: "proficient",
+      confidenceScore: 0.7,
+      supportingEvidence: "Have debugged event loop ordering issues before",
+      knownLimitations: ["Worker thread memory model"]
+    },
+    claims: [
+      {
+        claim: "The fix removes the race",
+        status: "inference",
+        confidenceScore: 0.6,
+        evidenceBasis: "The shared counter is now only updated inside the lock",
+        falsifiabilityCriteria: "The stress test still fails after the change"
+      }
+    ],
+    overallConfidence: 0.65,
+    uncertaintyAreas: ["Retry path when the lock times out"],
+    recommendedApproach: "Run the stress test 1000 times before approving",
+    monitoringId: "scheduler-race-review",
+    iteration: 1,
+    nextAssessmentNeeded: true
+  }
+];
+
 // Type exports for TypeScript
 export type MetacognitiveMonitoringData = z.infer<typeof MetacognitiveMonitoringSchema>;
+export type MetacognitiveMonitoringOutput = z.infer<typeof MetacognitiveMonitoringOutputSchema>;
 export type KnowledgeAssessmentData = z.infer<typeof KnowledgeAssessmentSchema>;
 export type ClaimAssessmentData = z.infer<typeof ClaimAssessmentSchema>;
 export type ReasoningAssessmentData = z.infer<typeof ReasoningAssessmentSchema>;
\ No newline at end of file
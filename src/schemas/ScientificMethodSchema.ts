@@ -1,60 +1,111 @@
 import { z } from 'zod';
+import { ToolResultSchema } from './ToolSchemas.js';
 
 // Scientific Method Schema
 export const VariableSchema = z.object({
-  name: z.string(),
-  type: z.enum(["independent", "dependent", "controlled", "confounding"]),
-  operationalization: z.string().optional()
+  name: z.string().describe("Name of the variable"),
+  type: z.enum(["independent", "dependent", "controlled", "confounding"]).describe("Role of the variable in the hypothesis"),
+  operationalization: z.string().optional().describe("How the variable is measured or manipulated")
 });
 
 export const HypothesisSchema = z.object({
-  statement: z.string(),
-  variables: z.array(VariableSchema),
-  assumptions: z.array(z.string()),
-  hypothesisId: z.string(),
-  confidence: z.number().min(0).max(1),
-  domain: z.string(),
-  iteration: z.number(),
-  alternativeTo: z.array(z.string()).optional(),
-  refinementOf: z.string().optional(),
-  status: z.enum(["proposed", "testing", "supported", "refuted", "refined"])
+  statement: z.string().describe("Testable statement of the hypothesis"),
+  variables: z.array(VariableSchema).describe("Variables the hypothesis involves"),
+  assumptions: z.array(z.string()).describe("Assumptions the hypothesis relies on"),
+  hypothesisId: z.string().describe("Identifier experiments refer to"),
+  confidence: z.number().min(0).max(1).describe("Confidence in the hypothesis, from 0 to 1"),
+  domain: z.string().describe("Field the hypothesis belongs to"),
+  iteration: z.number().describe("Version of the hypothesis, starting at 1"),
+  alternativeTo: z.array(z.string()).optional().describe("Ids of competing hypotheses"),
+  refinementOf: z.string().optional().describe("Id of the hypothesis this one refines"),
+  status: z.enum(["proposed", "testing", "supported", "refuted", "refined"]).describe("Where the hypothesis stands")
 });
 
 export const PredictionSchema = z.object({
-  if: z.string(),
-  then: z.string(),
-  else: z.string().optional()
+  if: z.string().describe("Condition set up by the experiment"),
+  then: z.string().describe("Expected observation if the hypothesis holds"),
+  else: z.string().optional().describe("Expected observation if it does not")
 });
 
 export const ExperimentSchema = z.object({
-  design: z.string(),
-  methodology: z.string(),
-  predictions: z.array(PredictionSchema),
-  experimentId: z.string(),
-  hypothesisId: z.string(),
-  controlMeasures: z.array(z.string()),
-  results: z.string().optional(),
-  outcomeMatched: z.boolean().optional(),
-  unexpectedObservations: z.array(z.string()).optional(),
-  limitations: z.array(z.string()).optional(),
-  nextSteps: z.array(z.string()).optional()
+  design: z.string().describe("Overall design of the experiment"),
+  methodology: z.string().describe("How the experiment is carried out"),
+  predictions: z.array(PredictionSchema).describe("Predictions the experiment tests"),
+  experimentId: z.string().describe("Identifier of the experiment"),
+  hypothesisId: z.string().describe("Id of the hypothesis being tested"),
+  controlMeasures: z.array(z.string()).describe("Measures taken to rule out other explanations"),
+  results: z.string().optional().describe("What was observed"),
+  outcomeMatched: z.boolean().optional().describe("Whether the results matched the predictions"),
+  unexpectedObservations: z.array(z.string()).optional().describe("Observations nobody predicted"),
+  limitations: z.array(z.string()).optional().describe("Weaknesses of the experiment"),
+  nextSteps: z.array(z.string()).optional().describe("Follow-up work suggested by the results")
 });
 
 export const ScientificMethodSchema = z.object({
-  stage: z.enum(["observation", "question", "hypothesis", "experiment", "analysis", "conclusion", "iteration"]),
-  observation: z.string().optional(),
-  question: z.string().optional(),
-  hypothesis: HypothesisSchema.optional(),
-  experiment: ExperimentSchema.optional(),
-  analysis: z.string().optional(),
-  conclusion: z.string().optional(),
-  inquiryId: z.string(),
-  iteration: z.number(),
-  nextStageNeeded: z.boolean()
+  stage: z.enum(["observation", "question", "hypothesis", "experiment", "analysis", "conclusion", "iteration"]).describe("Current stage of the inquiry"),
+  observation: z.string().optional().describe("Observation that prompted the inquiry"),
+  question: z.string().optional().describe("Research question"),
+  hypothesis: HypothesisSchema.optional().describe("Hypothesis being developed or tested"),
+  experiment: ExperimentSchema.optional().describe("Experiment testing the hypothesis"),
+  analysis: z.string().optional().describe("Analysis of the results"),
+  conclusion: z.string().optional().describe("Conclusion of the inquiry"),
+  inquiryId: z.string().describe("Identifier of the inquiry across iterations"),
+  iteration: z.number().describe("Number of this iteration, starting at 1"),
+  nextStageNeeded: z.boolean().describe("Whether another stage should follow")
 });
 
+export const ScientificMethodOutputSchema = ToolResultSchema.extend({
+  inquiryId: z.string().describe("Identifier of the inquiry"),
+  stage: ScientificMethodSchema.shape.stage,
+  iteration: z.number().describe("Number of the iteration"),
+  nextStageNeeded: z.boolean().describe("Whether another stage should follow"),
+  hasObservation: z.boolean().describe("Whether an observation was given"),
+  hasQuestion: z.boolean().describe("Whether a research question was given"),
+  hasHypothesis: z.boolean().describe("Whether a hypothesis was given"),
+  hasExperiment: z.boolean().describe("Whether an experiment was given"),
+  hasAnalysis: z.boolean().describe("Whether an analysis was given"),
+  hasConclusion: z.boolean().describe("Whether a conclusion was given")
+});
+
+// Example payloads advertised with the tool definition
+export const ScientificMethodExamples: z.input<typeof ScientificMethodSchema>[] = [
+  {
+    stage: "experiment",
+    observation: "p95 latency doubles during the nightly batch import",
+    question: "Does cache eviction during the import cause the latency spike?",
+    hypothesis: {
+      statement: "Increasing the cache size from 128 MB to 512 MB removes the nightly latency spike",
+      variables: [
+        { name: "cache size", type: "independent" },
+        { name: "p95 latency", type: "dependent", operationalization: "p95 of request duration over the import window" },
+        { name: "import volume", type: "controlled" }
+      ],
+      assumptions: ["The import evicts hot keys"],
+      hypothesisId: "cache-size",
+      confidence: 0.6,
+      domain: "performance",
+      iteration: 1,
+      status: "testing"
+    },
+    experiment: {
+      design: "A/B test across two identical replicas",
+      methodology: "Run one replica at each cache size for a week of imports",
+      predictions: [
+        { if: "the cache is 512 MB", then: "p95 latency stays flat during the import", else: "the spike remains" }
+      ],
+      experimentId: "cache-ab-1",
+      hypothesisId: "cache-size",
+      controlMeasures: ["Same hardware", "Same traffic split"]
+    },
+    inquiryId: "nightly-latency",
+    iteration: 1,
+    nextStageNeeded: true
+  }
+];
+
 // Type exports for TypeScript
 export type ScientificMethodData = z.infer<typeof ScientificMethodSchema>;
+export type ScientificMethodOutput = z.infer<typeof ScientificMethodOutputSchema>;
 export type VariableData = z.infer<typeof VariableSchema>;
 export type HypothesisData = z.infer<typeof HypothesisSchema>;
 export type PredictionData = z.infer<typeof PredictionSchema>;
@@ -1,39 +1,77 @@
 import { z } from 'zod';
-import { ToolRecommendationSchema, ToolUsageHistorySchema } from './ToolSchemas.js';
+import { ToolRecommendationSchema, ToolResultSchema, ToolUsageHistorySchema } from './ToolSchemas.js';
 
 // Schema for StepRecommendation
 export const StepRecommendationSchema = z.object({
-  stepDescription: z.string(),
-  recommendedTools: z.array(ToolRecommendationSchema),
-  expectedOutcome: z.string(),
-  nextStepConditions: z.array(z.string()),
+  stepDescription: z.string().describe("What the step does"),
+  recommendedTools: z.array(ToolRecommendationSchema).describe("Tools suited to the step, with confidence and rationale"),
+  expectedOutcome: z.string().describe("What the step should produce"),
+  nextStepConditions: z.array(z.string()).describe("Conditions to check before moving to the next step"),
 });
 
 // Schema for CurrentStep (extends StepRecommendation)
 export const CurrentStepSchema = StepRecommendationSchema.extend({
-  stepNumber: z.number().optional(),
-  estimatedDuration: z.string().optional(),
-  complexityLevel: z.enum(['low', 'medium', 'high']).optional(),
+  stepNumber: z.number().optional().describe("Position of the step in the plan"),
+  estimatedDuration: z.string().optional().describe("Rough time the step should take, e.g. \"10 minutes\""),
+  complexityLevel: z.enum(['low', 'medium', 'high']).optional().describe("How complex the step is"),
 });
 
 // Schema for ThoughtData (main schema)
 export const SequentialThoughtSchema = z.object({
-  thought: z.string().min(1),
-  thoughtNumber: z.number().int().positive(),
-  totalThoughts: z.number().int().positive(),
-  nextThoughtNeeded: z.boolean(),
-  isRevision: z.boolean().optional(),
-  revisesThought: z.number().int().positive().optional(),
-  branchFromThought: z.number().int().positive().optional(),
-  branchId: z.string().optional(),
-  needsMoreThoughts: z.boolean().optional(),
-  currentStep: CurrentStepSchema.optional(),
-  previousSteps: z.array(StepRecommendationSchema).optional(),
-  remainingSteps: z.array(z.string()).optional(),
-  toolUsageHistory: z.array(ToolUsageHistorySchema).optional(),
+  thought: z.string().min(1).describe("The current thinking step"),
+  thoughtNumber: z.number().int().positive().describe("Number of this thought, starting at 1"),
+  totalThoughts: z.number().int().positive().describe("Current estimate of how many thoughts are needed; may grow or shrink"),
+  nextThoughtNeeded: z.boolean().describe("Whether another thought should follow this one"),
+  isRevision: z.boolean().optional().describe("Whether this thought revises an earlier one"),
+  revisesThought: z.number().int().positive().optional().describe("Number of the thought being revised"),
+  branchFromThought: z.number().int().positive().optional().describe("Number of the thought this branch starts from"),
+  branchId: z.string().optional().describe("Identifier of the branch this thought belongs to"),
+  needsMoreThoughts: z.boolean().optional().describe("Set when the end was reached but more thoughts are needed"),
+  currentStep: CurrentStepSchema.optional().describe("Step being worked on, with recommended tools"),
+  previousSteps: z.array(StepRecommendationSchema).optional().describe("Steps already completed"),
+  remainingSteps: z.array(z.string()).optional().describe("Short descriptions of the steps still to do"),
+  toolUsageHistory: z.array(ToolUsageHistorySchema).optional().describe("Tools used so far and how well they worked"),
+  sessionId: z.string().min(1).optional().describe("Session to record the thought in; omit to use the session of the connection (the default session over stdio)"),
 });
 
+export const SequentialThoughtOutputSchema = ToolResultSchema.extend({
+  thoughtNumber: z.number().int().describe("Number of the recorded thought"),
+  totalThoughts: z.number().int().describe("Current estimate of how many thoughts are needed"),
+  nextThoughtNeeded: z.boolean().describe("Whether another thought should follow"),
+  thought: z.string().describe("The recorded thought"),
+  isRevision: z.boolean().describe("Whether the thought revises an earlier one"),
+  hasCurrentStep: z.boolean().describe("Whether a current step was given"),
+  branchId: z.string().optional().describe("Branch the thought was recorded on"),
+  sessionId: z.string().describe("Session the thought was recorded in"),
+  thoughtHistoryLength: z.number().int().describe("Number of thoughts recorded in the session"),
+  branches: z.array(z.string()).describe("Ids of the branches in the session"),
+  revisedThought: SequentialThoughtSchema.omit({ sessionId: true }).optional()
+    .describe("Earlier thought that this one revises, as recorded in the session"),
+  stage: z.enum(['initial', 'middle', 'final']).describe("Position of the thought in the sequence")
+});
+
+// Example payloads advertised with the tool definition
+export const SequentialThoughtExamples: z.input<typeof SequentialThoughtSchema>[] = [
+  {
+    thought: "The flaky test only fails when the cache is warm, so start with cache invalidation",
+    thoughtNumber: 1,
+    totalThoughts: 4,
+    nextThoughtNeeded: true,
+    sessionId: "flaky-test-investigation"
+  },
+  {
+    thought: "Invalidation is fine; the real culprit is a shared fixture mutated by another test",
+    thoughtNumber: 3,
+    totalThoughts: 4,
+    nextThoughtNeeded: true,
+    isRevision: true,
+    revisesThought: 1,
+    sessionId: "flaky-test-investigation"
+  }
+];
+
 // Type inference for TypeScript
 export type StepRecommendationData = z.infer<typeof StepRecommendationSchema>;
 export type CurrentStep = z.infer<typeof CurrentStepSchema>;
 export type SequentialThought = z.infer<typeof SequentialThoughtSchema>;
+export type SequentialThoughtOutput = z.infer<typeof SequentialThoughtOutputSchema>;
@@ -1,12 +1,452 @@
 import { z } from 'zod';
+import { ToolResultSchema } from './ToolSchemas.js';
 
-// Stochastic Algorithm Schema
-export const StochasticAlgorithmSchema = z.object({
-  algorithm: z.string().min(1),
-  problem: z.string().min(1),
-  parameters: z.record(z.unknown()).optional(),
-  result: z.string().optional()
+const PROBABILITY_TOLERANCE = 1e-6;
+
+// Markov Decision Process parameters
+export const MdpTransitionSchema = z.object({
+  state: z.string().min(1).describe("State the transition starts from"),
+  action: z.string().min(1).describe("Action taken in the state"),
+  nextState: z.string().min(1).describe("State the transition leads to"),
+  probability: z.number().min(0).max(1).describe("Probability of reaching nextState; probabilities for each state and action must sum to 1"),
+  reward: z.number().optional().describe("Reward received on this transition")
+});
+
+export const MdpRewardSchema = z.object({
+  state: z.string().min(1).describe("State the reward applies to"),
+  action: z.string().min(1).optional().describe("Action the reward applies to; omit to apply it to every action in the state"),
+  reward: z.number().describe("Reward for taking the action in the state")
+});
+
+export const MdpParametersSchema = z.object({
+  states: z.array(z.string().min(1)).min(1).describe("Names of all states; states without transitions are terminal"),
+  actions: z.array(z.string().min(1)).min(1).describe("Names of all actions"),
+  transitions: z.array(MdpTransitionSchema).min(1).describe("Transition probabilities between states"),
+  rewards: z.array(MdpRewardSchema).optional().describe("Rewards per state, or per state and action"),
+  gamma: z.number().min(0).lt(1).default(0.9).describe("Discount factor for future rewards"),
+  method: z.enum(["value-iteration", "policy-iteration", "both"]).default("both").describe("Solver to use; both runs value and policy iteration and compares them"),
+  // Policy iteration runs up to maxIterations evaluation sweeps per improvement step, so both are bounded
+  tolerance: z.number().min(1e-12).default(1e-6).describe("Convergence threshold on the largest value change, at least 1e-12"),
+  maxIterations: z.number().int().positive().max(10000).default(1000).describe("Iteration limit for the solvers")
+}).superRefine((mdp, ctx) => {
+  const states = new Set(mdp.states);
+  const actions = new Set(mdp.actions);
+
+  const checkReference = (kind: 'state' | 'action', value: string, path: (string | number)[]) => {
+    if (!(kind === 'state' ? states : actions).has(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown ${kind} "${value}"` });
+    }
+  };
+
+  const totals = new Map<string, { state: string; action: string; total: number }>();
+  mdp.transitions.forEach((transition, index) => {
+    checkReference('state', transition.state, ['transitions', index, 'state']);
+    checkReference('action', transition.action, ['transitions', index, 'action']);
+    checkReference('state', transition.nextState, ['transitions', index, 'nextState']);
+
+    const key = `${transition.state}\u0000${transition.action}`;
+    const entry = totals.get(key) ?? { state: transition.state, action: transition.action, total: 0 };
+    entry.total += transition.probability;
+    totals.set(key, entry);
+  });
+
+  for (const { state, action, total } of totals.values()) {
+    if (Math.abs(total - 1) > PROBABILITY_TOLERANCE) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['transitions'],
+        message: `Transition probabilities for state "${state}" and action "${action}" sum to ${total.toFixed(3)}, expected 1`
+      });
+    }
+  }
+
+  mdp.rewards?.forEach((reward, index) => {
+    checkReference('state', reward.state, ['rewards', index, 'state']);
+    if (reward.action !== undefined) {
+      checkReference('action', reward.action, ['rewards', index, 'action']);
+    }
+  });
+});
+
+// Monte Carlo Tree Search parameters: a declarative game/decision tree
+export const MctsActionSchema = z.object({
+  name: z.string().min(1).describe("Name of the action"),
+  next: z.string().min(1).describe("Id of the state the action leads to"),
+  reward: z.number().optional().describe("Reward for taking the action, from the max player's perspective")
+});
+
+export const MctsStateSchema = z.object({
+  id: z.string().min(1).describe("Unique id of the state"),
+  player: z.enum(["max", "min"]).default("max").describe("Player to move: max maximizes reward, min minimizes it"),
+  actions: z.array(MctsActionSchema).optional().describe("Actions available in the state; states without actions are terminal"),
+  reward: z.number().optional().describe("Reward paid on reaching the state if it is terminal")
+});
+
+export const MctsParametersSchema = z.object({
+  root: z.string().min(1).describe("Id of the state the search starts from"),
+  states: z.array(MctsStateSchema).min(1).describe("All states of the game or decision tree"),
+  iterations: z.number().int().positive().max(100000).default(1000).describe("Number of search iterations"),
+  explorationConstant: z.number().min(0).default(Math.SQRT2).describe("UCT exploration constant; higher values explore more"),
+  maxDepth: z.number().int().positive().max(1000).default(50).describe("Maximum depth of selection and rollouts")
+}).superRefine((tree, ctx) => {
+  const ids = new Set<string>();
+  tree.states.forEach((state, index) => {
+    if (ids.has(state.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['states', index, 'id'], message: `Duplicate state "${state.id}"` });
+    }
+    ids.add(state.id);
+  });
+
+  if (!ids.has(tree.root)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['root'], message: `Unknown state "${tree.root}"` });
+  }
+
+  tree.states.forEach((state, index) => {
+    state.actions?.forEach((action, actionIndex) => {
+      if (!ids.has(action.next)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['states', index, 'actions', actionIndex, 'next'],
+          message: `Unknown state "${action.next}"`
+        });
+      }
+    });
+  });
+});
+
+// Multi-armed bandit parameters: true reward distributions and/or observed pull histories
+export const BanditDistributionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("bernoulli").describe("Rewards are 0 or 1"),
+    p: z.number().min(0).max(1).describe("Probability that a pull pays 1")
+  }),
+  z.object({
+    type: z.literal("gaussian").describe("Rewards are normally distributed"),
+    mean: z.number().describe("Mean reward of a pull"),
+    stdDev: z.number().positive().describe("Standard deviation of the reward")
+  })
+]);
+
+export const BanditHistorySchema = z.object({
+  pulls: z.number().int().min(0).describe("Number of times the arm was pulled"),
+  totalReward: z.number().describe("Sum of the rewards received from the arm"),
+  stdDev: z.number().positive().optional().describe("Reward noise standard deviation for gaussian arms; defaults to 1")
+});
+
+export const BanditArmSchema = z.object({
+  id: z.string().min(1).describe("Unique id of the arm"),
+  distribution: BanditDistributionSchema.optional().describe("True reward distribution, used to simulate the policy"),
+  history: BanditHistorySchema.optional().describe("Pulls already observed")
+});
+
+export const BanditParametersSchema = z.object({
+  arms: z.array(BanditArmSchema).min(2).describe("Arms to choose between; each needs a distribution or a history"),
+  policy: z.enum(["epsilon-greedy", "ucb1", "thompson"]).default("thompson").describe("Policy used to choose arms"),
+  epsilon: z.number().min(0).max(1).default(0.1).describe("Exploration rate for epsilon-greedy"),
+  rounds: z.number().int().min(0).max(100000).default(1000).describe("Number of pulls to simulate when every arm has a distribution"),
+  rewardModel: z.enum(["bernoulli", "gaussian"]).optional().describe("Reward model for arms that only have histories; defaults to the distribution type, else bernoulli")
+}).superRefine((bandit, ctx) => {
+  const ids = new Set<string>();
+  const distributionTypes = new Set<string>();
+
+  bandit.arms.forEach((arm, index) => {
+    if (ids.has(arm.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['arms', index, 'id'], message: `Duplicate arm "${arm.id}"` });
+    }
+    ids.add(arm.id);
+
+    if (!arm.distribution && !arm.history) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['arms', index], message: `Arm "${arm.id}" needs a distribution or a history` });
+    }
+    if (arm.distribution) {
+      distributionTypes.add(arm.distribution.type);
+    }
+  });
+
+  if (distributionTypes.size > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['arms'], message: 'All arm distributions must have the same type' });
+  }
+  const [distributionType] = distributionTypes;
+  if (bandit.rewardModel && distributionType && bandit.rewardModel !== distributionType) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['rewardModel'],
+      message: `Reward model "${bandit.rewardModel}" does not match ${distributionType} arm distributions`
+    });
+  }
+
+  if ((bandit.rewardModel ?? distributionType ?? 'bernoulli') === 'bernoulli') {
+    bandit.arms.forEach((arm, index) => {
+      if (arm.history && (arm.history.totalReward < 0 || arm.history.totalReward > arm.history.pulls)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['arms', index, 'history', 'totalReward'],
+          message: 'Bernoulli total reward must be between 0 and the number of pulls'
+        });
+      }
+    });
+  }
+});
+
+// Hidden Markov Model parameters; without matrices the model is fitted with Baum-Welch
+const ProbabilityVectorSchema = z.array(z.number().min(0).max(1));
+
+export const HmmParametersSchema = z.object({
+  states: z.array(z.string().min(1)).min(1).describe("Names of the hidden states"),
+  symbols: z.array(z.string().min(1)).min(1).optional().describe("Observation alphabet; defaults to the distinct observations"),
+  initial: ProbabilityVectorSchema.optional().describe("Initial probability of each state"),
+  transition: z.array(ProbabilityVectorSchema).optional().describe("transition[i][j] is the probability of moving from state i to state j"),
+  emission: z.array(ProbabilityVectorSchema).optional().describe("emission[i][k] is the probability that state i emits symbol k"),
+  observations: z.array(z.string().min(1)).min(1).describe("Observed symbol sequence"),
+  maxIterations: z.number().int().positive().max(10000).default(100).describe("Iteration limit for Baum-Welch fitting"),
+  tolerance: z.number().positive().default(1e-6).describe("Log-likelihood improvement below which Baum-Welch stops")
+}).superRefine((hmm, ctx) => {
+  const provided = [hmm.initial, hmm.transition, hmm.emission].filter(matrix => matrix !== undefined).length;
+  if (provided > 0 && provided < 3) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [],
+      message: 'Provide initial, transition and emission together, or none of them to fit the model with Baum-Welch'
+    });
+  }
+  if (hmm.emission && !hmm.symbols) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['symbols'], message: 'Symbols are required to read the emission matrix' });
+  }
+
+  const checkDistribution = (row: number[], length: number, path: (string | number)[]) => {
+    if (row.length !== length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Expected ${length} probabilities, received ${row.length}` });
+    } else {
+      const total = row.reduce((sum, probability) => sum + probability, 0);
+      if (Math.abs(total - 1) > PROBABILITY_TOLERANCE) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Probabilities sum to ${total.toFixed(3)}, expected 1` });
+      }
+    }
+  };
+  const checkMatrix = (matrix: number[][] | undefined, columns: number, name: string) => {
+    if (!matrix) return;
+    if (matrix.length !== hmm.states.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [name], message: `Expected ${hmm.states.length} rows, received ${matrix.length}` });
+    }
+    matrix.forEach((row, index) => checkDistribution(row, columns, [name, index]));
+  };
+
+  if (hmm.initial) {
+    checkDistribution(hmm.initial, hmm.states.length, ['initial']);
+  }
+  checkMatrix(hmm.transition, hmm.states.length, 'transition');
+  if (hmm.symbols) {
+    checkMatrix(hmm.emission, hmm.symbols.length, 'emission');
+    const symbols = new Set(hmm.symbols);
+    hmm.observations.forEach((observation, index) => {
+      if (!symbols.has(observation)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['observations', index], message: `Unknown symbol "${observation}"` });
+      }
+    });
+  }
+});
+
+// Gaussian-process Bayesian optimization parameters
+export const MAX_BAYESIAN_GRID_POINTS = 20000;
+// Fitting is cubic and each prediction quadratic in the number of observations
+export const MAX_BAYESIAN_OBSERVATIONS = 500;
+
+export const BayesianBoundSchema = z.object({
+  name: z.string().min(1).describe("Name of the input dimension"),
+  min: z.number().describe("Lower bound of the dimension"),
+  max: z.number().describe("Upper bound of the dimension")
+}).refine(bound => bound.min < bound.max, { message: 'min must be less than max' });
+
+export const BayesianObservationSchema = z.object({
+  x: z.array(z.number()).min(1).describe("Input point, one coordinate per bound"),
+  y: z.number().describe("Objective value observed at x")
 });
 
+export const BayesianParametersSchema = z.object({
+  bounds: z.array(BayesianBoundSchema).min(1).max(10).describe("Search space, one bound per input dimension"),
+  observations: z.array(BayesianObservationSchema).min(1).max(MAX_BAYESIAN_OBSERVATIONS).describe("Points already evaluated"),
+  kernel: z.enum(["rbf", "matern32", "matern52"]).default("matern52").describe("Covariance kernel of the Gaussian process"),
+  lengthScale: z.number().positive().default(0.2).describe("Kernel length scale, relative to each bound's range"),
+  signalVariance: z.number().positive().default(1).describe("Prior variance of the standardized objective"),
+  noiseVariance: z.number().min(0).default(0).describe("Observation noise variance, in the units of y squared"),
+  acquisitionFunction: z.enum(["expected_improvement", "upper_confidence_bound", "probability_of_improvement"]).default("expected_improvement").describe("Criterion used to pick the next point"),
+  goal: z.enum(["maximize", "minimize"]).default("maximize").describe("Whether to maximize or minimize the objective"),
+  kappa: z.number().min(0).default(2).describe("Exploration weight for upper_confidence_bound"),
+  xi: z.number().min(0).default(0.01).describe("Minimum improvement for expected and probability of improvement, in standardized units"),
+  gridSize: z.number().int().min(2).optional().describe("Grid points per dimension for the reported posterior"),
+  candidates: z.number().int().min(0).max(100000).default(1000).describe("Random points evaluated in addition to the grid when maximizing the acquisition")
+}).superRefine((optimization, ctx) => {
+  optimization.observations.forEach((observation, index) => {
+    if (observation.x.length !== optimization.bounds.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['observations', index, 'x'],
+        message: `Expected ${optimization.bounds.length} coordinates, received ${observation.x.length}`
+      });
+      return;
+    }
+    observation.x.forEach((value, dimension) => {
+      const bound = optimization.bounds[dimension];
+      if (value < bound.min || value > bound.max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['observations', index, 'x', dimension],
+          message: `${bound.name} = ${value} is outside [${bound.min}, ${bound.max}]`
+        });
+      }
+    });
+  });
+
+  if (optimization.gridSize !== undefined && optimization.gridSize ** optimization.bounds.length > MAX_BAYESIAN_GRID_POINTS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['gridSize'],
+      message: `A grid of ${optimization.gridSize}^${optimization.bounds.length} points exceeds ${MAX_BAYESIAN_GRID_POINTS}`
+    });
+  }
+});
+
+// Stochastic Algorithm Schema: one variant per algorithm, keyed on `algorithm`
+export const STOCHASTIC_ALGORITHM_ALIASES: Record<string, string> = {
+  "markov decision process": "mdp",
+  "monte carlo tree search": "mcts",
+  "multi-armed bandit": "bandit",
+  "bayesian optimization": "bayesian",
+  "hidden markov model": "hmm"
+};
+
+const algorithmVariant = <TAlgorithm extends string, TParameters extends z.ZodTypeAny>(
+  algorithm: TAlgorithm,
+  parameters: TParameters
+) => z.object({
+  algorithm: z.literal(algorithm).describe("Algorithm to run"),
+  problem: z.string().min(1).describe("Problem the algorithm is applied to"),
+  parameters,
+  seed: z.number().int().min(0).max(0xffffffff).optional().describe("Seed for the random number generator; reuse it to reproduce a run"),
+  result: z.string().optional().describe("Result already obtained, if any")
+});
+
+export const MdpAlgorithmSchema = algorithmVariant("mdp",
+  MdpParametersSchema.describe("Markov decision process to solve for an optimal policy"));
+export const MctsAlgorithmSchema = algorithmVariant("mcts",
+  MctsParametersSchema.describe("Game or decision tree to search from the root"));
+export const BanditAlgorithmSchema = algorithmVariant("bandit",
+  BanditParametersSchema.describe("Arms to simulate or analyze with the chosen policy"));
+export const BayesianAlgorithmSchema = algorithmVariant("bayesian",
+  BayesianParametersSchema.describe("Search space and observations for choosing the next point to evaluate"));
+export const HmmAlgorithmSchema = algorithmVariant("hmm",
+  HmmParametersSchema.describe("Hidden Markov model and observations to decode; omit the matrices to fit them"));
+
+// Accept full algorithm names and any casing before discriminating
+const normalizeAlgorithm = (input: unknown): unknown => {
+  if (typeof input !== 'object' || input === null || typeof (input as { algorithm?: unknown }).algorithm !== 'string') {
+    return input;
+  }
+  const algorithm = (input as { algorithm: string }).algorithm.trim().toLowerCase();
+  return { ...input, algorithm: STOCHASTIC_ALGORITHM_ALIASES[algorithm] ?? algorithm };
+};
+
+export const StochasticAlgorithmSchema = z.preprocess(
+  normalizeAlgorithm,
+  z.discriminatedUnion("algorithm", [
+    MdpAlgorithmSchema,
+    MctsAlgorithmSchema,
+    BanditAlgorithmSchema,
+    BayesianAlgorithmSchema,
+    HmmAlgorithmSchema
+  ])
+);
+
+export const StochasticAlgorithmOutputSchema = ToolResultSchema.extend({
+  algorithm: z.enum(["mdp", "mcts", "bandit", "bayesian", "hmm"]).describe("Algorithm that was run"),
+  problem: z.string().describe("Problem the algorithm was applied to"),
+  hasResult: z.boolean().describe("Whether a summary was produced"),
+  parameterCount: z.number().int().describe("Number of top-level parameters after defaults were applied"),
+  seed: z.number().int().describe("Seed the run used; pass it back to replay the run"),
+  result: z.string().describe("One-line summary of the solution"),
+  solution: z.record(z.unknown()).describe("Algorithm-specific solution, e.g. the MDP policy or the bandit arm estimates")
+});
+
+// Example payloads advertised with the tool definition, one per algorithm
+export const StochasticAlgorithmExamples: Array<
+  | z.input<typeof MdpAlgorithmSchema>
+  | z.input<typeof MctsAlgorithmSchema>
+  | z.input<typeof BanditAlgorithmSchema>
+  | z.input<typeof BayesianAlgorithmSchema>
+  | z.input<typeof HmmAlgorithmSchema>
+> = [
+  {
+    algorithm: "mdp",
+    problem: "When to scale out a service",
+    parameters: {
+      states: ["idle", "busy"],
+      actions: ["scale", "hold"],
+      transitions: [
+        { state: "idle", action: "hold", nextState: "idle", probability: 0.7, reward: 1 },
+        { state: "idle", action: "hold", nextState: "busy", probability: 0.3, reward: 1 },
+        { state: "idle", action: "scale", nextState: "idle", probability: 1, reward: -1 },
+        { state: "busy", action: "hold", nextState: "busy", probability: 1, reward: -5 },
+        { state: "busy", action: "scale", nextState: "idle", probability: 1, reward: -2 }
+      ],
+      gamma: 0.9
+    }
+  },
+  {
+    algorithm: "mcts",
+    problem: "Pick an opening",
+    parameters: {
+      root: "open",
+      states: [
+        { id: "open", actions: [{ name: "attack", next: "exposed" }, { name: "defend", next: "solid" }] },
+        { id: "exposed", player: "min", actions: [{ name: "counter", next: "lost" }, { name: "retreat", next: "won" }] },
+        { id: "solid", player: "min", actions: [{ name: "probe", next: "drawn" }] },
+        { id: "won", reward: 1 },
+        { id: "lost", reward: -1 },
+        { id: "drawn", reward: 0 }
+      ],
+      iterations: 1000
+    },
+    seed: 42
+  },
+  {
+    algorithm: "bandit",
+    problem: "Allocate checkout traffic",
+    parameters: {
+      arms: [
+        { id: "control", history: { pulls: 400, totalReward: 20 } },
+        { id: "variant", history: { pulls: 400, totalReward: 36 } }
+      ],
+      policy: "thompson"
+    }
+  },
+  {
+    algorithm: "bayesian",
+    problem: "Tune the learning rate",
+    parameters: {
+      bounds: [{ name: "learningRate", min: 0.001, max: 0.1 }],
+      observations: [{ x: [0.001], y: 0.71 }, { x: [0.05], y: 0.83 }, { x: [0.1], y: 0.64 }],
+      acquisitionFunction: "expected_improvement"
+    }
+  },
+  {
+    algorithm: "hmm",
+    problem: "Infer patient condition from symptoms",
+    parameters: {
+      states: ["healthy", "fever"],
+      symbols: ["normal", "cold", "dizzy"],
+      initial: [0.6, 0.4],
+      transition: [[0.7, 0.3], [0.4, 0.6]],
+      emission: [[0.5, 0.4, 0.1], [0.1, 0.3, 0.6]],
+      observations: ["normal", "cold", "dizzy"]
+    }
+  }
+];
+
 // Type exports for TypeScript
-export type StochasticAlgorithmData = z.infer<typeof StochasticAlgorithmSchema>;
\ No newline at end of file
+export type StochasticAlgorithmData = z.infer<typeof StochasticAlgorithmSchema>;
+export type StochasticAlgorithmOutput = z.infer<typeof StochasticAlgorithmOutputSchema>;
+export type MdpParameters = z.infer<typeof MdpParametersSchema>;
+export type MctsParameters = z.infer<typeof MctsParametersSchema>;
+export type BanditParameters = z.infer<typeof BanditParametersSchema>;
+export type HmmParameters = z.infer<typeof HmmParametersSchema>;
+export type BayesianParameters = z.infer<typeof BayesianParametersSchema>;
@@ -1,21 +1,154 @@
 import { z } from 'zod';
+import { ToolResultSchema } from './ToolSchemas.js';
+
+// Toulmin model of an argument; the claim is the argument's own claim
+export const ToulminSchema = z.object({
+  data: z.array(z.string().min(1)).optional().describe("Facts or evidence the claim rests on"),
+  warrant: z.string().min(1).optional().describe("Why the data supports the claim"),
+  backing: z.string().min(1).optional().describe("Support for the warrant itself"),
+  qualifier: z.string().min(1).optional().describe("How strongly the claim is asserted, e.g. \"probably\" or \"in most cases\""),
+  rebuttal: z.string().min(1).optional().describe("Conditions under which the claim would not hold")
+});
 
 // Structured Argumentation Schema
 export const StructuredArgumentationSchema = z.object({
-  claim: z.string(),
-  premises: z.array(z.string()),
-  conclusion: z.string(),
-  argumentId: z.string().optional(),
-  argumentType: z.enum(["thesis", "antithesis", "synthesis", "objection", "rebuttal"]),
-  confidence: z.number().min(0).max(1),
-  respondsTo: z.string().optional(),
-  supports: z.array(z.string()).optional(),
-  contradicts: z.array(z.string()).optional(),
-  strengths: z.array(z.string()).optional(),
-  weaknesses: z.array(z.string()).optional(),
-  nextArgumentNeeded: z.boolean(),
-  suggestedNextTypes: z.array(z.enum(["thesis", "antithesis", "synthesis", "objection", "rebuttal"])).optional()
+  claim: z.string().describe("Central claim of the argument"),
+  premises: z.array(z.string()).describe("Premises offered in support of the claim"),
+  conclusion: z.string().describe("Conclusion drawn from the premises"),
+  argumentId: z.string().optional().describe("Identifier other arguments can refer to"),
+  debateId: z.string().optional().describe("Debate the argument belongs to; omit to use the debate of the connection (the default debate over stdio)"),
+  argumentType: z.enum(["thesis", "antithesis", "synthesis", "objection", "rebuttal"]).describe("Role of the argument in the debate"),
+  confidence: z.number().min(0).max(1).describe("Confidence in the argument, from 0 to 1"),
+  respondsTo: z.string().optional().describe("Identifier of an earlier argument in the same debate that this one answers; required for every type but thesis"),
+  supports: z.array(z.string()).optional().describe("Identifiers of arguments this one supports"),
+  contradicts: z.array(z.string()).optional().describe("Identifiers of arguments this one contradicts"),
+  strengths: z.array(z.string()).optional().describe("Strong points of the argument"),
+  weaknesses: z.array(z.string()).optional().describe("Weak points of the argument"),
+  toulmin: ToulminSchema.optional().describe("Toulmin breakdown of the argument; complete when data, warrant, backing, qualifier and rebuttal are all given"),
+  nextArgumentNeeded: z.boolean().describe("Whether the debate should continue with another argument")
+});
+
+// Structured Argumentation results
+export const ToulminElementSchema = z.enum(["data", "warrant", "backing", "qualifier", "rebuttal"]);
+
+export const ToulminOutputSchema = z.object({
+  complete: z.boolean().describe("Whether every Toulmin element was given"),
+  presentElements: z.array(ToulminElementSchema).describe("Toulmin elements that were given"),
+  missingElements: z.array(ToulminElementSchema).describe("Toulmin elements still needed for a complete argument")
+});
+
+export const DetectedFallacyOutputSchema = z.object({
+  type: z.enum(["circular-reasoning", "appeal-to-authority", "false-dichotomy", "unsupported-universal"]).describe("Kind of fallacy or weak premise"),
+  field: z.string().describe("Field the text came from: claim, conclusion or premises.<index>"),
+  span: z.object({
+    start: z.number().int().describe("Offset of the first flagged character in the field"),
+    end: z.number().int().describe("Offset just past the last flagged character"),
+    text: z.string().describe("Flagged text")
+  }).describe("Location of the flagged text"),
+  explanation: z.string().describe("Why the text was flagged and how to strengthen it")
 });
 
+const ArgumentStatusSchema = z.enum(["accepted", "defeated", "undecided"]);
+
+export const ArgumentGraphOutputSchema = z.object({
+  arguments: z.array(z.object({
+    argumentId: z.string().describe("Id of the argument"),
+    argumentType: StructuredArgumentationSchema.shape.argumentType,
+    claim: z.string().describe("Claim of the argument"),
+    confidence: z.number().describe("Confidence in the argument, from 0 to 1"),
+    respondsTo: z.string().optional().describe("Id of the argument this one answers"),
+    status: ArgumentStatusSchema.describe("Whether the claim stands, is defeated or is undecided under grounded semantics"),
+    attackedBy: z.array(z.string()).describe("Ids of the arguments attacking this one")
+  })).describe("Arguments of the debate in the order they were made"),
+  attacks: z.array(z.object({
+    from: z.string().describe("Id of the attacking argument"),
+    to: z.string().describe("Id of the attacked argument")
+  })).describe("Attacks from contradictions and from antitheses, objections and rebuttals"),
+  supports: z.array(z.object({
+    from: z.string().describe("Id of the supporting argument"),
+    to: z.string().describe("Id of the supported argument")
+  })).describe("Support relations, which do not affect acceptability"),
+  extensions: z.object({
+    grounded: z.array(z.string()).describe("The least complete extension: arguments accepted by every reasonable position"),
+    preferred: z.array(z.array(z.string())).optional().describe("Maximal admissible sets; omitted when the search is too large"),
+    stable: z.array(z.array(z.string())).optional().describe("Conflict-free sets that attack every argument outside them; omitted when the search is too large")
+  }).describe("Dung extensions of the debate"),
+  accepted: z.array(z.string()).describe("Ids of the arguments whose claims currently stand"),
+  defeated: z.array(z.string()).describe("Ids of the arguments currently defeated"),
+  undecided: z.array(z.string()).describe("Ids of the arguments neither standing nor defeated"),
+  unanswered: z.array(z.string()).describe("Ids of the arguments nobody has responded to or contradicted yet"),
+  warnings: z.array(z.string()).describe("Problems found in the debate, such as references to unknown arguments")
+});
+
+export const StructuredArgumentationOutputSchema = ToolResultSchema.extend({
+  claim: z.string().describe("Central claim of the argument"),
+  argumentId: z.string().describe("Identifier of the argument in the debate, generated from its position when none was given"),
+  debateId: z.string().describe("Debate the argument was added to"),
+  argumentType: StructuredArgumentationSchema.shape.argumentType,
+  argumentStatus: ArgumentStatusSchema.describe("Whether this argument stands after it was added"),
+  turn: z.number().int().describe("Number of arguments made in the debate so far, including this one"),
+  debateStage: z.enum(["opening", "contested", "answered", "synthesized"])
+    .describe("Dialectical stage: nothing challenged yet, a challenge still open, every challenge answered, or drawn together by a synthesis"),
+  suggestedNextTypes: z.array(StructuredArgumentationSchema.shape.argumentType).describe("Argument types that would move the debate forward, computed from the debate graph"),
+  confidence: z.number().describe("Confidence in the argument, from 0 to 1"),
+  nextArgumentNeeded: z.boolean().describe("Whether the debate should continue"),
+  premiseCount: z.number().int().describe("Number of premises"),
+  hasConclusion: z.boolean().describe("Whether a conclusion was given"),
+  strengthCount: z.number().int().describe("Number of strengths listed"),
+  weaknessCount: z.number().int().describe("Number of weaknesses listed"),
+  toulmin: ToulminOutputSchema.optional().describe("Completeness of the Toulmin breakdown, when one was given"),
+  fallacies: z.array(DetectedFallacyOutputSchema).describe("Fallacies and weak premises found in the claim, premises and conclusion"),
+  argumentGraph: ArgumentGraphOutputSchema.describe("Attack graph of the debate and the acceptability of every argument in it")
+});
+
+// Example payloads advertised with the tool definition
+export const StructuredArgumentationExamples: z.input<typeof StructuredArgumentationSchema>[] = [
+  {
+    claim: "We should move to microservices",
+    premises: [
+      "Teams block each other when releasing the monolith",
+      "Independent services can be deployed independently"
+    ],
+    conclusion: "Splitting into services will speed up releases",
+    argumentId: "thesis-1",
+    debateId: "architecture",
+    argumentType: "thesis",
+    confidence: 0.7,
+    nextArgumentNeeded: true
+  },
+  {
+    claim: "Microservices add more operational cost than they save",
+    premises: ["Each service needs its own deployment, monitoring and on-call"],
+    conclusion: "Release speed gains are eaten by operational overhead",
+    argumentId: "antithesis-1",
+    debateId: "architecture",
+    argumentType: "antithesis",
+    confidence: 0.6,
+    respondsTo: "thesis-1",
+    contradicts: ["thesis-1"],
+    nextArgumentNeeded: true
+  },
+  {
+    claim: "The checkout service should get its own database",
+    premises: ["Checkout queries lock tables other services read"],
+    conclusion: "Separating the database removes the lock contention",
+    argumentId: "thesis-2",
+    debateId: "checkout-review",
+    argumentType: "thesis",
+    confidence: 0.75,
+    toulmin: {
+      data: ["Lock waits on the shared orders table peak during checkout traffic"],
+      warrant: "Contention disappears when writers no longer share tables with readers",
+      backing: "The same split removed lock waits from the payments service last year",
+      qualifier: "Very likely",
+      rebuttal: "Unless checkout still needs cross-service transactions on orders"
+    },
+    nextArgumentNeeded: true
+  }
+];
+
 // Type exports for TypeScript
-export type StructuredArgumentationData = z.infer<typeof StructuredArgumentationSchema>;
\ No newline at end of file
+export type StructuredArgumentationData = z.infer<typeof StructuredArgumentationSchema>;
+export type ToulminData = z.infer<typeof ToulminSchema>;
+export type ToulminElement = z.infer<typeof ToulminElementSchema>;
+export type StructuredArgumentationOutput = z.infer<typeof StructuredArgumentationOutputSchema>;
\ No newline at end of file
@@ -2,26 +2,33 @@ import { z } from 'zod';
 
 // Schema for ToolRecommendation
 export const ToolRecommendationSchema = z.object({
-  toolName: z.string(),
-  confidence: z.number().min(0).max(1), // 0.0-1.0
-  rationale: z.string(),
-  priority: z.number(),
-  alternativeTools: z.array(z.string()).optional(),
+  toolName: z.string().describe("Name of the recommended tool"),
+  confidence: z.number().min(0).max(1).describe("Confidence that this tool fits the step, from 0 to 1"), // 0.0-1.0
+  rationale: z.string().describe("Why this tool is recommended"),
+  priority: z.number().describe("Order in which to use the tool; lower runs first"),
+  alternativeTools: z.array(z.string()).optional().describe("Tools that could be used instead"),
 });
 
 // Schema for tool usage history entry
 export const ToolUsageHistorySchema = z.object({
-  toolName: z.string(),
-  usedAt: z.string(),
-  effectivenessScore: z.number().optional(),
+  toolName: z.string().describe("Name of the tool that was used"),
+  usedAt: z.string().describe("When the tool was used, as an ISO 8601 timestamp"),
+  effectivenessScore: z.number().optional().describe("Score for how well the tool worked"),
 });
 
 // Schema for ToolContext
 export const ToolContextSchema = z.object({
-  availableTools: z.array(z.string()),
-  userPreferences: z.record(z.any()).optional(),
-  sessionHistory: z.array(z.string()).optional(),
-  problemDomain: z.string().optional(),
+  availableTools: z.array(z.string()).describe("Names of the tools that can be recommended"),
+  userPreferences: z.record(z.any()).optional().describe("Free-form user preferences keyed by name"),
+  sessionHistory: z.array(z.string()).optional().describe("Earlier messages or actions in the session"),
+  problemDomain: z.string().optional().describe("Domain of the problem, e.g. \"frontend\" or \"data\""),
+});
+
+// Fields every successful tool result carries; tools extend it with their own output
+export const ToolResultSchema = z.object({
+  status: z.literal('success').describe("Always \"success\"; failed calls are reported with isError instead"),
+  timestamp: z.string().describe("When the result was produced, as an ISO 8601 timestamp"),
+  framework: z.literal('clear-thought-tools').describe("Framework that produced the result"),
 });
 
 // Type inference for TypeScript
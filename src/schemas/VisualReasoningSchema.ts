@@ -1,29 +1,71 @@
 import { z } from 'zod';
+import { ToolResultSchema } from './ToolSchemas.js';
 
 // Visual Reasoning Schema
 export const VisualElementSchema = z.object({
-  id: z.string(),
-  type: z.enum(["node", "edge", "container", "annotation"]),
-  label: z.string().optional(),
-  properties: z.record(z.unknown()),
-  source: z.string().optional(),
-  target: z.string().optional(),
-  contains: z.array(z.string()).optional()
+  id: z.string().describe("Unique identifier of the element within the diagram"),
+  type: z.enum(["node", "edge", "container", "annotation"]).describe("Kind of element"),
+  label: z.string().optional().describe("Text shown on the element"),
+  properties: z.record(z.unknown()).describe("Free-form visual or domain attributes, e.g. color or position"),
+  source: z.string().optional().describe("For edges, the id of the element the edge starts from"),
+  target: z.string().optional().describe("For edges, the id of the element the edge points to"),
+  contains: z.array(z.string()).optional().describe("For containers, the ids of the elements inside")
 });
 
 export const VisualReasoningSchema = z.object({
-  operation: z.enum(["create", "update", "delete", "transform", "observe"]),
-  elements: z.array(VisualElementSchema).optional(),
-  transformationType: z.enum(["rotate", "move", "resize", "recolor", "regroup"]).optional(),
-  diagramId: z.string(),
-  diagramType: z.enum(["graph", "flowchart", "stateDiagram", "conceptMap", "treeDiagram", "custom"]),
-  iteration: z.number(),
-  observation: z.string().optional(),
-  insight: z.string().optional(),
-  hypothesis: z.string().optional(),
-  nextOperationNeeded: z.boolean()
+  operation: z.enum(["create", "update", "delete", "transform", "observe"])
+    .describe("Operation to apply to the stored diagram: create adds elements, update changes existing ones, transform changes only what transformationType names, delete removes them, observe changes nothing"),
+  elements: z.array(VisualElementSchema).optional().describe("Elements the operation applies to; edges must join existing nodes and containers must contain existing elements"),
+  transformationType: z.enum(["rotate", "move", "resize", "recolor", "regroup"]).optional().describe("Kind of transformation, required for the transform operation: move sets x, y or position, resize sets width, height, size or scale, rotate sets rotation or angle, recolor sets color, fill or stroke, and regroup replaces a container's contains"),
+  diagramId: z.string().describe("Identifier of the diagram being worked on"),
+  diagramType: z.enum(["graph", "flowchart", "stateDiagram", "conceptMap", "treeDiagram", "custom"]).describe("Kind of diagram"),
+  iteration: z.number().describe("Number of this operation in the sequence, starting at 1"),
+  observation: z.string().optional().describe("What stands out in the diagram"),
+  insight: z.string().optional().describe("Insight gained from the diagram"),
+  hypothesis: z.string().optional().describe("Hypothesis suggested by the diagram"),
+  nextOperationNeeded: z.boolean().describe("Whether another operation should follow")
 });
 
+export const VisualReasoningOutputSchema = ToolResultSchema.extend({
+  diagramId: z.string().describe("Identifier of the diagram"),
+  diagramType: VisualReasoningSchema.shape.diagramType,
+  operation: VisualReasoningSchema.shape.operation,
+  iteration: z.number().describe("Number of the operation in the sequence"),
+  nextOperationNeeded: z.boolean().describe("Whether another operation should follow"),
+  elementCount: z.number().int().describe("Number of elements the operation applied to"),
+  hasObservation: z.boolean().describe("Whether an observation was given"),
+  hasInsight: z.boolean().describe("Whether an insight was given"),
+  hasHypothesis: z.boolean().describe("Whether a hypothesis was given"),
+  transformationType: VisualReasoningSchema.shape.transformationType,
+  removedElementIds: z.array(z.string()).optional().describe("Ids removed by a delete, including attached edges"),
+  diagram: z.object({
+    elements: z.array(VisualElementSchema).describe("Every element of the diagram after the operation"),
+    nodeCount: z.number().int().describe("Number of nodes"),
+    edgeCount: z.number().int().describe("Number of edges"),
+    containerCount: z.number().int().describe("Number of containers"),
+    annotationCount: z.number().int().describe("Number of annotations")
+  }).describe("State of the stored diagram after the operation")
+});
+
+// Example payloads advertised with the tool definition
+export const VisualReasoningExamples: z.input<typeof VisualReasoningSchema>[] = [
+  {
+    operation: "create",
+    elements: [
+      { id: "api", type: "node", label: "API gateway", properties: { color: "blue" } },
+      { id: "db", type: "node", label: "Database", properties: {} },
+      { id: "api-db", type: "edge", source: "api", target: "db", properties: { label: "reads" } },
+      { id: "backend", type: "container", label: "Backend", properties: {}, contains: ["api", "db"] }
+    ],
+    diagramId: "service-topology",
+    diagramType: "graph",
+    iteration: 1,
+    observation: "Every request goes through one database",
+    nextOperationNeeded: true
+  }
+];
+
 // Type exports for TypeScript
 export type VisualReasoningData = z.infer<typeof VisualReasoningSchema>;
+export type VisualReasoningOutput = z.infer<typeof VisualReasoningOutputSchema>;
 export type VisualElementData = z.infer<typeof VisualElementSchema>;
\ No newline at end of file
@@ -1,17 +1,17 @@
 import { BaseToolServer } from '../base/BaseToolServer.js';
-import { CollaborativeReasoningSchema, CollaborativeReasoningData } from '../schemas/index.js';
+import { CollaborativeReasoningSchema, CollaborativeReasoningOutputSchema, CollaborativeReasoningData, CollaborativeReasoningOutput } from '../schemas/index.js';
 import { boxed } from '../utils/index.js';
 
 /**
  * Collaborative Reasoning Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class CollaborativeReasoningServer extends BaseToolServer<CollaborativeReasoningData, any> {
+export class CollaborativeReasoningServer extends BaseToolServer<CollaborativeReasoningData, CollaborativeReasoningOutput> {
   constructor() {
-    super(CollaborativeReasoningSchema);
+    super(CollaborativeReasoningSchema, CollaborativeReasoningOutputSchema);
   }
 
-  protected handle(validInput: CollaborativeReasoningData): any {
+  protected handle(validInput: CollaborativeReasoningData): CollaborativeReasoningOutput {
     return this.process(validInput);
   }
 
@@ -20,7 +20,7 @@ export class CollaborativeReasoningServer extends BaseToolServer<CollaborativeRe
    * @param validInput - Validated collaborative reasoning data
    * @returns Processed collaborative reasoning result
    */
-  public process(validInput: CollaborativeReasoningData): any {
+  public process(validInput: CollaborativeReasoningData): CollaborativeReasoningOutput {
     // Format output using boxed utility
     const formattedOutput = this.formatCollaborativeOutput(validInput);
 
@@ -1,17 +1,17 @@
 import { BaseToolServer } from '../base/BaseToolServer.js';
-import { DebuggingApproachSchema, DebuggingApproachData } from '../schemas/index.js';
+import { DebuggingApproachSchema, DebuggingApproachOutputSchema, DebuggingApproachData, DebuggingApproachOutput } from '../schemas/index.js';
 import { boxed } from '../utils/index.js';
 
 /**
  * Debugging Approach Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class DebuggingApproachServer extends BaseToolServer<DebuggingApproachData, any> {
+export class DebuggingApproachServer extends BaseToolServer<DebuggingApproachData, DebuggingApproachOutput> {
   constructor() {
-    super(DebuggingApproachSchema);
+    super(DebuggingApproachSchema, DebuggingApproachOutputSchema);
   }
 
-  protected handle(validInput: DebuggingApproachData): any {
+  protected handle(validInput: DebuggingApproachData): DebuggingApproachOutput {
     return this.process(validInput);
   }
 
@@ -20,7 +20,7 @@ export class DebuggingApproachServer extends BaseToolServer<DebuggingApproachDat
    * @param validInput - Validated debugging approach data
    * @returns Processed debugging approach result
    */
-  public process(validInput: DebuggingApproachData): any {
+  public process(validInput: DebuggingApproachData): DebuggingApproachOutput {
     // Format output using boxed utility
     const formattedOutput = this.formatDebuggingOutput(validInput);
 
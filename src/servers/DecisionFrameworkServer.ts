@@ -1,17 +1,30 @@
 import { BaseToolServer } from '../base/BaseToolServer.js';
-import { DecisionFrameworkSchema, DecisionFrameworkData } from '../schemas/index.js';
+import { DecisionFrameworkSchema, DecisionFrameworkOutputSchema, DecisionFrameworkData, DecisionFrameworkOutput } from '../schemas/index.js';
 import { boxed } from '../utils/index.js';
+import { SessionManager, sessionManager as defaultSessionManager } from '../services/SessionManager.js';
+import { analyzeOutcomes, OutcomeAnalysisResult } from '../algorithms/decisionAnalysis.js';
+import { analyzeMultiCriteria, MultiCriteriaResult } from '../algorithms/multiCriteria.js';
+import { weightSensitivity, probabilitySensitivity, SensitivityResult } from '../algorithms/sensitivity.js';
+import { analyzeValueOfInformation, ValueOfInformationResult } from '../algorithms/valueOfInformation.js';
+
+type DecisionAnalysis = OutcomeAnalysisResult | MultiCriteriaResult;
 
 /**
  * Decision Framework Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class DecisionFrameworkServer extends BaseToolServer<DecisionFrameworkData, any> {
-  constructor() {
-    super(DecisionFrameworkSchema);
+export class DecisionFrameworkServer extends BaseToolServer<DecisionFrameworkData, DecisionFrameworkOutput> {
+  private sessionManager: SessionManager;
+
+  /**
+   * @param sessionManager - Store that keeps each decision by decisionId (defaults to the shared instance)
+   */
+  constructor(sessionManager: SessionManager = defaultSessionManager) {
+    super(DecisionFrameworkSchema, DecisionFrameworkOutputSchema);
+    this.sessionManager = sessionManager;
   }
 
-  protected handle(validInput: DecisionFrameworkData): any {
+  protected handle(validInput: DecisionFrameworkData): DecisionFrameworkOutput {
     return this.process(validInput);
   }
 
@@ -20,16 +33,21 @@ export class DecisionFrameworkServer extends BaseToolServer<DecisionFrameworkDat
    * @param validInput - Validated decision framework data
    * @returns Processed decision framework result
    */
-  public process(validInput: DecisionFrameworkData): any {
+  public process(validInput: DecisionFrameworkData): DecisionFrameworkOutput {
+    // Compute the decision rule from outcomes or criteria evaluations
+    const analysis = this.analyze(validInput);
+    const sensitivity = analysis ? this.analyzeSensitivity(validInput) : undefined;
+    const valueOfInformation = this.analyzeInformationGaps(validInput);
+
     // Format output using boxed utility
-    const formattedOutput = this.formatDecisionOutput(validInput);
+    const formattedOutput = this.formatDecisionOutput(validInput, analysis, sensitivity, valueOfInformation);
 
     // Log formatted output to console (suppress during tests)
     if (process.env.NODE_ENV !== 'test' && process.env.JEST_WORKER_ID === undefined) {
       console.error(formattedOutput);
     }
 
-    return {
+    const result: DecisionFrameworkOutput = {
       decisionStatement: validInput.decisionStatement,
       decisionId: validInput.decisionId,
       analysisType: validInput.analysisType,
@@ -40,12 +58,75 @@ export class DecisionFrameworkServer extends BaseToolServer<DecisionFrameworkDat
       optionCount: validInput.options.length,
       criteriaCount: validInput.criteria?.length ?? 0,
       hasRecommendation: !!validInput.recommendation,
+      expectedValues: (analysis && 'expectedValues' in analysis) ? analysis.expectedValues : validInput.expectedValues,
+      multiCriteriaScores: (analysis && 'scores' in analysis) ? analysis.scores : validInput.multiCriteriaScores,
+      analysis,
+      sensitivity,
+      sensitivityInsights: sensitivity?.insights ?? validInput.sensitivityInsights,
+      valueOfInformation,
       timestamp: new Date().toISOString(),
       framework: 'clear-thought-tools'
     };
+
+    // Keep the decision so it can be read back as a resource
+    this.sessionManager.addRecordEntry('decision', validInput.decisionId, { at: result.timestamp, input: validInput, result });
+
+    return result;
+  }
+
+  private analyze(data: DecisionFrameworkData): DecisionAnalysis | undefined {
+    if (data.analysisType === 'multi-criteria') {
+      if (!data.criteria || data.criteria.length === 0 || !data.criteriaEvaluations || data.criteriaEvaluations.length === 0) {
+        return undefined;
+      }
+
+      return analyzeMultiCriteria(
+        data.options,
+        data.criteria,
+        data.criteriaEvaluations,
+        data.multiCriteriaMethod ?? 'weighted-sum',
+        data.pairwiseComparisons
+      );
+    }
+
+    if (!data.possibleOutcomes || data.possibleOutcomes.length === 0) {
+      return undefined;
+    }
+
+    return analyzeOutcomes(data.options, data.possibleOutcomes, data.analysisType, data.aspirationLevel);
+  }
+
+  /**
+   * Tipping points for the parameters the chosen rule depends on: criterion
+   * weights for weighted-sum and TOPSIS, outcome probabilities for expected utility
+   */
+  private analyzeSensitivity(data: DecisionFrameworkData): SensitivityResult | undefined {
+    const method = data.multiCriteriaMethod ?? 'weighted-sum';
+    if (data.analysisType === 'multi-criteria' && method !== 'ahp') {
+      return weightSensitivity(data.options, data.criteria!, data.criteriaEvaluations!, method);
+    }
+
+    if (data.analysisType === 'expected-utility') {
+      return probabilitySensitivity(data.options, data.possibleOutcomes!, data.analysisType);
+    }
+
+    return undefined;
+  }
+
+  private analyzeInformationGaps(data: DecisionFrameworkData): ValueOfInformationResult | undefined {
+    if (!data.informationGaps || data.informationGaps.length === 0 || !data.possibleOutcomes || data.possibleOutcomes.length === 0) {
+      return undefined;
+    }
+
+    return analyzeValueOfInformation(data.options, data.possibleOutcomes, data.informationGaps);
   }
 
-  private formatDecisionOutput(data: DecisionFrameworkData): string {
+  private formatDecisionOutput(
+    data: DecisionFrameworkData,
+    analysis?: DecisionAnalysis,
+    sensitivity?: SensitivityResult,
+    valueOfInformation?: ValueOfInformationResult
+  ): string {
     const sections: Record<string, string | string[]> = {
       'Decision': data.decisionStatement,
       'Analysis Type': data.analysisType.replace('-', ' ').toUpperCase(),
@@ -86,29 +167,77 @@ export class DecisionFrameworkServer extends BaseToolServer<DecisionFrameworkDat
     }
 
     // Expected values
-    if (data.expectedValues && Object.keys(data.expectedValues).length > 0) {
-      sections['Expected Values'] = Object.entries(data.expectedValues).map(([option, value]) =>
+    const expectedValues = (analysis && 'expectedValues' in analysis) ? analysis.expectedValues : data.expectedValues;
+    if (expectedValues && Object.keys(expectedValues).length > 0) {
+      sections['Expected Values'] = Object.entries(expectedValues).map(([option, value]) =>
         `• ${option}: ${value.toFixed(3)}`
       );
     }
 
+    // Computed ranking
+    if (analysis && analysis.ranking.length > 0) {
+      sections['Ranking'] = analysis.ranking.map(entry => {
+        let line = `${entry.rank}. ${entry.optionName}: score ${entry.score.toFixed(3)}`;
+        if ('maxRegret' in entry && entry.maxRegret !== undefined) {
+          line += ` (max regret ${entry.maxRegret.toFixed(3)})`;
+        }
+        if ('satisfices' in entry && entry.satisfices !== undefined) {
+          line += entry.satisfices ? ' (satisfices)' : ' (below aspiration)';
+        }
+        return line;
+      });
+    }
+
+    if (analysis && analysis.warnings.length > 0) {
+      sections['Analysis Warnings'] = analysis.warnings.map(warning => `• ${warning}`);
+    }
+
     // Multi-criteria scores
-    if (data.multiCriteriaScores && Object.keys(data.multiCriteriaScores).length > 0) {
-      sections['Multi-Criteria Scores'] = Object.entries(data.multiCriteriaScores).map(([option, score]) =>
+    const multiCriteriaScores = (analysis && 'scores' in analysis) ? analysis.scores : data.multiCriteriaScores;
+    if (multiCriteriaScores && Object.keys(multiCriteriaScores).length > 0) {
+      sections['Multi-Criteria Scores'] = Object.entries(multiCriteriaScores).map(([option, score]) =>
         `• ${option}: ${score.toFixed(3)}`
       );
     }
 
+    if (analysis && 'criterionWeights' in analysis) {
+      sections['Criterion Weights'] = Object.entries(analysis.criterionWeights).map(([criterion, weight]) =>
+        `• ${criterion}: ${(weight * 100).toFixed(1)}%`
+      );
+
+      if (analysis.consistency) {
+        sections['AHP Consistency'] = `CR ${analysis.consistency.consistencyRatio.toFixed(3)} (${analysis.consistency.isConsistent ? 'consistent' : 'inconsistent'})`;
+      }
+
+      sections['Criterion Contributions'] = analysis.ranking.map(entry =>
+        `• ${entry.optionName}: ` + Object.entries(entry.contributions)
+          .map(([criterion, value]) => `${criterion} ${value.toFixed(3)}`)
+          .join(', ')
+      );
+    }
+
     // Information gaps
-    if (data.informationGaps && data.informationGaps.length > 0) {
+    if (valueOfInformation) {
+      sections['EVPI'] = valueOfInformation.evpi.toFixed(3);
+      sections['Information Gaps'] = valueOfInformation.gaps.map(gap => {
+        const value = gap.evsi !== undefined ? `EVSI ${gap.evsi.toFixed(3)}` : `EVPI ${gap.evpi.toFixed(3)}`;
+        const cost = gap.cost !== undefined ? `, cost ${gap.cost.toFixed(3)}` : '';
+        return `${gap.rank}. ${gap.description} (${value}${cost}): ${gap.worthResearching ? 'worth researching' : 'not worth researching'}`;
+      });
+    } else if (data.informationGaps && data.informationGaps.length > 0) {
       sections['Information Gaps'] = data.informationGaps.map(gap =>
         `• ${gap.description} (impact: ${(gap.impact * 100).toFixed(0)}%)`
       );
     }
 
     // Sensitivity insights
-    if (data.sensitivityInsights && data.sensitivityInsights.length > 0) {
-      sections['Sensitivity Insights'] = data.sensitivityInsights.map(insight => `• ${insight}`);
+    const sensitivityInsights = sensitivity?.insights ?? data.sensitivityInsights;
+    if (sensitivityInsights && sensitivityInsights.length > 0) {
+      sections['Sensitivity Insights'] = sensitivityInsights.map(insight => `• ${insight}`);
+    }
+
+    if (sensitivity) {
+      sections['Robustness'] = sensitivity.robustness.toUpperCase();
     }
 
     // Recommendation
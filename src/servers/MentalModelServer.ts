@@ -1,17 +1,17 @@
 import { BaseToolServer } from '../base/BaseToolServer.js';
-import { MentalModelSchema, MentalModelData } from '../schemas/index.js';
+import { MentalModelSchema, MentalModelOutputSchema, MentalModelData, MentalModelOutput } from '../schemas/index.js';
 import { boxed } from '../utils/index.js';
 
 /**
  * Mental Model Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class MentalModelServer extends BaseToolServer<MentalModelData, any> {
+export class MentalModelServer extends BaseToolServer<MentalModelData, MentalModelOutput> {
   constructor() {
-    super(MentalModelSchema);
+    super(MentalModelSchema, MentalModelOutputSchema);
   }
 
-  protected handle(validInput: MentalModelData): any {
+  protected handle(validInput: MentalModelData): MentalModelOutput {
     return this.process(validInput);
   }
 
@@ -20,7 +20,7 @@ export class MentalModelServer extends BaseToolServer<MentalModelData, any> {
    * @param validInput - Validated mental model data
    * @returns Processed mental model result
    */
-  public process(validInput: MentalModelData): any {
+  public process(validInput: MentalModelData): MentalModelOutput {
     // Format output using boxed utility
     const formattedOutput = this.formatMentalModelOutput(validInput);
 
@@ -1,17 +1,17 @@
 import { BaseToolServer } from '../base/BaseToolServer.js';
-import { MetacognitiveMonitoringSchema, MetacognitiveMonitoringData } from '../schemas/index.js';
+import { MetacognitiveMonitoringSchema, MetacognitiveMonitoringOutputSchema, MetacognitiveMonitoringData, MetacognitiveMonitoringOutput } from '../schemas/index.js';
 import { boxed } from '../utils/index.js';
 
 /**
  * Metacognitive Monitoring Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class MetacognitiveMonitoringServer extends BaseToolServer<MetacognitiveMonitoringData, any> {
+export class MetacognitiveMonitoringServer extends BaseToolServer<MetacognitiveMonitoringData, MetacognitiveMonitoringOutput> {
   constructor() {
-    super(MetacognitiveMonitoringSchema);
+    super(MetacognitiveMonitoringSchema, MetacognitiveMonitoringOutputSchema);
   }
 
-  protected handle(validInput: MetacognitiveMonitoringData): any {
+  protected handle(validInput: MetacognitiveMonitoringData): MetacognitiveMonitoringOutput {
     return this.process(validInput);
   }
 
@@ -20,7 +20,7 @@ export class MetacognitiveMonitoringServer extends BaseToolServer<MetacognitiveM
    * @param validInput - Validated metacognitive monitoring data
    * @returns Processed metacognitive monitoring result
    */
-  public process(validInput: MetacognitiveMonitoringData): any {
+  public process(validInput: MetacognitiveMonitoringData): MetacognitiveMonitoringOutput {
     // Format output using boxed utility
     const formattedOutput = this.formatMetacognitiveOutput(validInput);
 
@@ -1,17 +1,24 @@
 import { BaseToolServer } from '../base/BaseToolServer.js';
-import { ScientificMethodSchema, ScientificMethodData } from '../schemas/index.js';
+import { ScientificMethodSchema, ScientificMethodOutputSchema, ScientificMethodData, ScientificMethodOutput } from '../schemas/index.js';
 import { boxed } from '../utils/index.js';
+import { SessionManager, sessionManager as defaultSessionManager } from '../services/SessionManager.js';
 
 /**
  * Scientific Method Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class ScientificMethodServer extends BaseToolServer<ScientificMethodData, any> {
-  constructor() {
-    super(ScientificMethodSchema);
+export class ScientificMethodServer extends BaseToolServer<ScientificMethodData, ScientificMethodOutput> {
+  private sessionManager: SessionManager;
+
+  /**
+   * @param sessionManager - Store that keeps each inquiry by inquiryId (defaults to the shared instance)
+   */
+  constructor(sessionManager: SessionManager = defaultSessionManager) {
+    super(ScientificMethodSchema, ScientificMethodOutputSchema);
+    this.sessionManager = sessionManager;
   }
 
-  protected handle(validInput: ScientificMethodData): any {
+  protected handle(validInput: ScientificMethodData): ScientificMethodOutput {
     return this.process(validInput);
   }
 
@@ -20,7 +27,7 @@ export class ScientificMethodServer extends BaseToolServer<ScientificMethodData,
    * @param validInput - Validated scientific method data
    * @returns Processed scientific method result
    */
-  public process(validInput: ScientificMethodData): any {
+  public process(validInput: ScientificMethodData): ScientificMethodOutput {
     // Format output using boxed utility
     const formattedOutput = this.formatScientificOutput(validInput);
 
@@ -29,7 +36,7 @@ export class ScientificMethodServer extends BaseToolServer<ScientificMethodData,
       console.error(formattedOutput);
     }
 
-    return {
+    const result: ScientificMethodOutput = {
       inquiryId: validInput.inquiryId,
       stage: validInput.stage,
       iteration: validInput.iteration,
@@ -44,13 +51,17 @@ export class ScientificMethodServer extends BaseToolServer<ScientificMethodData,
       timestamp: new Date().toISOString(),
       framework: 'clear-thought-tools'
     };
+
+    // Keep the inquiry stage so it can be read back as a resource
+    this.sessionManager.addRecordEntry('inquiry', validInput.inquiryId, { at: result.timestamp, input: validInput, result });
+
+    return result;
   }
 
   // Backward compatibility method for tests
   public processScientificMethod(input: unknown): { content: Array<{ type: string; text: string }>; data?: any; isError?: boolean } {
     try {
       const validatedInput = this.validate(input);
-      const result = this.handle(validatedInput);
       const response = this.run(input);
 
       return {
@@ -1,28 +1,53 @@
-import { BaseToolServer } from '../base/BaseToolServer.js';
-import { SequentialThoughtSchema, SequentialThought } from '../schemas/index.js';
+import { BaseToolServer, ToolCallContext } from '../base/BaseToolServer.js';
+import { SequentialThoughtSchema, SequentialThoughtOutputSchema, SequentialThought, SequentialThoughtOutput } from '../schemas/index.js';
+import { ThoughtData } from '../interfaces/index.js';
+import { SessionManager, sessionManager as defaultSessionManager } from '../services/SessionManager.js';
 import { boxed } from '../utils/index.js';
+import { StateError } from '../errors/CustomErrors.js';
+
+/**
+ * Session used when the caller supplies no sessionId and has no transport session (stdio)
+ */
+export const DEFAULT_SESSION_ID = 'default';
+
+interface SessionSummary {
+  sessionId: string;
+  thoughtHistoryLength: number;
+  branches: string[];
+  revisedThought?: ThoughtData;
+}
 
 /**
  * Sequential Thinking Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class SequentialThinkingServer extends BaseToolServer<SequentialThought, any> {
-  constructor() {
-    super(SequentialThoughtSchema);
+export class SequentialThinkingServer extends BaseToolServer<SequentialThought, SequentialThoughtOutput> {
+  private sessionManager: SessionManager;
+
+  /**
+   * @param sessionManager - Store for thought history and branches (defaults to the shared instance)
+   */
+  constructor(sessionManager: SessionManager = defaultSessionManager) {
+    super(SequentialThoughtSchema, SequentialThoughtOutputSchema);
+    this.sessionManager = sessionManager;
   }
 
-  protected handle(validInput: SequentialThought): any {
-    return this.process(validInput);
+  protected handle(validInput: SequentialThought, context: ToolCallContext): SequentialThoughtOutput {
+    return this.process(validInput, context);
   }
 
   /**
    * Standardized process method for sequential thinking
    * @param validInput - Validated thought data
+   * @param context - Request the call arrived with; thoughts without a sessionId go to its transport session
    * @returns Processed thought result
    */
-  public process(validInput: SequentialThought): any {
+  public process(validInput: SequentialThought, context: ToolCallContext = {}): SequentialThoughtOutput {
+    // Record the thought in its session
+    const session = this.recordThought(validInput, context.transportSessionId ?? DEFAULT_SESSION_ID);
+
     // Format output using boxed utility
-    const formattedOutput = this.formatThoughtOutput(validInput);
+    const formattedOutput = this.formatThoughtOutput(validInput, session);
 
     // Log formatted output to console (suppress during tests)
     if (process.env.NODE_ENV !== 'test' && process.env.JEST_WORKER_ID === undefined) {
@@ -38,6 +63,10 @@ export class SequentialThinkingServer extends BaseToolServer<SequentialThought,
       isRevision: validInput.isRevision || false,
       hasCurrentStep: !!validInput.currentStep,
       branchId: validInput.branchId,
+      sessionId: session.sessionId,
+      thoughtHistoryLength: session.thoughtHistoryLength,
+      branches: session.branches,
+      revisedThought: session.revisedThought,
       stage: this.determineStage(validInput.thoughtNumber, validInput.totalThoughts),
       timestamp: new Date().toISOString(),
       framework: 'clear-thought-tools'
@@ -49,7 +78,47 @@ export class SequentialThinkingServer extends BaseToolServer<SequentialThought,
     return this.run(input);
   }
 
-  private formatThoughtOutput(data: SequentialThought): string {
+  /**
+   * Append the thought to the session history (and to its branch, if any)
+   * @param data - Validated thought data
+   * @param fallbackSessionId - Session for thoughts that do not name one
+   * @returns Summary of the session after recording the thought
+   * @throws StateError if the session store cannot record the thought
+   */
+  private recordThought(data: SequentialThought, fallbackSessionId: string): SessionSummary {
+    const sessionId = data.sessionId ?? fallbackSessionId;
+    const { sessionId: _sessionId, ...thought } = data;
+
+    // Look up the revised thought before the revision itself is recorded
+    let revisedThought: ThoughtData | undefined;
+    if (data.isRevision && data.revisesThought) {
+      revisedThought = this.sessionManager.getThoughtHistory(sessionId)
+        .filter(entry => entry.thoughtNumber === data.revisesThought)
+        .pop();
+    }
+
+    try {
+      this.sessionManager.addThought(sessionId, thought);
+
+      if (data.branchFromThought && data.branchId) {
+        this.sessionManager.addBranch(sessionId, data.branchId, thought);
+      }
+    } catch (error) {
+      throw new StateError(
+        `Could not record thought ${data.thoughtNumber} in session '${sessionId}': ${error instanceof Error ? error.message : String(error)}`,
+        sessionId
+      );
+    }
+
+    return {
+      sessionId,
+      thoughtHistoryLength: this.sessionManager.getThoughtHistory(sessionId).length,
+      branches: Object.keys(this.sessionManager.getBranches(sessionId)),
+      revisedThought
+    };
+  }
+
+  private formatThoughtOutput(data: SequentialThought, session: SessionSummary): string {
     const sections: Record<string, string | string[]> = {
       'Thought': `${data.thoughtNumber}/${data.totalThoughts}`,
       'Content': data.thought
@@ -104,6 +173,17 @@ export class SequentialThinkingServer extends BaseToolServer<SequentialThought,
       });
     }
 
+    // Session information
+    sections['Session'] = `${session.sessionId} (${session.thoughtHistoryLength} thoughts recorded)`;
+
+    if (session.branches.length > 0) {
+      sections['Branches'] = session.branches.map(branch => `• ${branch}`);
+    }
+
+    if (session.revisedThought) {
+      sections['Revised Thought'] = session.revisedThought.thought;
+    }
+
     // Progress information
     const progress = Math.round((data.thoughtNumber / data.totalThoughts) * 100);
     sections['Progress'] = `${progress}% (${data.thoughtNumber}/${data.totalThoughts})`;
@@ -119,7 +199,7 @@ export class SequentialThinkingServer extends BaseToolServer<SequentialThought,
     return boxed('💭 Sequential Thinking', sections);
   }
 
-  private determineStage(thoughtNumber: number, totalThoughts: number): string {
+  private determineStage(thoughtNumber: number, totalThoughts: number): SequentialThoughtOutput['stage'] {
     // Handle edge cases first
     if (totalThoughts === 1) return 'final'; // Single thought is always final
     if (thoughtNumber === 1 && totalThoughts > 1) return 'initial';
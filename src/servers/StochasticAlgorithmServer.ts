@@ -1,17 +1,44 @@
 import { BaseToolServer } from '../base/BaseToolServer.js';
-import { StochasticAlgorithmSchema, StochasticAlgorithmData } from '../schemas/index.js';
+import {
+  StochasticAlgorithmSchema,
+  StochasticAlgorithmData,
+  StochasticAlgorithmOutputSchema,
+  StochasticAlgorithmOutput,
+  MdpParameters,
+  MctsParameters,
+  BanditParameters,
+  HmmParameters,
+  BayesianParameters
+} from '../schemas/index.js';
 import { boxed } from '../utils/index.js';
+import { ProcessingError } from '../errors/CustomErrors.js';
+import { valueIteration, policyIteration, MdpSolution } from '../algorithms/mdp.js';
+import { runMcts } from '../algorithms/mcts.js';
+import { runBandit } from '../algorithms/bandit.js';
+import { analyzeHmm } from '../algorithms/hmm.js';
+import { runBayesianOptimization } from '../algorithms/gaussianProcess.js';
+import { createRandom, randomSeed, Random } from '../algorithms/random.js';
+
+/**
+ * Outcome of running an algorithm: a one-line summary, the structured
+ * solution and extra output sections
+ */
+interface AlgorithmRun {
+  summary: string;
+  solution: Record<string, unknown>;
+  sections?: Record<string, string | string[]>;
+}
 
 /**
  * Stochastic Algorithm Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class StochasticAlgorithmServer extends BaseToolServer<StochasticAlgorithmData, any> {
+export class StochasticAlgorithmServer extends BaseToolServer<StochasticAlgorithmData, StochasticAlgorithmOutput> {
   constructor() {
-    super(StochasticAlgorithmSchema);
+    super(StochasticAlgorithmSchema, StochasticAlgorithmOutputSchema);
   }
 
-  protected handle(validInput: StochasticAlgorithmData): any {
+  protected handle(validInput: StochasticAlgorithmData): StochasticAlgorithmOutput {
     return this.process(validInput);
   }
 
@@ -20,12 +47,14 @@ export class StochasticAlgorithmServer extends BaseToolServer<StochasticAlgorith
    * @param validInput - Validated stochastic algorithm data
    * @returns Processed stochastic algorithm result
    */
-  public process(validInput: StochasticAlgorithmData): any {
-    // Process the algorithm
-    const result = this.processAlgorithm(validInput);
+  public process(validInput: StochasticAlgorithmData): StochasticAlgorithmOutput {
+    // Every stochastic routine draws from one generator so the seed replays the run exactly
+    const seed = validInput.seed ?? randomSeed();
+    const run = this.runAlgorithm(validInput, seed);
+    const result = run.summary;
 
     // Format output using boxed utility
-    const formattedOutput = this.formatStochasticOutput({ ...validInput, result });
+    const formattedOutput = this.formatStochasticOutput({ ...validInput, seed, result }, run.sections);
 
     // Log formatted output to console (suppress during tests)
     if (process.env.NODE_ENV !== 'test' && process.env.JEST_WORKER_ID === undefined) {
@@ -37,82 +66,185 @@ export class StochasticAlgorithmServer extends BaseToolServer<StochasticAlgorith
       problem: validInput.problem,
       status: 'success',
       hasResult: !!result,
-      parameterCount: Object.keys(validInput.parameters || {}).length,
+      parameterCount: Object.keys(validInput.parameters).length,
+      seed,
       result,
+      solution: run.solution,
       timestamp: new Date().toISOString(),
       framework: 'clear-thought-tools'
     };
   }
 
-  private processAlgorithm(data: StochasticAlgorithmData): string {
-    const { algorithm, problem, parameters } = data;
+  /**
+   * Run the algorithm, reporting numerical failures with the seed that reproduces them
+   * @throws ProcessingError if the algorithm cannot handle the parameters
+   */
+  private runAlgorithm(data: StochasticAlgorithmData, seed: number): AlgorithmRun {
+    try {
+      return this.processAlgorithm(data, createRandom(seed));
+    } catch (error) {
+      throw new ProcessingError(
+        `${data.algorithm} failed: ${error instanceof Error ? error.message : String(error)}`,
+        { algorithm: data.algorithm, seed }
+      );
+    }
+  }
 
-    switch (algorithm.toLowerCase()) {
+  private processAlgorithm(data: StochasticAlgorithmData, random: Random): AlgorithmRun {
+    switch (data.algorithm) {
       case 'mdp':
-      case 'markov decision process':
-        return this.processMDP(problem, parameters || {});
+        return this.processMDP(data.problem, data.parameters);
       case 'mcts':
-      case 'monte carlo tree search':
-        return this.processMCTS(problem, parameters || {});
+        return this.processMCTS(data.problem, data.parameters, random);
       case 'bandit':
-      case 'multi-armed bandit':
-        return this.processBandit(problem, parameters || {});
+        return this.processBandit(data.problem, data.parameters, random);
       case 'bayesian':
-      case 'bayesian optimization':
-        return this.processBayesian(problem, parameters || {});
+        return this.processBayesian(data.problem, data.parameters, random);
       case 'hmm':
-      case 'hidden markov model':
-        return this.processHMM(problem, parameters || {});
-      default:
-        return `Applied ${algorithm} to problem: ${problem}. Parameters: ${JSON.stringify(parameters)}`;
+        return this.processHMM(data.problem, data.parameters, random);
     }
   }
 
-  private processMDP(problem: string, params: Record<string, unknown>): string {
-    const states = params.states || 100;
-    const gamma = params.gamma || 0.9;
-    return `MDP analysis for "${problem}": Optimized policy over ${states} states with discount factor ${gamma}. Converged to optimal value function.`;
+  private processMDP(problem: string, mdp: MdpParameters): AlgorithmRun {
+    const solutions: Array<['valueIteration' | 'policyIteration', MdpSolution]> = [];
+    if (mdp.method !== 'policy-iteration') {
+      solutions.push(['valueIteration', valueIteration(mdp)]);
+    }
+    if (mdp.method !== 'value-iteration') {
+      solutions.push(['policyIteration', policyIteration(mdp)]);
+    }
+
+    const [, optimal] = solutions[0];
+    const policiesAgree = solutions.every(([, solution]) =>
+      mdp.states.every(state => solution.policy[state] === optimal.policy[state])
+    );
+    const convergence = solutions.map(([name, solution]) =>
+      `${name === 'valueIteration' ? 'value' : 'policy'} iteration ${solution.converged ? 'converged' : 'stopped without converging'} after ${solution.iterations} iteration${solution.iterations === 1 ? '' : 's'}`
+    );
+
+    return {
+      summary: `MDP for "${problem}": solved ${mdp.states.length} states and ${mdp.actions.length} actions with discount factor ${mdp.gamma}; ${convergence.join(', ')}.` +
+        (policiesAgree ? '' : ' Value and policy iteration disagree on the optimal policy; consider a tighter tolerance.'),
+      solution: {
+        method: mdp.method,
+        gamma: mdp.gamma,
+        policy: optimal.policy,
+        values: optimal.values,
+        ...Object.fromEntries(solutions.map(([name, solution]) => [
+          name,
+          { iterations: solution.iterations, converged: solution.converged }
+        ])),
+        ...(solutions.length > 1 ? { policiesAgree } : {})
+      },
+      sections: {
+        'Optimal Policy': mdp.states.map(state => `• ${state} → ${optimal.policy[state] ?? '(terminal)'}`),
+        'Value Function': mdp.states.map(state => `• ${state}: ${optimal.values[state].toFixed(4)}`)
+      }
+    };
   }
 
-  private processMCTS(problem: string, params: Record<string, unknown>): string {
-    const simulations = params.simulations || 1000;
-    const exploration = params.explorationConstant || 1.4;
-    return `MCTS for "${problem}": Performed ${simulations} simulations with exploration constant ${exploration}. Best action sequence identified.`;
+  private processMCTS(problem: string, tree: MctsParameters, random: Random): AlgorithmRun {
+    const search = runMcts(tree, random);
+
+    const sequence = search.bestSequence.length > 0 ? search.bestSequence.join(' → ') : '(root is terminal)';
+    return {
+      summary: `MCTS for "${problem}": ran ${search.iterations} UCT iterations with exploration constant ${tree.explorationConstant.toFixed(3)}. ` +
+        `Best action sequence: ${sequence}` +
+        (search.bestValue !== undefined ? ` (estimated value ${search.bestValue.toFixed(4)}).` : '.'),
+      solution: { ...search },
+      sections: {
+        'Best Sequence': sequence,
+        'Root Children': search.children.map(child =>
+          `• ${child.action} → ${child.state}: ${child.visits} visits, value ${child.value.toFixed(4)}`
+        )
+      }
+    };
   }
 
-  private processBandit(problem: string, params: Record<string, unknown>): string {
-    const arms = params.arms || 10;
-    const epsilon = params.epsilon || 0.1;
-    return `Multi-armed bandit for "${problem}": Balanced exploration/exploitation across ${arms} arms with ε=${epsilon}. Optimal arm identified.`;
+  private processBandit(problem: string, bandit: BanditParameters, random: Random): AlgorithmRun {
+    const outcome = runBandit(bandit, random);
+
+    const source = outcome.simulatedRounds > 0
+      ? `simulated ${outcome.simulatedRounds} rounds of ${outcome.policy}`
+      : `analyzed observed pulls with ${outcome.policy}`;
+    return {
+      summary: `Multi-armed bandit for "${problem}": ${source} across ${outcome.arms.length} ${outcome.rewardModel} arms. ` +
+        `Cumulative regret ${outcome.cumulativeRegret.toFixed(3)} (${outcome.regretBasis}); recommended next arm: ${outcome.recommendedArm}.`,
+      solution: { ...outcome },
+      sections: {
+        'Arms': outcome.arms.map(arm =>
+          `• ${arm.id}: ${arm.pulls} pulls, posterior mean ${arm.posteriorMean.toFixed(3)} ` +
+          `[${arm.credibleInterval.map(bound => bound.toFixed(3)).join(', ')}], P(best) ${arm.probabilityBest.toFixed(2)}`
+        ),
+        'Recommended Arm': outcome.recommendedArm
+      }
+    };
   }
 
-  private processBayesian(problem: string, params: Record<string, unknown>): string {
-    const iterations = params.iterations || 100;
-    const acquisitionFunction = params.acquisitionFunction || 'expected_improvement';
-    return `Bayesian optimization for "${problem}": ${iterations} iterations using ${acquisitionFunction}. Global optimum approximated.`;
+  private processBayesian(problem: string, optimization: BayesianParameters, random: Random): AlgorithmRun {
+    const outcome = runBayesianOptimization(optimization, random);
+
+    const formatPoint = (x: number[]) => optimization.bounds.map((bound, d) => `${bound.name}=${x[d].toFixed(4)}`).join(', ');
+    const { nextPoint } = outcome;
+    return {
+      summary: `Bayesian optimization for "${problem}": fitted a ${outcome.kernel} Gaussian process to ${optimization.observations.length} observations. ` +
+        `Next point under ${outcome.acquisitionFunction}: ${formatPoint(nextPoint.x)}.`,
+      solution: { ...outcome },
+      sections: {
+        'Best Observation': `${formatPoint(outcome.bestObservation.x)} → ${outcome.bestObservation.y}`,
+        'Next Point': [
+          formatPoint(nextPoint.x),
+          `predicted ${nextPoint.mean.toFixed(4)} ± ${Math.sqrt(nextPoint.variance).toFixed(4)}`,
+          `${outcome.acquisitionFunction} ${nextPoint.acquisitionValue.toFixed(4)}`
+        ]
+      }
+    };
   }
 
-  private processHMM(problem: string, params: Record<string, unknown>): string {
-    const hiddenStates = params.hiddenStates || 5;
-    const observations = params.observations || 20;
-    return `HMM analysis for "${problem}": Inferred ${hiddenStates} hidden states from ${observations} observations. State sequence decoded.`;
+  private processHMM(problem: string, hmm: HmmParameters, random: Random): AlgorithmRun {
+    const decoded = analyzeHmm(hmm, random);
+
+    const fit = decoded.fitted
+      ? ` Model fitted with Baum-Welch (${decoded.fitted.converged ? 'converged' : 'stopped'} after ${decoded.fitted.iterations} iterations).`
+      : '';
+    return {
+      summary: `HMM analysis for "${problem}": decoded ${hmm.observations.length} observations over ${hmm.states.length} hidden states; ` +
+        `log-likelihood ${decoded.logLikelihood.toFixed(4)}.${fit}`,
+      solution: { ...decoded },
+      sections: {
+        'Viterbi Path': decoded.viterbiPath.join(' → '),
+        'Posterior Marginals': decoded.posteriors.map((marginals, t) =>
+          `• ${t + 1} (${hmm.observations[t]}): ` +
+          Object.entries(marginals).map(([state, probability]) => `${state} ${probability.toFixed(3)}`).join(', ')
+        )
+      }
+    };
   }
 
-  private formatStochasticOutput(data: StochasticAlgorithmData & { result?: string }): string {
+  private formatStochasticOutput(
+    data: StochasticAlgorithmData & { seed: number; result?: string },
+    details: Record<string, string | string[]> = {}
+  ): string {
     const sections: Record<string, string | string[]> = {
       'Algorithm': data.algorithm,
       'Problem': data.problem
     };
 
-    if (data.parameters && Object.keys(data.parameters).length > 0) {
-      const paramEntries = Object.entries(data.parameters).map(([key, value]) => `• ${key}: ${value}`);
+    if (Object.keys(data.parameters).length > 0) {
+      const paramEntries = Object.entries(data.parameters).map(([key, value]) =>
+        `• ${key}: ${typeof value === 'object' && value !== null ? JSON.stringify(value) : value}`
+      );
       sections['Parameters'] = paramEntries;
     }
 
+    sections['Seed'] = String(data.seed);
+
     if (data.result) {
       sections['Result'] = data.result;
     }
 
+    Object.assign(sections, details);
+
     return boxed('🎲 Stochastic Algorithm', sections);
   }
 }
@@ -1,38 +1,90 @@
-import { BaseToolServer } from '../base/BaseToolServer.js';
-import { StructuredArgumentationSchema, StructuredArgumentationData } from '../schemas/index.js';
+import { BaseToolServer, ToolCallContext } from '../base/BaseToolServer.js';
+import {
+  StructuredArgumentationSchema,
+  StructuredArgumentationOutputSchema,
+  StructuredArgumentationData,
+  StructuredArgumentationOutput,
+  ToulminData,
+  ToulminElement
+} from '../schemas/index.js';
 import { boxed } from '../utils/index.js';
+import { ValidationError } from '../errors/CustomErrors.js';
+import { SessionManager, sessionManager as defaultSessionManager } from '../services/SessionManager.js';
+import {
+  buildArgumentGraph,
+  evaluateArgumentGraph,
+  analyzeDebate,
+  argumentKey,
+  ATTACKING_TYPES,
+  DebateState
+} from '../algorithms/argumentation.js';
+import { detectFallacies, DetectedFallacy } from '../algorithms/fallacies.js';
+
+/**
+ * Debate used when the caller supplies no debateId and has no transport session (stdio)
+ */
+export const DEFAULT_DEBATE_ID = 'default';
+
+type ArgumentGraphOutput = StructuredArgumentationOutput['argumentGraph'];
+type ToulminOutput = NonNullable<StructuredArgumentationOutput['toulmin']>;
+
+// Elements of a Toulmin argument besides its claim, in the order they are presented
+const TOULMIN_ELEMENTS: ToulminElement[] = ['data', 'warrant', 'backing', 'qualifier', 'rebuttal'];
 
 /**
  * Structured Argumentation Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class StructuredArgumentationServer extends BaseToolServer<StructuredArgumentationData, any> {
-  constructor() {
-    super(StructuredArgumentationSchema);
+export class StructuredArgumentationServer extends BaseToolServer<StructuredArgumentationData, StructuredArgumentationOutput> {
+  private sessionManager: SessionManager;
+
+  /**
+   * @param sessionManager - Store that keeps each debate by debateId (defaults to the shared instance)
+   */
+  constructor(sessionManager: SessionManager = defaultSessionManager) {
+    super(StructuredArgumentationSchema, StructuredArgumentationOutputSchema);
+    this.sessionManager = sessionManager;
   }
 
-  protected handle(validInput: StructuredArgumentationData): any {
-    return this.process(validInput);
+  protected handle(validInput: StructuredArgumentationData, context: ToolCallContext): StructuredArgumentationOutput {
+    return this.process(validInput, context);
   }
 
   /**
    * Standardized process method for structured argumentation
    * @param validInput - Validated structured argumentation data
+   * @param context - Request the call arrived with; arguments without a debateId go to its transport session's debate
    * @returns Processed structured argumentation result
    */
-  public process(validInput: StructuredArgumentationData): any {
+  public process(validInput: StructuredArgumentationData, context: ToolCallContext = {}): StructuredArgumentationOutput {
+    const debateId = validInput.debateId ?? context.transportSessionId ?? DEFAULT_DEBATE_ID;
+    const debate = this.debateArguments(debateId);
+    const argumentId = argumentKey(validInput, debate.length);
+    this.checkTurn(validInput, argumentId, debateId, debate);
+
+    // Re-evaluate which claims stand now that this argument has joined the debate
+    const { argumentGraph, state } = this.evaluateDebate([...debate, validInput]);
+
+    // Flag fallacies and weak premises in the argument's own text
+    const fallacies = detectFallacies(validInput);
+
     // Format output using boxed utility
-    const formattedOutput = this.formatArgumentationOutput(validInput);
+    const formattedOutput = this.formatArgumentationOutput(validInput, debateId, argumentGraph, state, fallacies);
 
     // Log formatted output to console (suppress during tests)
     if (process.env.NODE_ENV !== 'test' && process.env.JEST_WORKER_ID === undefined) {
       console.error(formattedOutput);
     }
 
-    return {
+    const result: StructuredArgumentationOutput = {
       claim: validInput.claim,
-      argumentId: validInput.argumentId,
+      argumentId,
+      debateId,
       argumentType: validInput.argumentType,
+      argumentStatus: argumentGraph.arguments.find(node => node.argumentId === argumentId)!.status,
+      turn: debate.length + 1,
+      debateStage: state.stage,
+      suggestedNextTypes: state.suggestedNextTypes,
       confidence: validInput.confidence,
       nextArgumentNeeded: validInput.nextArgumentNeeded,
       status: 'success',
@@ -40,12 +92,118 @@ export class StructuredArgumentationServer extends BaseToolServer<StructuredArgu
       hasConclusion: !!validInput.conclusion,
       strengthCount: validInput.strengths?.length ?? 0,
       weaknessCount: validInput.weaknesses?.length ?? 0,
+      toulmin: validInput.toulmin && this.assessToulmin(validInput.toulmin),
+      fallacies,
+      argumentGraph,
       timestamp: new Date().toISOString(),
       framework: 'clear-thought-tools'
     };
+
+    // Keep the argument so later objections and rebuttals are evaluated against it
+    this.sessionManager.addRecordEntry('debate', debateId, { at: result.timestamp, input: validInput, result });
+
+    return result;
+  }
+
+  /**
+   * Check which Toulmin elements were given; the argument is complete only when all of them are
+   */
+  private assessToulmin(toulmin: ToulminData): ToulminOutput {
+    const isPresent = (element: ToulminElement) => element === 'data'
+      ? (toulmin.data?.length ?? 0) > 0
+      : toulmin[element] !== undefined;
+    const missingElements = TOULMIN_ELEMENTS.filter(element => !isPresent(element));
+
+    return {
+      complete: missingElements.length === 0,
+      presentElements: TOULMIN_ELEMENTS.filter(isPresent),
+      missingElements
+    };
   }
 
-  private formatArgumentationOutput(data: StructuredArgumentationData): string {
+  /**
+   * Arguments already made in a debate, in order
+   */
+  private debateArguments(debateId: string): StructuredArgumentationData[] {
+    return (this.sessionManager.getRecord('debate', debateId)?.entries ?? [])
+      .map(entry => entry.input as StructuredArgumentationData);
+  }
+
+  /**
+   * Enforce a coherent sequence: every type but thesis answers an earlier argument of the same debate,
+   * and a rebuttal answers an argument that attacked something
+   * @throws ValidationError if respondsTo is missing, unknown or names the wrong kind of argument
+   */
+  private checkTurn(
+    validInput: StructuredArgumentationData,
+    argumentId: string,
+    debateId: string,
+    debate: StructuredArgumentationData[]
+  ): void {
+    const { argumentType, respondsTo } = validInput;
+    if (!respondsTo) {
+      if (argumentType !== 'thesis') {
+        const typeName = argumentType.charAt(0).toUpperCase() + argumentType.slice(1);
+        throw new ValidationError(`${typeName} "${argumentId}" must respond to an earlier argument: set respondsTo`, {
+          field: 'respondsTo',
+          debateId
+        });
+      }
+      return;
+    }
+
+    const earlier = buildArgumentGraph(debate).arguments;
+    const target = earlier.find(node => node.argumentId === respondsTo && node.argumentId !== argumentId);
+    if (!target) {
+      throw new ValidationError(`Argument "${argumentId}" responds to unknown argument "${respondsTo}" in debate "${debateId}"`, {
+        field: 'respondsTo',
+        debateId,
+        knownArguments: earlier.map(node => node.argumentId)
+      });
+    }
+    if (argumentType === 'rebuttal' && !ATTACKING_TYPES.has(target.argumentType)) {
+      throw new ValidationError(`Rebuttal "${argumentId}" must respond to an antithesis, objection or rebuttal, but "${respondsTo}" is a ${target.argumentType}`, {
+        field: 'respondsTo',
+        debateId
+      });
+    }
+  }
+
+  /**
+   * Build the debate's attack graph, label every argument under grounded semantics and work out
+   * where the debate stands
+   */
+  private evaluateDebate(debate: StructuredArgumentationData[]): { argumentGraph: ArgumentGraphOutput; state: DebateState } {
+    const graph = buildArgumentGraph(debate);
+    const evaluation = evaluateArgumentGraph(graph);
+    const state = analyzeDebate(graph, evaluation);
+
+    const argumentGraph: ArgumentGraphOutput = {
+      arguments: graph.arguments.map(node => ({
+        ...node,
+        status: evaluation.status[node.argumentId],
+        attackedBy: graph.attacks.filter(attack => attack.to === node.argumentId).map(attack => attack.from)
+      })),
+      attacks: graph.attacks,
+      supports: graph.supports,
+      extensions: evaluation.extensions,
+      accepted: evaluation.accepted,
+      defeated: evaluation.defeated,
+      undecided: evaluation.undecided,
+      unanswered: state.unanswered,
+      warnings: evaluation.warnings
+    };
+
+    return { argumentGraph, state };
+  }
+
+  private formatArgumentationOutput(
+    data: StructuredArgumentationData,
+    debateId: string,
+    argumentGraph: ArgumentGraphOutput,
+    state: DebateState,
+    fallacies: DetectedFallacy[]
+  ): string {
     const sections: Record<string, string | string[]> = {
       'Claim': data.claim,
       'Argument Type': data.argumentType.toUpperCase(),
@@ -79,6 +237,23 @@ export class StructuredArgumentationServer extends BaseToolServer<StructuredArgu
       sections['Contradicts'] = data.contradicts.map(contradiction => `• ${contradiction}`);
     }
 
+    // Toulmin breakdown
+    if (data.toulmin) {
+      const toulmin = data.toulmin;
+      const assessment = this.assessToulmin(toulmin);
+      sections['Toulmin Structure'] = [
+        `Claim: ${data.claim}`,
+        `Data: ${toulmin.data && toulmin.data.length > 0 ? toulmin.data.join('; ') : '(missing)'}`,
+        `Warrant: ${toulmin.warrant ?? '(missing)'}`,
+        `Backing: ${toulmin.backing ?? '(missing)'}`,
+        `Qualifier: ${toulmin.qualifier ?? '(missing)'}`,
+        `Rebuttal: ${toulmin.rebuttal ?? '(missing)'}`
+      ];
+      sections['Toulmin Status'] = assessment.complete
+        ? 'COMPLETE'
+        : `INCOMPLETE (missing ${assessment.missingElements.join(', ')})`;
+    }
+
     // Analysis
     if (data.strengths && data.strengths.length > 0) {
       sections['Strengths'] = data.strengths.map(strength => `• ${strength}`);
@@ -88,9 +263,41 @@ export class StructuredArgumentationServer extends BaseToolServer<StructuredArgu
       sections['Weaknesses'] = data.weaknesses.map(weakness => `• ${weakness}`);
     }
 
+    // Detected fallacies
+    if (fallacies.length > 0) {
+      sections['Detected Fallacies'] = fallacies.map(fallacy =>
+        `• ${fallacy.type} in ${fallacy.field} ("${fallacy.span.text}"): ${fallacy.explanation}`
+      );
+    }
+
+    // Debate state
+    const claimOf = (id: string) => `• ${id}: ${argumentGraph.arguments.find(node => node.argumentId === id)!.claim}`;
+    sections['Debate'] = `${debateId} (${argumentGraph.arguments.length} arguments, ${argumentGraph.attacks.length} attacks)`;
+    sections['Debate Stage'] = state.stage.toUpperCase();
+
+    if (argumentGraph.accepted.length > 0) {
+      sections['Standing'] = argumentGraph.accepted.map(claimOf);
+    }
+
+    if (argumentGraph.defeated.length > 0) {
+      sections['Defeated'] = argumentGraph.defeated.map(claimOf);
+    }
+
+    if (argumentGraph.undecided.length > 0) {
+      sections['Undecided'] = argumentGraph.undecided.map(claimOf);
+    }
+
+    if (state.unanswered.length > 0) {
+      sections['Unanswered'] = state.unanswered.map(claimOf);
+    }
+
     // Suggested next types
-    if (data.suggestedNextTypes && data.suggestedNextTypes.length > 0) {
-      sections['Suggested Next Arguments'] = data.suggestedNextTypes.map(type => `• ${type}`);
+    if (state.suggestedNextTypes.length > 0) {
+      sections['Suggested Next Arguments'] = state.suggestedNextTypes.map(type => `• ${type}`);
+    }
+
+    if (argumentGraph.warnings.length > 0) {
+      sections['Warnings'] = argumentGraph.warnings.map(warning => `• ${warning}`);
     }
 
     return boxed('⚖️ Structured Argumentation', sections);
@@ -1,17 +1,26 @@
 import { BaseToolServer } from '../base/BaseToolServer.js';
-import { VisualReasoningSchema, VisualReasoningData } from '../schemas/index.js';
+import { VisualReasoningSchema, VisualReasoningOutputSchema, VisualReasoningData, VisualReasoningOutput } from '../schemas/index.js';
 import { boxed } from '../utils/index.js';
+import { SessionManager, sessionManager as defaultSessionManager } from '../services/SessionManager.js';
+import { ValidationError } from '../errors/CustomErrors.js';
+import { applyDiagramOperation, summarizeDiagram, DiagramOperationResult } from '../algorithms/diagram.js';
 
 /**
  * Visual Reasoning Server using clear-thought tools approach
  * Extends BaseToolServer for standardized validation and error handling
  */
-export class VisualReasoningServer extends BaseToolServer<VisualReasoningData, any> {
-  constructor() {
-    super(VisualReasoningSchema);
+export class VisualReasoningServer extends BaseToolServer<VisualReasoningData, VisualReasoningOutput> {
+  private sessionManager: SessionManager;
+
+  /**
+   * @param sessionManager - Store that keeps each diagram by diagramId (defaults to the shared instance)
+   */
+  constructor(sessionManager: SessionManager = defaultSessionManager) {
+    super(VisualReasoningSchema, VisualReasoningOutputSchema);
+    this.sessionManager = sessionManager;
   }
 
-  protected handle(validInput: VisualReasoningData): any {
+  protected handle(validInput: VisualReasoningData): VisualReasoningOutput {
     return this.process(validInput);
   }
 
@@ -20,16 +29,19 @@ export class VisualReasoningServer extends BaseToolServer<VisualReasoningData, a
    * @param validInput - Validated visual reasoning data
    * @returns Processed visual reasoning result
    */
-  public process(validInput: VisualReasoningData): any {
+  public process(validInput: VisualReasoningData): VisualReasoningOutput {
+    // Apply the operation to the diagram as stored so far
+    const applied = this.applyOperation(validInput);
+
     // Format output using boxed utility
-    const formattedOutput = this.formatVisualOutput(validInput);
+    const formattedOutput = this.formatVisualOutput(validInput, applied);
 
     // Log formatted output to console (suppress during tests)
     if (process.env.NODE_ENV !== 'test' && process.env.JEST_WORKER_ID === undefined) {
       console.error(formattedOutput);
     }
 
-    return {
+    const result: VisualReasoningOutput = {
       diagramId: validInput.diagramId,
       diagramType: validInput.diagramType,
       operation: validInput.operation,
@@ -41,12 +53,40 @@ export class VisualReasoningServer extends BaseToolServer<VisualReasoningData, a
       hasInsight: !!validInput.insight,
       hasHypothesis: !!validInput.hypothesis,
       transformationType: validInput.transformationType,
+      removedElementIds: validInput.operation === 'delete' ? applied.removedElementIds : undefined,
+      diagram: { elements: applied.elements, ...summarizeDiagram(applied.elements) },
       timestamp: new Date().toISOString(),
       framework: 'clear-thought-tools'
     };
+
+    // Keep the diagram operation so it can be read back as a resource
+    this.sessionManager.addRecordEntry('diagram', validInput.diagramId, { at: result.timestamp, input: validInput, result });
+
+    return result;
+  }
+
+  /**
+   * Apply this operation to the diagram as left by the latest stored operation
+   * @throws ValidationError if the operation references missing elements, leaves edges or containers dangling
+   * or transforms more than its transformationType allows
+   */
+  private applyOperation(validInput: VisualReasoningData): DiagramOperationResult {
+    const entries = this.sessionManager.getRecord('diagram', validInput.diagramId)?.entries ?? [];
+    const latest = entries[entries.length - 1]?.result as VisualReasoningOutput | undefined;
+    const applied = applyDiagramOperation(latest?.diagram.elements ?? [], validInput);
+
+    if (applied.problems.length > 0) {
+      throw new ValidationError(`Cannot ${validInput.operation} in diagram "${validInput.diagramId}": ${applied.problems.join('; ')}`, {
+        field: 'elements',
+        diagramId: validInput.diagramId,
+        problems: applied.problems
+      });
+    }
+
+    return applied;
   }
 
-  private formatVisualOutput(data: VisualReasoningData): string {
+  private formatVisualOutput(data: VisualReasoningData, applied: DiagramOperationResult): string {
     const sections: Record<string, string | string[]> = {
       'Diagram ID': data.diagramId,
       'Diagram Type': data.diagramType.replace(/([A-Z])/g, ' $1').trim().toUpperCase(),
@@ -76,6 +116,14 @@ export class VisualReasoningServer extends BaseToolServer<VisualReasoningData, a
       });
     }
 
+    // Diagram state
+    const summary = summarizeDiagram(applied.elements);
+    sections['Diagram'] = `${summary.nodeCount} nodes, ${summary.edgeCount} edges, ${summary.containerCount} containers, ${summary.annotationCount} annotations`;
+
+    if (applied.removedElementIds.length > 0) {
+      sections['Removed'] = applied.removedElementIds.map(id => `• ${id}`);
+    }
+
     // Observation
     if (data.observation) {
       sections['Observation'] = data.observation;
@@ -1,3 +1,6 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
 interface SessionData {
   thoughtHistory: ThoughtData[];
   branches: Record<string, ThoughtData[]>;
@@ -17,6 +20,37 @@ interface ThoughtData {
   nextThoughtNeeded: boolean;
 }
 
+/**
+ * Kinds of tool output kept next to thought sessions, keyed by the id the tool was given
+ */
+export type RecordKind = 'decision' | 'diagram' | 'inquiry' | 'debate';
+
+/**
+ * One tool call that contributed to a record
+ */
+export interface RecordEntry {
+  at: string;
+  input: unknown;
+  result: unknown;
+}
+
+export interface StoredRecord {
+  kind: RecordKind;
+  id: string;
+  entries: RecordEntry[];
+  createdAt: Date;
+  lastAccessedAt: Date;
+}
+
+/**
+ * Notification that a session or record was created, extended or removed
+ */
+export interface StoreChange {
+  kind: 'session' | RecordKind;
+  id: string;
+  change: 'created' | 'updated' | 'removed';
+}
+
 export interface SessionManager {
   createSession(sessionId: string): void;
   getSession(sessionId: string): SessionData | null;
@@ -26,18 +60,36 @@ export interface SessionManager {
   addBranch(sessionId: string, branchId: string, thought: ThoughtData): void;
   getThoughtHistory(sessionId: string): ThoughtData[];
   getBranches(sessionId: string): Record<string, ThoughtData[]>;
+  listSessionIds(): string[];
+  addRecordEntry(kind: RecordKind, id: string, entry: RecordEntry): void;
+  getRecord(kind: RecordKind, id: string): StoredRecord | null;
+  listRecords(kind: RecordKind): StoredRecord[];
+  onChange(listener: (change: StoreChange) => void): () => void;
+}
+
+export interface SessionManagerOptions {
+  sessionTimeoutMs?: number;
+  cleanupIntervalMs?: number;
 }
 
+export const DEFAULT_SESSION_TIMEOUT_MS = 60 * 60 * 1000; // 1 hour
+export const DEFAULT_CLEANUP_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+
 export class InMemorySessionManager implements SessionManager {
-  private sessions: Map<string, SessionData> = new Map();
-  private readonly SESSION_TIMEOUT_MS = 60 * 60 * 1000; // 1 hour
+  protected sessions: Map<string, SessionData> = new Map();
+  protected records: Map<string, StoredRecord> = new Map();
+  private listeners: Set<(change: StoreChange) => void> = new Set();
+  protected readonly SESSION_TIMEOUT_MS: number;
   private cleanupInterval: NodeJS.Timeout;
 
-  constructor() {
-    // Run cleanup every 15 minutes
+  constructor(options: SessionManagerOptions = {}) {
+    this.SESSION_TIMEOUT_MS = options.sessionTimeoutMs ?? DEFAULT_SESSION_TIMEOUT_MS;
+
     this.cleanupInterval = setInterval(() => {
       this.cleanupExpiredSessions();
-    }, 15 * 60 * 1000);
+    }, options.cleanupIntervalMs ?? DEFAULT_CLEANUP_INTERVAL_MS);
+    // Don't keep the process alive just for cleanup
+    this.cleanupInterval.unref();
   }
 
   createSession(sessionId: string): void {
@@ -48,6 +100,7 @@ export class InMemorySessionManager implements SessionManager {
       createdAt: now,
       lastAccessedAt: now,
     });
+    this.emit({ kind: 'session', id: sessionId, change: 'created' });
   }
 
   getSession(sessionId: string): SessionData | null {
@@ -60,7 +113,9 @@ export class InMemorySessionManager implements SessionManager {
   }
 
   clearSession(sessionId: string): void {
-    this.sessions.delete(sessionId);
+    if (this.sessions.delete(sessionId)) {
+      this.emit({ kind: 'session', id: sessionId, change: 'removed' });
+    }
   }
 
   cleanupExpiredSessions(): void {
@@ -74,22 +129,38 @@ export class InMemorySessionManager implements SessionManager {
       }
     }
 
+    for (const record of [...this.records.values()]) {
+      if (now.getTime() - record.lastAccessedAt.getTime() > this.SESSION_TIMEOUT_MS) {
+        this.expireRecord(record.kind, record.id);
+      }
+    }
+
     for (const sessionId of expiredSessions) {
-      this.sessions.delete(sessionId);
-      // Log cleanup to console (suppress during tests)
+      this.expireSession(sessionId);
+      // Log cleanup to stderr, stdout carries the stdio transport (suppress during tests)
       if (process.env.NODE_ENV !== 'test' && process.env.JEST_WORKER_ID === undefined) {
-        console.log(`Cleaned up expired session: ${sessionId}`);
+        console.error(`Cleaned up expired session: ${sessionId}`);
       }
     }
 
     if (expiredSessions.length > 0) {
       // Log cleanup summary to console (suppress during tests)
       if (process.env.NODE_ENV !== 'test' && process.env.JEST_WORKER_ID === undefined) {
-        console.log(`Cleaned up ${expiredSessions.length} expired sessions`);
+        console.error(`Cleaned up ${expiredSessions.length} expired sessions`);
       }
     }
   }
 
+  protected expireSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    this.emit({ kind: 'session', id: sessionId, change: 'removed' });
+  }
+
+  protected expireRecord(kind: RecordKind, id: string): void {
+    this.records.delete(recordKey(kind, id));
+    this.emit({ kind, id, change: 'removed' });
+  }
+
   addThought(sessionId: string, thought: ThoughtData): void {
     let session = this.getSession(sessionId);
     if (!session) {
@@ -97,6 +168,7 @@ export class InMemorySessionManager implements SessionManager {
       session = this.getSession(sessionId)!;
     }
     session.thoughtHistory.push(thought);
+    this.emit({ kind: 'session', id: sessionId, change: 'updated' });
   }
 
   addBranch(sessionId: string, branchId: string, thought: ThoughtData): void {
@@ -110,6 +182,7 @@ export class InMemorySessionManager implements SessionManager {
       session.branches[branchId] = [];
     }
     session.branches[branchId].push(thought);
+    this.emit({ kind: 'session', id: sessionId, change: 'updated' });
   }
 
   getThoughtHistory(sessionId: string): ThoughtData[] {
@@ -122,11 +195,63 @@ export class InMemorySessionManager implements SessionManager {
     return session ? session.branches : {};
   }
 
+  listSessionIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  /**
+   * Append a tool call to the record with the given kind and id, creating it if needed
+   */
+  addRecordEntry(kind: RecordKind, id: string, entry: RecordEntry): void {
+    const key = recordKey(kind, id);
+    const now = new Date();
+    const existing = this.records.get(key);
+    if (existing) {
+      existing.entries.push(entry);
+      existing.lastAccessedAt = now;
+    } else {
+      this.records.set(key, { kind, id, entries: [entry], createdAt: now, lastAccessedAt: now });
+    }
+    this.emit({ kind, id, change: existing ? 'updated' : 'created' });
+  }
+
+  getRecord(kind: RecordKind, id: string): StoredRecord | null {
+    const record = this.records.get(recordKey(kind, id));
+    if (record) {
+      record.lastAccessedAt = new Date();
+      return record;
+    }
+    return null;
+  }
+
+  listRecords(kind: RecordKind): StoredRecord[] {
+    return [...this.records.values()].filter(record => record.kind === kind);
+  }
+
+  /**
+   * Listen for sessions and records being created, extended or removed
+   * @returns Function that removes the listener
+   */
+  onChange(listener: (change: StoreChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected emit(change: StoreChange): void {
+    for (const listener of this.listeners) {
+      listener(change);
+    }
+  }
+
   destroy(): void {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
     this.sessions.clear();
+    this.records.clear();
+    this.listeners.clear();
   }
 
   // Utility methods for monitoring
@@ -150,5 +275,278 @@ export class InMemorySessionManager implements SessionManager {
   }
 }
 
+function recordKey(kind: RecordKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+type SessionEvent =
+  | { type: 'create'; sessionId: string; at: string }
+  | { type: 'thought'; sessionId: string; at: string; thought: ThoughtData }
+  | { type: 'branch'; sessionId: string; at: string; branchId: string; thought: ThoughtData }
+  | { type: 'clear'; sessionId: string; at: string }
+  | { type: 'expire'; sessionId: string; at: string }
+  | { type: 'record'; kind: RecordKind; id: string; at: string; entry: RecordEntry }
+  | { type: 'expireRecord'; kind: RecordKind; id: string; at: string }
+  | { type: 'touch'; sessionId: string; at: string }
+  | { type: 'touchRecord'; kind: RecordKind; id: string; at: string };
+
+// Reads are logged as touch events at most this often per session or record
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+function eventKey(event: SessionEvent): string {
+  return 'sessionId' in event ? `session:${event.sessionId}` : recordKey(event.kind, event.id);
+}
+
+export interface FileSessionManagerOptions extends SessionManagerOptions {
+  filePath: string;
+}
+
+/**
+ * Session manager backed by an append-only JSONL event log.
+ * Every mutation is appended as one line. On startup the log is replayed,
+ * sessions past the TTL are dropped and the file is rewritten with only the
+ * live state, so cleared, expired and touch lines do not pile up across restarts.
+ * Reads are logged too, as touch events at most once a minute per session or
+ * record, so the TTL still counts from the last access after a restart.
+ */
+export class FileSessionManager extends InMemorySessionManager {
+  private readonly filePath: string;
+  // Time of the latest logged event for each session and record
+  private readonly loggedAccess: Map<string, number> = new Map();
+
+  constructor(options: FileSessionManagerOptions) {
+    super(options);
+    this.filePath = options.filePath;
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    this.replay();
+    this.cleanupExpiredSessions();
+    this.compact();
+  }
+
+  createSession(sessionId: string): void {
+    super.createSession(sessionId);
+    this.append({ type: 'create', sessionId, at: new Date().toISOString() });
+  }
+
+  clearSession(sessionId: string): void {
+    super.clearSession(sessionId);
+    this.append({ type: 'clear', sessionId, at: new Date().toISOString() });
+  }
+
+  addThought(sessionId: string, thought: ThoughtData): void {
+    super.addThought(sessionId, thought);
+    this.append({ type: 'thought', sessionId, at: new Date().toISOString(), thought });
+  }
+
+  addBranch(sessionId: string, branchId: string, thought: ThoughtData): void {
+    super.addBranch(sessionId, branchId, thought);
+    this.append({ type: 'branch', sessionId, at: new Date().toISOString(), branchId, thought });
+  }
+
+  addRecordEntry(kind: RecordKind, id: string, entry: RecordEntry): void {
+    super.addRecordEntry(kind, id, entry);
+    this.append({ type: 'record', kind, id, at: new Date().toISOString(), entry });
+  }
+
+  getSession(sessionId: string): SessionData | null {
+    const session = super.getSession(sessionId);
+    if (session) {
+      this.touch({ type: 'touch', sessionId, at: session.lastAccessedAt.toISOString() });
+    }
+    return session;
+  }
+
+  getRecord(kind: RecordKind, id: string): StoredRecord | null {
+    const record = super.getRecord(kind, id);
+    if (record) {
+      this.touch({ type: 'touchRecord', kind, id, at: record.lastAccessedAt.toISOString() });
+    }
+    return record;
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  protected expireSession(sessionId: string): void {
+    super.expireSession(sessionId);
+    this.append({ type: 'expire', sessionId, at: new Date().toISOString() });
+  }
+
+  protected expireRecord(kind: RecordKind, id: string): void {
+    super.expireRecord(kind, id);
+    this.append({ type: 'expireRecord', kind, id, at: new Date().toISOString() });
+  }
+
+  private append(event: SessionEvent): void {
+    appendFileSync(this.filePath, JSON.stringify(event) + '\n', 'utf8');
+    this.noteLogged(event);
+  }
+
+  /**
+   * Log an access unless the session or record already has a recent event in the log
+   */
+  private touch(event: SessionEvent): void {
+    if (Date.parse(event.at) - (this.loggedAccess.get(eventKey(event)) ?? 0) >= TOUCH_INTERVAL_MS) {
+      this.append(event);
+    }
+  }
+
+  private noteLogged(event: SessionEvent): void {
+    if (event.type === 'clear' || event.type === 'expire' || event.type === 'expireRecord') {
+      this.loggedAccess.delete(eventKey(event));
+    } else {
+      this.loggedAccess.set(eventKey(event), Date.parse(event.at));
+    }
+  }
+
+  /**
+   * Rewrite the log with just the events needed to rebuild the live sessions and records.
+   * Follow-up events carry the last access time, so the TTL survives without touch lines.
+   */
+  private compact(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    const events: SessionEvent[] = [];
+    for (const [sessionId, session] of this.sessions) {
+      const createdAt = session.createdAt.toISOString();
+      const at = session.lastAccessedAt.toISOString();
+      events.push({ type: 'create', sessionId, at: createdAt });
+      for (const thought of session.thoughtHistory) {
+        events.push({ type: 'thought', sessionId, at, thought });
+      }
+      for (const [branchId, thoughts] of Object.entries(session.branches)) {
+        for (const thought of thoughts) {
+          events.push({ type: 'branch', sessionId, at, branchId, thought });
+        }
+      }
+      if (events[events.length - 1].at !== at) {
+        events.push({ type: 'touch', sessionId, at });
+      }
+    }
+    for (const { kind, id, entries, createdAt, lastAccessedAt } of this.records.values()) {
+      const at = lastAccessedAt.toISOString();
+      entries.forEach((entry, index) => {
+        events.push({ type: 'record', kind, id, at: index === 0 ? createdAt.toISOString() : at, entry });
+      });
+      if (events[events.length - 1].at !== at) {
+        events.push({ type: 'touchRecord', kind, id, at });
+      }
+    }
+
+    // Write aside and rename, so a crash mid-write leaves the old log intact
+    const tempPath = `${this.filePath}.compact`;
+    writeFileSync(tempPath, events.map(event => JSON.stringify(event) + '\n').join(''), 'utf8');
+    renameSync(tempPath, this.filePath);
+    this.loggedAccess.clear();
+    events.forEach(event => this.noteLogged(event));
+  }
+
+  /**
+   * Rebuild in-memory sessions from the event log without re-appending.
+   * Last access time is restored from the session's most recent event, touches included.
+   */
+  private replay(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = readFileSync(this.filePath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+
+      let event: SessionEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        // Skip a torn write at the end of the log
+        continue;
+      }
+
+      const at = new Date(event.at);
+      this.noteLogged(event);
+      if (event.type === 'touch' || event.type === 'touchRecord') {
+        const touched = event.type === 'touch' ? this.sessions.get(event.sessionId) : this.records.get(recordKey(event.kind, event.id));
+        if (touched) {
+          touched.lastAccessedAt = at;
+        }
+        continue;
+      }
+      if (event.type === 'record') {
+        const record = this.records.get(recordKey(event.kind, event.id));
+        if (record) {
+          record.entries.push(event.entry);
+          record.lastAccessedAt = at;
+        } else {
+          this.records.set(recordKey(event.kind, event.id), {
+            kind: event.kind, id: event.id, entries: [event.entry], createdAt: at, lastAccessedAt: at
+          });
+        }
+        continue;
+      }
+      if (event.type === 'expireRecord') {
+        this.records.delete(recordKey(event.kind, event.id));
+        continue;
+      }
+      if (event.type === 'clear' || event.type === 'expire') {
+        this.sessions.delete(event.sessionId);
+        continue;
+      }
+
+      let session = this.sessions.get(event.sessionId);
+      if (!session) {
+        session = { thoughtHistory: [], branches: {}, createdAt: at, lastAccessedAt: at };
+        this.sessions.set(event.sessionId, session);
+      }
+      session.lastAccessedAt = at;
+
+      if (event.type === 'thought') {
+        session.thoughtHistory.push(event.thought);
+      } else if (event.type === 'branch') {
+        if (!session.branches[event.branchId]) {
+          session.branches[event.branchId] = [];
+        }
+        session.branches[event.branchId].push(event.thought);
+      }
+    }
+  }
+}
+
+export interface SessionStoreConfig extends SessionManagerOptions {
+  store: 'memory' | 'file';
+  filePath?: string;
+}
+
+/**
+ * Create a session manager for the configured storage backend
+ * @param config - Storage backend, TTL and (for file storage) the log path
+ * @returns Session manager instance
+ */
+export function createSessionManager(config: SessionStoreConfig): InMemorySessionManager {
+  if (config.store === 'file') {
+    if (!config.filePath) {
+      throw new Error('File session store requires a filePath');
+    }
+    return new FileSessionManager({ ...config, filePath: config.filePath });
+  }
+  return new InMemorySessionManager(config);
+}
+
 // Export a singleton instance
-export const sessionManager = new InMemorySessionManager();
+export let sessionManager: InMemorySessionManager = new InMemorySessionManager();
+
+/**
+ * Replace the shared session manager, e.g. from command line configuration.
+ * Must run before tool servers are constructed, since they capture it.
+ * @param config - Session store configuration
+ * @returns The new shared session manager
+ */
+export function configureSessionManager(config: SessionStoreConfig): InMemorySessionManager {
+  sessionManager.destroy();
+  sessionManager = createSessionManager(config);
+  return sessionManager;
+}
@@ -0,0 +1,287 @@
+import { createServer, IncomingMessage, ServerResponse, Server as HttpServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { DEFAULT_SESSION_TIMEOUT_MS, DEFAULT_CLEANUP_INTERVAL_MS } from '../services/SessionManager.js';
+import { MAX_INPUT_BYTES } from '../base/BaseToolServer.js';
+
+/**
+ * Endpoint paths served by the HTTP transport
+ */
+export const HTTP_ENDPOINTS = {
+  streamable: '/mcp',
+  sse: '/sse',
+  messages: '/messages',
+} as const;
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Idle time after which a client session and its MCP server are closed */
+  sessionTimeoutMs?: number;
+  cleanupIntervalMs?: number;
+}
+
+/**
+ * Handle returned by startHttpTransport for inspecting and stopping the listener
+ */
+export interface HttpTransportHandle {
+  httpServer: HttpServer;
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Send a JSON-RPC error without an id, used before a transport owns the request
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+}
+
+/**
+ * Raised when a request body grows past MAX_INPUT_BYTES
+ */
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_INPUT_BYTES} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+/**
+ * Read and parse a JSON request body, giving up as soon as it passes MAX_INPUT_BYTES
+ * so an oversized request is never buffered whole
+ * @throws BodyTooLargeError if the body is too large, SyntaxError if it is not JSON
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length'] ?? 0) > MAX_INPUT_BYTES) {
+      reject(new BodyTooLargeError());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_INPUT_BYTES) {
+        // Stop reading; the connection is closed once the 413 has been sent
+        req.off('data', onData);
+        req.pause();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('error', reject);
+    req.on('end', () => {
+      try {
+        const raw = Buffer.concat(chunks).toString('utf8');
+        resolve(raw.length > 0 ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+/**
+ * Read the JSON body of a POST, answering 413 or 400 itself when it cannot be used
+ * @returns The parsed body, or undefined with `ok` false once an error response was sent
+ */
+async function readPostBody(req: IncomingMessage, res: ServerResponse): Promise<{ ok: boolean; body?: unknown }> {
+  try {
+    return { ok: true, body: await readJsonBody(req) };
+  } catch (error) {
+    if (error instanceof BodyTooLargeError) {
+      res.setHeader('Connection', 'close');
+      res.on('finish', () => req.destroy());
+      sendJsonRpcError(res, 413, -32600, `Payload Too Large: ${error.message}`);
+    } else {
+      sendJsonRpcError(res, 400, -32700, 'Parse error: Invalid JSON');
+    }
+    return { ok: false };
+  }
+}
+
+/**
+ * Serve MCP over streamable HTTP at /mcp, with the legacy SSE transport
+ * (GET /sse + POST /messages) as a fallback for older clients.
+ * Every client session gets its own MCP server from the factory. Clients can vanish
+ * without ending their session, so sessions idle for longer than the timeout are
+ * closed along with their server.
+ * @param createMcpServer - Factory producing a configured MCP server
+ * @param options - Host and port to listen on (port 0 picks a free port) and idle timeout
+ * @returns Handle for the running listener
+ */
+export async function startHttpTransport(
+  createMcpServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const lastActivity = new Map<string, number>();
+  const sessionTimeoutMs = options.sessionTimeoutMs ?? DEFAULT_SESSION_TIMEOUT_MS;
+
+  const touch = (sessionId: string): void => {
+    lastActivity.set(sessionId, Date.now());
+  };
+
+  const evictIdleSessions = (): void => {
+    const cutoff = Date.now() - sessionTimeoutMs;
+    for (const [sessionId, at] of lastActivity) {
+      if (at <= cutoff) {
+        lastActivity.delete(sessionId);
+        const transport = streamableTransports.get(sessionId) ?? sseTransports.get(sessionId);
+        transport?.close().catch(error => console.error(`Error closing idle session ${sessionId}:`, error));
+      }
+    }
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const existing = sessionId ? streamableTransports.get(sessionId) : undefined;
+
+    // A session that was terminated or evicted gets 404, which tells the client to initialize again
+    if (sessionId && !existing) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    if (sessionId) {
+      touch(sessionId);
+    }
+
+    if (req.method !== 'POST') {
+      if (!existing) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    const { ok, body } = await readPostBody(req, res);
+    if (!ok) {
+      return;
+    }
+
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        streamableTransports.set(newSessionId, transport);
+        touch(newSessionId);
+      }
+    });
+
+    await createMcpServer().connect(transport);
+    // connect() replaces onclose with the server's own handler, so chain onto it afterwards
+    const closeServer = transport.onclose;
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+        lastActivity.delete(transport.sessionId);
+      }
+      closeServer?.();
+    };
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport(HTTP_ENDPOINTS.messages, res);
+    sseTransports.set(transport.sessionId, transport);
+    touch(transport.sessionId);
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+      lastActivity.delete(transport.sessionId);
+    });
+    await createMcpServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId');
+    const transport = sessionId ? sseTransports.get(sessionId) : undefined;
+    if (!transport) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: Unknown SSE session');
+      return;
+    }
+    touch(transport.sessionId);
+    const { ok, body } = await readPostBody(req, res);
+    if (ok) {
+      await transport.handlePostMessage(req, res, body);
+    }
+  };
+
+  const httpServer = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    const route = async (): Promise<void> => {
+      if (url.pathname === HTTP_ENDPOINTS.streamable) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === HTTP_ENDPOINTS.sse && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === HTTP_ENDPOINTS.messages && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+      }
+    };
+
+    route().catch((error) => {
+      console.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+
+  const cleanupInterval = setInterval(evictIdleSessions, options.cleanupIntervalMs ?? DEFAULT_CLEANUP_INTERVAL_MS);
+  // Don't keep the process alive just for cleanup
+  cleanupInterval.unref();
+
+  return {
+    httpServer,
+    url: `http://${options.host}:${address.port}`,
+    close: async () => {
+      clearInterval(cleanupInterval);
+      const transports = [...streamableTransports.values(), ...sseTransports.values()];
+      await Promise.all(transports.map(transport => transport.close()));
+      streamableTransports.clear();
+      sseTransports.clear();
+      lastActivity.clear();
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(error => error ? reject(error) : resolve());
+      });
+    }
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * Tests for argument graphs
+ * Tests attack construction, grounded, preferred and stable extensions, and debate state
+ */
+
+import {
+  buildArgumentGraph,
+  evaluateArgumentGraph,
+  groundedLabelling,
+  analyzeDebate,
+  argumentKey
+} from '../../src/algorithms/argumentation.js';
+import { ArgumentData } from '../../src/interfaces/StructuredArgumentationInterfaces.js';
+
+const argument = (argumentId: string, fields: Partial<ArgumentData> = {}): ArgumentData => ({
+  claim: `Claim ${argumentId}`,
+  premises: [],
+  conclusion: `Conclusion ${argumentId}`,
+  argumentId,
+  argumentType: 'thesis',
+  confidence: 0.5,
+  nextArgumentNeeded: true,
+  ...fields
+});
+
+const objection = (argumentId: string, respondsTo: string) => argument(argumentId, { argumentType: 'objection', respondsTo });
+
+describe('buildArgumentGraph', () => {
+  it('should attack contradicted arguments and the targets of objections, rebuttals and antitheses', () => {
+    const graph = buildArgumentGraph([
+      argument('t'),
+      argument('a', { argumentType: 'antithesis', respondsTo: 't' }),
+      objection('o', 'a'),
+      argument('r', { argumentType: 'rebuttal', respondsTo: 'o', contradicts: ['o'] }),
+      argument('s', { argumentType: 'synthesis', respondsTo: 't', supports: ['t'] })
+    ]);
+
+    expect(graph.attacks).toEqual([
+      { from: 'a', to: 't' },
+      { from: 'o', to: 'a' },
+      { from: 'r', to: 'o' }
+    ]);
+    expect(graph.supports).toEqual([{ from: 's', to: 't' }]);
+    expect(graph.warnings).toEqual([]);
+  });
+
+  it('should number arguments without an id by position', () => {
+    const untitled = { ...argument('x'), argumentId: undefined };
+
+    expect(argumentKey(untitled, 2)).toBe('argument-3');
+    expect(buildArgumentGraph([argument('t'), untitled]).arguments.map(node => node.argumentId)).toEqual(['t', 'argument-2']);
+  });
+
+  it('should let a later argument with the same id replace the earlier one', () => {
+    const graph = buildArgumentGraph([argument('t'), objection('o', 't'), argument('o', { claim: 'Withdrawn' })]);
+
+    expect(graph.arguments.map(node => node.claim)).toEqual(['Claim t', 'Withdrawn']);
+    expect(graph.attacks).toEqual([]);
+  });
+
+  it('should warn about references to unknown arguments', () => {
+    const graph = buildArgumentGraph([objection('o', 'missing'), argument('t', { supports: ['nowhere'] })]);
+
+    expect(graph.attacks).toEqual([]);
+    expect(graph.warnings).toEqual([
+      'Argument "o" responds to unknown argument "missing"',
+      'Argument "t" supports unknown argument "nowhere"'
+    ]);
+  });
+});
+
+describe('evaluateArgumentGraph', () => {
+  it('should reinstate an argument whose attacker is defeated', () => {
+    const result = evaluateArgumentGraph(buildArgumentGraph([argument('t'), objection('o', 't'), objection('r', 'o')]));
+
+    expect(result.accepted).toEqual(['t', 'r']);
+    expect(result.defeated).toEqual(['o']);
+    expect(result.extensions).toEqual({ grounded: ['t', 'r'], preferred: [['t', 'r']], stable: [['t', 'r']] });
+  });
+
+  it('should leave mutual attacks undecided with one preferred extension per side', () => {
+    const result = evaluateArgumentGraph(buildArgumentGraph([
+      argument('a', { contradicts: ['b'] }),
+      argument('b', { contradicts: ['a'] }),
+      argument('c', { supports: ['a'] })
+    ]));
+
+    expect(result.status).toEqual({ a: 'undecided', b: 'undecided', c: 'accepted' });
+    expect(result.extensions.grounded).toEqual(['c']);
+    expect(result.extensions.preferred).toEqual([['a', 'c'], ['b', 'c']]);
+    expect(result.extensions.stable).toEqual([['a', 'c'], ['b', 'c']]);
+  });
+
+  it('should find no stable extension for an odd cycle', () => {
+    const result = evaluateArgumentGraph(buildArgumentGraph([objection('a', 'c'), objection('b', 'a'), objection('c', 'b')]));
+
+    expect(result.undecided).toEqual(['a', 'b', 'c']);
+    expect(result.extensions.preferred).toEqual([[]]);
+    expect(result.extensions.stable).toEqual([]);
+  });
+
+  it('should exclude self-attacking arguments from every extension', () => {
+    const graph = buildArgumentGraph([argument('a', { contradicts: ['a'] }), argument('b')]);
+
+    expect(groundedLabelling(graph)).toEqual({ a: 'undecided', b: 'accepted' });
+    expect(evaluateArgumentGraph(graph).extensions.preferred).toEqual([['b']]);
+  });
+
+  it('should skip preferred and stable extensions when too many arguments are undecided', () => {
+    const cycle = Array.from({ length: 17 }, (_, i) => objection(`a${i}`, `a${(i + 1) % 17}`));
+
+    const result = evaluateArgumentGraph(buildArgumentGraph(cycle));
+
+    expect(result.undecided).toHaveLength(17);
+    expect(result.extensions).toEqual({ grounded: [] });
+    expect(result.warnings).toEqual(['Preferred and stable extensions skipped: 17 undecided arguments exceed the limit of 16']);
+  });
+});
+
+describe('analyzeDebate', () => {
+  const analyze = (debate: ArgumentData[]) => {
+    const graph = buildArgumentGraph(debate);
+    return analyzeDebate(graph, evaluateArgumentGraph(graph));
+  };
+
+  it('should ask for a thesis to open an empty debate', () => {
+    expect(analyze([])).toEqual({ stage: 'opening', unanswered: [], suggestedNextTypes: ['thesis'] });
+  });
+
+  it('should count an argument as answered once something responds to or contradicts it', () => {
+    const state = analyze([
+      argument('t'),
+      argument('a', { argumentType: 'antithesis', respondsTo: 't' }),
+      argument('u', { contradicts: ['a'] })
+    ]);
+
+    expect(state.unanswered).toEqual(['u']);
+    expect(state.stage).toBe('answered');
+  });
+
+  it('should stay contested while an objection or antithesis is unanswered', () => {
+    const state = analyze([argument('t'), argument('a', { argumentType: 'antithesis', respondsTo: 't' })]);
+
+    expect(state).toEqual({ stage: 'contested', unanswered: ['a'], suggestedNextTypes: ['synthesis', 'rebuttal'] });
+  });
+
+  it('should suggest a synthesis while claims are undecided', () => {
+    const state = analyze([
+      argument('a', { contradicts: ['b'] }),
+      argument('b', { contradicts: ['a'] })
+    ]);
+
+    expect(state.stage).toBe('answered');
+    expect(state.suggestedNextTypes).toEqual(['synthesis']);
+  });
+
+  it('should mark the debate synthesized once a synthesis leaves no challenge open', () => {
+    const state = analyze([
+      argument('t'),
+      objection('o', 't'),
+      argument('r', { argumentType: 'rebuttal', respondsTo: 'o' }),
+      argument('s', { argumentType: 'synthesis', respondsTo: 'r' })
+    ]);
+
+    expect(state).toEqual({ stage: 'synthesized', unanswered: ['s'], suggestedNextTypes: ['objection'] });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for the multi-armed bandit simulator
+ * Tests epsilon-greedy, UCB1 and Thompson sampling on simulated and observed pulls
+ */
+
+import { runBandit, BanditDefinition } from '../../src/algorithms/bandit.js';
+import { createRandom } from '../../src/algorithms/random.js';
+
+const createBandit = (overrides: Partial<BanditDefinition> = {}): BanditDefinition => ({
+  arms: [
+    { id: 'control', distribution: { type: 'bernoulli', p: 0.05 } },
+    { id: 'variant', distribution: { type: 'bernoulli', p: 0.12 } }
+  ],
+  policy: 'thompson',
+  epsilon: 0.1,
+  rounds: 2000,
+  ...overrides
+});
+
+describe('runBandit', () => {
+  describe.each(['epsilon-greedy', 'ucb1', 'thompson'] as const)('%s', policy => {
+    it('should learn to favour the better arm', () => {
+      const result = runBandit(createBandit({ policy }), createRandom(11));
+      const [control, variant] = result.arms;
+
+      expect(result.simulatedRounds).toBe(2000);
+      expect(variant.simulatedPulls).toBeGreaterThan(control.simulatedPulls);
+      expect(result.recommendedArm).toBe('variant');
+      expect(result.regretBasis).toBe('true-means');
+    });
+  });
+
+  it('should accumulate regret only for pulls of worse arms', () => {
+    const result = runBandit(createBandit(), createRandom(3));
+    const control = result.arms.find(arm => arm.id === 'control')!;
+
+    expect(result.cumulativeRegret).toBeCloseTo(control.pulls * 0.07);
+  });
+
+  it('should beat uniform allocation on regret', () => {
+    const result = runBandit(createBandit(), createRandom(3));
+
+    expect(result.cumulativeRegret).toBeLessThan(2000 / 2 * 0.07);
+  });
+
+  it('should analyze observed histories without simulating', () => {
+    const result = runBandit(createBandit({
+      arms: [
+        { id: 'a', history: { pulls: 1000, totalReward: 50 } },
+        { id: 'b', history: { pulls: 1000, totalReward: 80 } }
+      ]
+    }), createRandom(5));
+
+    expect(result.simulatedRounds).toBe(0);
+    expect(result.regretBasis).toBe('estimated-means');
+    expect(result.arms[0].posteriorMean).toBeCloseTo(51 / 1002);
+    expect(result.arms[1].meanReward).toBeCloseTo(0.08);
+    expect(result.arms[1].probabilityBest).toBeGreaterThan(0.95);
+    expect(result.recommendedArm).toBe('b');
+  });
+
+  it('should recommend an untried arm under UCB1', () => {
+    const result = runBandit(createBandit({
+      policy: 'ucb1',
+      arms: [
+        { id: 'a', history: { pulls: 100, totalReward: 60 } },
+        { id: 'b', history: { pulls: 0, totalReward: 0 } }
+      ]
+    }), createRandom(5));
+
+    expect(result.recommendedArm).toBe('b');
+  });
+
+  it('should support gaussian rewards', () => {
+    const result = runBandit(createBandit({
+      arms: [
+        { id: 'slow', distribution: { type: 'gaussian', mean: 120, stdDev: 30 } },
+        { id: 'fast', distribution: { type: 'gaussian', mean: 150, stdDev: 30 } }
+      ],
+      rounds: 500
+    }), createRandom(8));
+
+    expect(result.rewardModel).toBe('gaussian');
+    expect(result.recommendedArm).toBe('fast');
+    const fast = result.arms.find(arm => arm.id === 'fast')!;
+    expect(fast.credibleInterval[0]).toBeLessThan(150);
+    expect(fast.credibleInterval[1]).toBeGreaterThan(150);
+  });
+
+  it('should be reproducible for the same seed', () => {
+    expect(runBandit(createBandit({ rounds: 100 }), createRandom(9)))
+      .toEqual(runBandit(createBandit({ rounds: 100 }), createRandom(9)));
+  });
+});
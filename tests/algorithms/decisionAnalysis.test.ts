@@ -0,0 +1,129 @@
+/**
+ * Tests for outcome-based decision rules
+ * Tests expected utility, maximin, minimax regret and satisficing rankings
+ */
+
+import { analyzeOutcomes } from '../../src/algorithms/decisionAnalysis.js';
+import { DecisionOption, PossibleOutcome } from '../../src/interfaces/DecisionFrameworkInterfaces.js';
+
+const options: DecisionOption[] = [
+  { id: 'safe', name: 'Safe bond', description: 'Low risk' },
+  { id: 'stock', name: 'Stock', description: 'High risk' },
+  { id: 'mixed', name: 'Mixed', description: 'Balanced' }
+];
+
+const outcome = (optionId: string, description: string, probability: number, value: number): PossibleOutcome => ({
+  optionId,
+  description,
+  probability,
+  value,
+  confidenceInEstimate: 0.8
+});
+
+const outcomes: PossibleOutcome[] = [
+  outcome('safe', 'boom', 0.5, 50),
+  outcome('safe', 'bust', 0.5, 40),
+  outcome('stock', 'boom', 0.5, 200),
+  outcome('stock', 'bust', 0.5, -80),
+  outcome('mixed', 'boom', 0.5, 120),
+  outcome('mixed', 'bust', 0.5, 0)
+];
+
+describe('analyzeOutcomes', () => {
+  describe('expected-utility', () => {
+    it('should compute expected values and rank by them', () => {
+      const result = analyzeOutcomes(options, outcomes, 'expected-utility');
+
+      expect(result.expectedValues).toEqual({ safe: 45, stock: 60, mixed: 60 });
+      expect(result.ranking[0].score).toBe(60);
+      expect(result.ranking[2].optionId).toBe('safe');
+      expect(result.ranking.map(entry => entry.rank)).toEqual([1, 2, 3]);
+    });
+
+    it('should warn when probabilities do not sum to 1', () => {
+      const result = analyzeOutcomes(options.slice(0, 1), [outcome('safe', 'boom', 0.4, 10)], 'expected-utility');
+
+      expect(result.warnings).toContainEqual(expect.stringContaining('sum to 0.400'));
+    });
+  });
+
+  describe('maximin', () => {
+    it('should rank by the worst-case value', () => {
+      const result = analyzeOutcomes(options, outcomes, 'maximin');
+
+      expect(result.recommendedOptionId).toBe('safe');
+      expect(result.ranking.map(entry => entry.score)).toEqual([40, 0, -80]);
+    });
+  });
+
+  describe('minimax-regret', () => {
+    it('should rank by the smallest maximum regret across shared states', () => {
+      const result = analyzeOutcomes(options, outcomes, 'minimax-regret');
+
+      // Regrets: safe max(150, 0) = 150, stock max(0, 120) = 120, mixed max(80, 40) = 80
+      expect(result.recommendedOptionId).toBe('mixed');
+      expect(result.ranking.map(entry => entry.maxRegret)).toEqual([80, 120, 150]);
+    });
+
+    it('should warn when an option lacks a state', () => {
+      const result = analyzeOutcomes(options.slice(0, 2), [
+        outcome('safe', 'boom', 1, 50),
+        outcome('stock', 'boom', 0.5, 200),
+        outcome('stock', 'bust', 0.5, -80)
+      ], 'minimax-regret');
+
+      expect(result.warnings).toContainEqual(expect.stringContaining('no outcome for state(s): bust'));
+    });
+  });
+
+  describe('satisficing', () => {
+    it('should recommend an option whose worst case meets the aspiration level', () => {
+      const result = analyzeOutcomes(options, outcomes, 'satisficing', 0);
+
+      expect(result.aspirationLevel).toBe(0);
+      expect(result.ranking.filter(entry => entry.satisfices).map(entry => entry.optionId)).toEqual(['safe', 'mixed']);
+      expect(result.recommendedOptionId).toBe('safe');
+    });
+
+    it('should recommend the first acceptable option rather than the one with the best worst case', () => {
+      const reordered = [options[2], options[0], options[1]];
+
+      const result = analyzeOutcomes(reordered, outcomes, 'satisficing', 0);
+
+      expect(result.recommendedOptionId).toBe('mixed');
+      expect(result.ranking.map(entry => entry.optionId)).toEqual(['mixed', 'safe', 'stock']);
+      expect(analyzeOutcomes(reordered, outcomes, 'maximin').recommendedOptionId).toBe('safe');
+    });
+
+    it('should recommend nothing when no option satisfices', () => {
+      const result = analyzeOutcomes(options, outcomes, 'satisficing', 100);
+
+      expect(result.recommendedOptionId).toBeUndefined();
+      expect(result.warnings).toContain('No option meets the aspiration level');
+    });
+
+    it('should default the aspiration level to the mean outcome value', () => {
+      const result = analyzeOutcomes(options, outcomes, 'satisficing');
+
+      expect(result.aspirationLevel).toBeCloseTo(55);
+    });
+  });
+
+  it('should match outcomes to options by name when options have no id', () => {
+    const result = analyzeOutcomes(
+      [{ name: 'Build', description: 'In-house' }],
+      [outcome('Build', 'ok', 1, 10)],
+      'expected-utility'
+    );
+
+    expect(result.ranking[0]).toMatchObject({ optionId: 'Build', optionName: 'Build', score: 10 });
+  });
+
+  it('should report options without outcomes and unknown option references', () => {
+    const result = analyzeOutcomes(options, [outcome('safe', 'boom', 1, 50), outcome('ghost', 'boom', 1, 5)], 'expected-utility');
+
+    expect(result.ranking).toHaveLength(1);
+    expect(result.warnings).toContainEqual(expect.stringContaining('unknown option "ghost"'));
+    expect(result.warnings).toContainEqual(expect.stringContaining('Option "stock" has no possible outcomes'));
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for diagram operations
+ * Tests create, update, delete and transform on an element set and structural validation
+ */
+
+import {
+  applyDiagramOperation,
+  validateDiagram,
+  summarizeDiagram
+} from '../../src/algorithms/diagram.js';
+import { VisualElement, VisualOperationData } from '../../src/interfaces/VisualReasoningInterfaces.js';
+
+const node = (id: string, properties: Record<string, unknown> = {}): VisualElement => ({ id, type: 'node', properties });
+const edge = (id: string, source: string, target: string): VisualElement => ({ id, type: 'edge', source, target, properties: {} });
+const container = (id: string, contains: string[]): VisualElement => ({ id, type: 'container', contains, properties: {} });
+
+const operation = (
+  kind: VisualOperationData['operation'],
+  elements: VisualElement[],
+  transformationType?: VisualOperationData['transformationType']
+): VisualOperationData => ({
+  operation: kind,
+  elements,
+  transformationType,
+  diagramId: 'd',
+  diagramType: 'graph',
+  iteration: 1,
+  nextOperationNeeded: true
+});
+
+const base = [node('a'), node('b'), edge('a-b', 'a', 'b'), container('group', ['a', 'b'])];
+
+describe('validateDiagram', () => {
+  it('should accept edges between nodes and containers of existing elements', () => {
+    expect(validateDiagram([...base, edge('group-a', 'group', 'a')])).toEqual([]);
+  });
+
+  it('should report dangling edges and containers', () => {
+    expect(validateDiagram([
+      node('a'),
+      edge('e1', 'a', 'missing'),
+      { id: 'e2', type: 'edge', source: 'a', properties: {} },
+      { id: 'note', type: 'annotation', properties: {} },
+      edge('e3', 'a', 'note'),
+      container('c', ['c', 'ghost'])
+    ])).toEqual([
+      'Edge "e1" references missing node "missing"',
+      'Edge "e2" needs both a source and a target',
+      'Edge "e3" must connect nodes or containers, but "note" is of type annotation',
+      'Container "c" cannot contain itself',
+      'Container "c" contains missing element "ghost"'
+    ]);
+  });
+});
+
+describe('applyDiagramOperation', () => {
+  it('should add created elements', () => {
+    const result = applyDiagramOperation([], operation('create', base));
+
+    expect(result.elements).toEqual(base);
+    expect(result.problems).toEqual([]);
+  });
+
+  it('should reject edges to nodes that do not exist', () => {
+    const result = applyDiagramOperation([node('a')], operation('create', [edge('a-x', 'a', 'x')]));
+
+    expect(result.problems).toEqual(['Edge "a-x" references missing node "x"']);
+  });
+
+  it('should treat re-creating an identical element as a no-op but reject a conflicting one', () => {
+    expect(applyDiagramOperation(base, operation('create', [node('a')])).problems).toEqual([]);
+    expect(applyDiagramOperation(base, operation('create', [node('a', { color: 'red' })])).problems)
+      .toEqual(['Element "a" already exists; use update to change it']);
+  });
+
+  it('should merge updates into existing elements', () => {
+    const updated = applyDiagramOperation([node('a', { color: 'red', x: 0 })], operation('update', [{ ...node('a', { x: 10, shape: 'box' }), label: 'A' }]));
+
+    expect(updated.elements).toEqual([{ id: 'a', type: 'node', label: 'A', properties: { color: 'red', x: 10, shape: 'box' } }]);
+    expect(updated.problems).toEqual([]);
+  });
+
+  it('should only let a transform change what its transformationType names', () => {
+    const moved = applyDiagramOperation([node('a', { color: 'red', x: 0 })], operation('transform', [node('a', { x: 20, y: 5 })], 'move'));
+    expect(moved.elements).toEqual([node('a', { color: 'red', x: 20, y: 5 })]);
+    expect(moved.problems).toEqual([]);
+
+    // The same change that update accepts is rejected as a move
+    const relabelled = applyDiagramOperation([node('a', { x: 0 })], operation('transform', [{ ...node('a', { x: 10, shape: 'box' }), label: 'A' }], 'move'));
+    expect(relabelled.problems).toEqual([
+      'A move transform cannot change the label of "a"; use update',
+      'A move transform only changes x, y, position, so it cannot set shape on "a"'
+    ]);
+  });
+
+  it('should replace a container\'s contents on regroup', () => {
+    const regrouped = applyDiagramOperation(base, operation('transform', [container('group', ['a'])], 'regroup'));
+
+    expect(regrouped.elements[3]).toEqual(container('group', ['a']));
+    expect(applyDiagramOperation(base, operation('transform', [{ ...node('a'), contains: ['b'] }], 'regroup')).problems)
+      .toEqual(['A regroup transform applies to containers, but "a" is a node']);
+    expect(applyDiagramOperation(base, operation('transform', [container('group', ['a'])], 'recolor')).problems)
+      .toEqual(['A recolor transform cannot change what "group" contains; use regroup']);
+  });
+
+  it('should reject a transform without a transformationType', () => {
+    const result = applyDiagramOperation(base, operation('transform', [node('a', { x: 1 })]));
+
+    expect(result.problems).toEqual(['A transform needs a transformationType; use update for other changes']);
+    expect(result.elements).toEqual(base);
+  });
+
+  it('should reject updates to missing elements', () => {
+    expect(applyDiagramOperation(base, operation('update', [node('z')])).problems)
+      .toEqual(['Element "z" does not exist; use create to add it']);
+  });
+
+  it('should reject updates that change an element\'s type', () => {
+    const result = applyDiagramOperation(base, operation('update', [node('group')]));
+
+    expect(result.problems).toEqual(['Element "group" is a container and cannot become a node; delete and create it instead']);
+    expect(result.elements).toEqual(base);
+  });
+
+  it('should delete attached edges and container membership with an element', () => {
+    const result = applyDiagramOperation(base, operation('delete', [node('a')]));
+
+    expect(result.removedElementIds).toEqual(['a', 'a-b']);
+    expect(result.elements).toEqual([node('b'), container('group', ['b'])]);
+    expect(result.problems).toEqual([]);
+  });
+
+  it('should leave the diagram alone when observing', () => {
+    expect(applyDiagramOperation(base, operation('observe', [node('z')]))).toEqual({ elements: base, removedElementIds: [], problems: [] });
+  });
+
+  it('should only report problems the operation introduces', () => {
+    const broken = [node('a'), edge('a-x', 'a', 'x')];
+
+    expect(applyDiagramOperation(broken, operation('create', [node('b')])).problems).toEqual([]);
+  });
+});
+
+describe('summarizeDiagram', () => {
+  it('should count elements by type', () => {
+    expect(summarizeDiagram(base)).toEqual({ nodeCount: 2, edgeCount: 1, containerCount: 1, annotationCount: 0 });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for fallacy detection
+ * Tests circularity, appeal to authority, false dichotomy and unsupported universal rules with their spans
+ */
+
+import { detectFallacies } from '../../src/algorithms/fallacies.js';
+
+const argument = (claim: string, premises: string[], conclusion: string) => ({ claim, premises, conclusion });
+
+describe('detectFallacies', () => {
+  it('should find nothing in a carefully stated argument', () => {
+    expect(detectFallacies(argument(
+      'Caching should cut page load time',
+      ['Most page time is spent on repeated database reads', 'Cached reads take under a millisecond'],
+      'Adding a cache will probably halve page load time'
+    ))).toEqual([]);
+  });
+
+  it('should flag a conclusion that restates a premise', () => {
+    const conclusion = 'The new API is faster than the old APIs';
+
+    const fallacies = detectFallacies(argument('Adopt the new API', ['The old API is slower than the new API', 'It is documented'], conclusion));
+
+    expect(fallacies).toEqual([{
+      type: 'circular-reasoning',
+      field: 'conclusion',
+      span: { start: 0, end: conclusion.length, text: conclusion },
+      explanation: 'Restates premise 1, so the argument assumes what it sets out to show'
+    }]);
+  });
+
+  it('should not treat a premise contained in a longer conclusion as circular', () => {
+    const fallacies = detectFallacies(argument(
+      'Rewrite the importer',
+      ['The importer is slow'],
+      'Because the importer is slow and hard to test, rewriting it in a week pays off by the next quarter'
+    ));
+
+    expect(fallacies).toEqual([]);
+  });
+
+  it('should locate appeal-to-authority markers', () => {
+    const premise = 'Experts agree that Rust is safer';
+
+    const [fallacy] = detectFallacies(argument('Use Rust', [premise], 'Rust is the better fit'));
+
+    expect(fallacy).toMatchObject({ type: 'appeal-to-authority', field: 'premises.0', span: { start: 0, end: 13, text: 'Experts agree' } });
+    expect(premise.slice(fallacy.span.start, fallacy.span.end)).toBe(fallacy.span.text);
+  });
+
+  it('should flag false dichotomy phrasing', () => {
+    const fallacies = detectFallacies(argument(
+      'Either we rewrite the service or we lose the customer',
+      ['The customer is unhappy with latency'],
+      'It is now or never for the rewrite'
+    ));
+
+    expect(fallacies.map(fallacy => [fallacy.type, fallacy.field, fallacy.span.text])).toEqual([
+      ['false-dichotomy', 'claim', 'Either we rewrite the service or'],
+      ['false-dichotomy', 'conclusion', 'It is now or never']
+    ]);
+  });
+
+  it('should only pair "either" with a nearby "or"', () => {
+    const distant = detectFallacies(argument(
+      `Either ${'the service keeps growing, '.repeat(10)}or we split it`,
+      ['The service is large'],
+      'Splitting may help'
+    ));
+    // A long run of "either" without an "or" would backtrack quadratically without the bound
+    const repeated = detectFallacies(argument('either '.repeat(20000), ['The service is large'], 'Splitting may help'));
+
+    expect([...distant, ...repeated].filter(fallacy => fallacy.type === 'false-dichotomy')).toEqual([]);
+  });
+
+  it('should flag universal premises and universal conclusions without universal support', () => {
+    const fallacies = detectFallacies(argument(
+      'Tests catch every regression',
+      ['Our tests caught the last two regressions'],
+      'Regressions will never reach production'
+    ));
+
+    expect(fallacies.map(fallacy => [fallacy.type, fallacy.field, fallacy.span.text])).toEqual([
+      ['unsupported-universal', 'claim', 'every'],
+      ['unsupported-universal', 'conclusion', 'never']
+    ]);
+  });
+
+  it('should flag a universal premise as weak but accept a conclusion that follows from it', () => {
+    const fallacies = detectFallacies(argument('Alerts need owners', ['All alerts page someone at night'], 'Every alert needs an owner'));
+
+    expect(fallacies).toHaveLength(1);
+    expect(fallacies[0]).toMatchObject({ type: 'unsupported-universal', field: 'premises.0', span: { start: 0, end: 3, text: 'All' } });
+    expect(fallacies[0].explanation).toContain('single counterexample');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for Gaussian-process Bayesian optimization
+ * Tests GP regression, acquisition functions and next-point selection
+ */
+
+import { fitGaussianProcess, runBayesianOptimization, BayesianDefinition } from '../../src/algorithms/gaussianProcess.js';
+import { createRandom } from '../../src/algorithms/random.js';
+
+const createOptimization = (overrides: Partial<BayesianDefinition> = {}): BayesianDefinition => ({
+  bounds: [{ name: 'learningRate', min: 0, max: 10 }],
+  observations: [
+    { x: [0], y: 0 },
+    { x: [5], y: 1 },
+    { x: [10], y: 0 }
+  ],
+  kernel: 'matern52',
+  lengthScale: 0.2,
+  signalVariance: 1,
+  noiseVariance: 0,
+  acquisitionFunction: 'expected_improvement',
+  goal: 'maximize',
+  kappa: 2,
+  xi: 0.01,
+  candidates: 200,
+  ...overrides
+});
+
+describe('fitGaussianProcess', () => {
+  const predict = fitGaussianProcess([[0], [0.5]], [1, -1], { kernel: 'rbf', lengthScale: 0.2, signalVariance: 1, noiseVariance: 0 });
+
+  it('should interpolate noise-free observations', () => {
+    expect(predict([0]).mean).toBeCloseTo(1, 4);
+    expect(predict([0.5]).mean).toBeCloseTo(-1, 4);
+    expect(predict([0]).variance).toBeCloseTo(0, 4);
+  });
+
+  it('should revert to the prior far from the data', () => {
+    expect(predict([5]).mean).toBeCloseTo(0, 6);
+    expect(predict([5]).variance).toBeCloseTo(1, 6);
+  });
+
+  it('should smooth noisy observations', () => {
+    const noisy = fitGaussianProcess([[0], [0]], [1, -1], { kernel: 'matern32', lengthScale: 0.2, signalVariance: 1, noiseVariance: 0.5 });
+
+    expect(noisy([0]).mean).toBeCloseTo(0, 6);
+    expect(noisy([0]).variance).toBeGreaterThan(0);
+  });
+});
+
+describe('runBayesianOptimization', () => {
+  it('should return the posterior over a grid of the search space', () => {
+    const result = runBayesianOptimization(createOptimization(), createRandom(1));
+
+    expect(result.posterior).toHaveLength(51);
+    expect(result.posterior[0].x).toEqual([0]);
+    expect(result.posterior[50].x).toEqual([10]);
+    expect(result.posterior[25].mean).toBeCloseTo(1, 4);
+    expect(result.posterior[12].variance).toBeGreaterThan(result.posterior[25].variance);
+  });
+
+  it('should exploit the posterior mean when UCB has no exploration bonus', () => {
+    const result = runBayesianOptimization(
+      createOptimization({ acquisitionFunction: 'upper_confidence_bound', kappa: 0 }),
+      createRandom(1)
+    );
+
+    expect(result.nextPoint.x[0]).toBeCloseTo(5, 0);
+  });
+
+  it('should sample between observations under expected improvement', () => {
+    const result = runBayesianOptimization(createOptimization(), createRandom(1));
+
+    expect(result.nextPoint.acquisitionValue).toBeGreaterThan(0);
+    expect(result.nextPoint.x[0]).toBeGreaterThan(0);
+    expect(result.nextPoint.x[0]).toBeLessThan(10);
+    expect(result.nextPoint.x[0]).not.toBeCloseTo(5, 1);
+  });
+
+  it('should bound probability of improvement by 1', () => {
+    const result = runBayesianOptimization(createOptimization({ acquisitionFunction: 'probability_of_improvement' }), createRandom(1));
+
+    expect(result.nextPoint.acquisitionValue).toBeGreaterThan(0);
+    expect(result.nextPoint.acquisitionValue).toBeLessThanOrEqual(1);
+  });
+
+  it('should look for low values when minimizing', () => {
+    const result = runBayesianOptimization(
+      createOptimization({ goal: 'minimize', acquisitionFunction: 'upper_confidence_bound', kappa: 0 }),
+      createRandom(1)
+    );
+
+    expect(result.bestObservation.y).toBe(0);
+    expect(Math.abs(result.nextPoint.x[0] - 5)).toBeGreaterThan(3);
+  });
+
+  it('should cover multi-dimensional spaces with a coarser grid', () => {
+    const result = runBayesianOptimization(createOptimization({
+      bounds: [{ name: 'a', min: 0, max: 1 }, { name: 'b', min: -1, max: 1 }],
+      observations: [{ x: [0.2, 0.5], y: 3 }, { x: [0.8, -0.5], y: 1 }]
+    }), createRandom(1));
+
+    expect(result.posterior).toHaveLength(400);
+    expect(result.nextPoint.x).toHaveLength(2);
+  });
+
+  it('should pick the same next point when the objective is rescaled', () => {
+    const rescaled = createOptimization({
+      observations: createOptimization().observations.map(observation => ({ x: observation.x, y: 1000 * observation.y + 50 })),
+      xi: 0.5
+    });
+
+    const original = runBayesianOptimization(createOptimization({ xi: 0.5 }), createRandom(3));
+    const result = runBayesianOptimization(rescaled, createRandom(3));
+
+    expect(result.nextPoint.x[0]).toBeCloseTo(original.nextPoint.x[0], 6);
+    expect(result.nextPoint.acquisitionValue).toBeCloseTo(original.nextPoint.acquisitionValue, 6);
+  });
+
+  it('should be reproducible for the same seed', () => {
+    expect(runBayesianOptimization(createOptimization(), createRandom(7)).nextPoint)
+      .toEqual(runBayesianOptimization(createOptimization(), createRandom(7)).nextPoint);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for Hidden Markov Model inference
+ * Tests forward-backward, Viterbi decoding and Baum-Welch fitting
+ */
+
+import { analyzeHmm, forwardBackward, viterbi, baumWelch, HmmModel, HmmDefinition } from '../../src/algorithms/hmm.js';
+import { createRandom } from '../../src/algorithms/random.js';
+
+// Healthy/fever model; symbols are normal, cold, dizzy
+const model: HmmModel = {
+  initial: [0.6, 0.4],
+  transition: [[0.7, 0.3], [0.4, 0.6]],
+  emission: [[0.5, 0.4, 0.1], [0.1, 0.3, 0.6]]
+};
+
+const createHmm = (overrides: Partial<HmmDefinition> = {}): HmmDefinition => ({
+  states: ['healthy', 'fever'],
+  symbols: ['normal', 'cold', 'dizzy'],
+  ...model,
+  observations: ['normal', 'cold', 'dizzy'],
+  maxIterations: 100,
+  tolerance: 1e-6,
+  ...overrides
+});
+
+describe('forwardBackward', () => {
+  it('should compute the sequence likelihood', () => {
+    const result = forwardBackward(model, [0, 1, 2]);
+
+    expect(Math.exp(result.logLikelihood)).toBeCloseTo(0.03628, 6);
+  });
+
+  it('should return normalized posterior marginals', () => {
+    const result = forwardBackward(model, [0, 1, 2]);
+
+    result.posteriors.forEach(row => expect(row[0] + row[1]).toBeCloseTo(1));
+    expect(result.posteriors[2][1]).toBeGreaterThan(result.posteriors[2][0]);
+  });
+
+  it('should reject sequences the model cannot produce', () => {
+    const impossible: HmmModel = { ...model, emission: [[1, 0, 0], [1, 0, 0]] };
+
+    expect(() => forwardBackward(impossible, [0, 2])).toThrow('Observation 2 has zero probability under the model');
+  });
+});
+
+describe('viterbi', () => {
+  it('should decode the most likely state path', () => {
+    const result = viterbi(model, [0, 1, 2]);
+
+    expect(result.path).toEqual([0, 0, 1]);
+    expect(Math.exp(result.logProbability)).toBeCloseTo(0.01512, 6);
+  });
+});
+
+describe('baumWelch', () => {
+  const observations = [0, 0, 1, 2, 2, 2, 1, 0, 0, 0, 2, 2, 1, 0, 0, 2, 2, 2, 0, 0];
+
+  it('should not decrease the likelihood while fitting', () => {
+    const short = baumWelch(2, 3, observations, { maxIterations: 1, tolerance: 1e-9 }, createRandom(4));
+    const long = baumWelch(2, 3, observations, { maxIterations: 50, tolerance: 1e-9 }, createRandom(4));
+
+    expect(forwardBackward(long.model, observations).logLikelihood)
+      .toBeGreaterThanOrEqual(forwardBackward(short.model, observations).logLikelihood);
+  });
+
+  it('should produce row-stochastic matrices', () => {
+    const fit = baumWelch(2, 3, observations, { maxIterations: 100, tolerance: 1e-6 }, createRandom(4));
+    const sum = (row: number[]) => row.reduce((total, value) => total + value, 0);
+
+    expect(fit.converged).toBe(true);
+    expect(sum(fit.model.initial)).toBeCloseTo(1);
+    fit.model.transition.forEach(row => expect(sum(row)).toBeCloseTo(1));
+    fit.model.emission.forEach(row => expect(sum(row)).toBeCloseTo(1));
+  });
+});
+
+describe('analyzeHmm', () => {
+  it('should label the decoded path and marginals with state names', () => {
+    const result = analyzeHmm(createHmm(), createRandom(1));
+
+    expect(result.viterbiPath).toEqual(['healthy', 'healthy', 'fever']);
+    expect(result.likelihood).toBeCloseTo(0.03628, 6);
+    expect(Object.keys(result.posteriors[0])).toEqual(['healthy', 'fever']);
+    expect(result.fitted).toBeUndefined();
+  });
+
+  it('should fit the model when only observations are given', () => {
+    const result = analyzeHmm(createHmm({
+      initial: undefined,
+      transition: undefined,
+      emission: undefined,
+      symbols: undefined,
+      observations: ['a', 'a', 'b', 'b', 'b', 'a', 'a', 'b', 'b', 'a']
+    }), createRandom(2));
+
+    expect(result.symbols).toEqual(['a', 'b']);
+    expect(result.fitted!.emission).toHaveLength(2);
+    expect(result.fitted!.emission[0]).toHaveLength(2);
+    expect(result.viterbiPath).toHaveLength(10);
+  });
+});
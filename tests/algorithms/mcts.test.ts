@@ -0,0 +1,71 @@
+/**
+ * Tests for Monte Carlo Tree Search
+ * Tests UCT search over declarative decision and game trees
+ */
+
+import { runMcts, MctsDefinition } from '../../src/algorithms/mcts.js';
+import { createRandom } from '../../src/algorithms/random.js';
+
+const createTree = (player: 'max' | 'min' = 'max', overrides: Partial<MctsDefinition> = {}): MctsDefinition => ({
+  root: 'root',
+  states: [
+    { id: 'root', player: 'max', actions: [{ name: 'a', next: 'A' }, { name: 'b', next: 'B' }] },
+    { id: 'A', player, actions: [{ name: 'a1', next: 'win' }, { name: 'a2', next: 'lose' }] },
+    { id: 'B', player, actions: [{ name: 'b1', next: 'draw' }, { name: 'b2', next: 'draw' }] },
+    { id: 'win', player: 'max', reward: 1 },
+    { id: 'lose', player: 'max', reward: 0 },
+    { id: 'draw', player: 'max', reward: 0.6 }
+  ],
+  iterations: 2000,
+  explorationConstant: Math.SQRT2,
+  maxDepth: 50,
+  ...overrides
+});
+
+describe('runMcts', () => {
+  it('should find the best action sequence in a decision tree', () => {
+    const result = runMcts(createTree(), createRandom(1));
+
+    expect(result.bestSequence).toEqual(['a', 'a1']);
+    expect(result.bestValue).toBeGreaterThan(0.9);
+  });
+
+  it('should assume the min player minimizes in a game tree', () => {
+    const result = runMcts(createTree('min'), createRandom(1));
+
+    expect(result.bestSequence[0]).toBe('b');
+    expect(result.bestValue).toBeCloseTo(0.6, 1);
+  });
+
+  it('should report visit counts and value estimates per root child', () => {
+    const result = runMcts(createTree(), createRandom(1));
+
+    expect(result.children.map(child => child.action)).toEqual(['a', 'b']);
+    expect(result.children.reduce((sum, child) => sum + child.visits, 0)).toBe(2000);
+    expect(result.children[1].value).toBeCloseTo(0.6);
+  });
+
+  it('should count action rewards along the path', () => {
+    const tree = createTree();
+    tree.states[0].actions = [{ name: 'a', next: 'A' }, { name: 'b', next: 'B', reward: 1 }];
+
+    const result = runMcts(tree, createRandom(1));
+
+    expect(result.bestSequence[0]).toBe('b');
+    expect(result.bestValue).toBeCloseTo(1.6);
+  });
+
+  it('should be reproducible for the same seed', () => {
+    const first = runMcts(createTree('max', { iterations: 50 }), createRandom(42));
+    const second = runMcts(createTree('max', { iterations: 50 }), createRandom(42));
+
+    expect(second).toEqual(first);
+  });
+
+  it('should return an empty sequence when the root is terminal', () => {
+    const result = runMcts(createTree('max', { root: 'win' }), createRandom(1));
+
+    expect(result.bestSequence).toEqual([]);
+    expect(result.children).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for the finite MDP solver
+ * Tests value iteration and policy iteration on small known problems
+ */
+
+import { valueIteration, policyIteration, MdpDefinition } from '../../src/algorithms/mdp.js';
+
+const createMdp = (overrides: Partial<MdpDefinition> = {}): MdpDefinition => ({
+  states: ['start', 'near', 'goal'],
+  actions: ['wait', 'advance'],
+  transitions: [
+    { state: 'start', action: 'wait', nextState: 'start', probability: 1, reward: 0.5 },
+    { state: 'start', action: 'advance', nextState: 'near', probability: 0.8 },
+    { state: 'start', action: 'advance', nextState: 'start', probability: 0.2 },
+    { state: 'near', action: 'wait', nextState: 'near', probability: 1, reward: 0.5 },
+    { state: 'near', action: 'advance', nextState: 'goal', probability: 1, reward: 10 }
+  ],
+  gamma: 0.9,
+  tolerance: 1e-9,
+  maxIterations: 1000,
+  ...overrides
+});
+
+describe('valueIteration', () => {
+  it('should find the optimal policy and value function', () => {
+    const solution = valueIteration(createMdp());
+
+    expect(solution.converged).toBe(true);
+    expect(solution.policy).toEqual({ start: 'advance', near: 'advance', goal: null });
+    expect(solution.values.near).toBeCloseTo(10, 6);
+    expect(solution.values.start).toBeCloseTo(7.2 / 0.82, 6);
+    expect(solution.values.goal).toBe(0);
+  });
+
+  it('should prefer a steady reward when the future is discounted heavily', () => {
+    const solution = valueIteration(createMdp({ gamma: 0.05 }));
+
+    expect(solution.policy.start).toBe('wait');
+    expect(solution.policy.near).toBe('advance');
+  });
+
+  it('should apply state rewards to every action taken in that state', () => {
+    const solution = valueIteration(createMdp({ rewards: [{ state: 'near', reward: -20 }] }));
+
+    expect(solution.values.near).toBeCloseTo(-10, 6);
+    expect(solution.policy.start).toBe('wait');
+  });
+
+  it('should report when the iteration limit is reached first', () => {
+    const solution = valueIteration(createMdp({ maxIterations: 3 }));
+
+    expect(solution.converged).toBe(false);
+    expect(solution.iterations).toBe(3);
+  });
+});
+
+describe('policyIteration', () => {
+  it('should agree with value iteration', () => {
+    const byValue = valueIteration(createMdp());
+    const byPolicy = policyIteration(createMdp());
+
+    expect(byPolicy.converged).toBe(true);
+    expect(byPolicy.policy).toEqual(byValue.policy);
+    expect(byPolicy.values.start).toBeCloseTo(byValue.values.start, 6);
+  });
+
+  it('should converge in fewer iterations than value iteration', () => {
+    const byValue = valueIteration(createMdp());
+    const byPolicy = policyIteration(createMdp());
+
+    expect(byPolicy.iterations).toBeLessThan(byValue.iterations);
+  });
+});
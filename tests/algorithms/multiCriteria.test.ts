@@ -0,0 +1,139 @@
+/**
+ * Tests for multi-criteria scoring
+ * Tests weighted sum, TOPSIS and AHP rankings and consistency reporting
+ */
+
+import { analyzeMultiCriteria, ahpWeights } from '../../src/algorithms/multiCriteria.js';
+import {
+  DecisionOption,
+  DecisionCriterion,
+  CriterionEvaluation
+} from '../../src/interfaces/DecisionFrameworkInterfaces.js';
+
+const options: DecisionOption[] = [
+  { id: 'x', name: 'Option X', description: 'Fast but costly' },
+  { id: 'y', name: 'Option Y', description: 'Cheap but slow' }
+];
+
+const criteria: DecisionCriterion[] = [
+  { id: 'speed', name: 'Speed', description: 'Delivery speed', weight: 0.6, evaluationMethod: 'quantitative' },
+  { id: 'cost', name: 'Cost', description: 'Affordability', weight: 0.2, evaluationMethod: 'quantitative' }
+];
+
+const evaluation = (optionId: string, criterionId: string, score: number): CriterionEvaluation => ({
+  optionId,
+  criterionId,
+  score,
+  justification: 'test'
+});
+
+const evaluations: CriterionEvaluation[] = [
+  evaluation('x', 'speed', 0.9),
+  evaluation('x', 'cost', 0.2),
+  evaluation('y', 'speed', 0.3),
+  evaluation('y', 'cost', 1.0)
+];
+
+describe('analyzeMultiCriteria', () => {
+  describe('weighted-sum', () => {
+    it('should normalize weights and sum weighted scores', () => {
+      const result = analyzeMultiCriteria(options, criteria, evaluations, 'weighted-sum');
+
+      expect(result.criterionWeights.speed).toBeCloseTo(0.75);
+      expect(result.criterionWeights.cost).toBeCloseTo(0.25);
+      expect(result.scores.x).toBeCloseTo(0.725);
+      expect(result.scores.y).toBeCloseTo(0.475);
+      expect(result.recommendedOptionId).toBe('x');
+    });
+
+    it('should break scores down per criterion', () => {
+      const result = analyzeMultiCriteria(options, criteria, evaluations, 'weighted-sum');
+      const x = result.ranking.find(entry => entry.optionId === 'x')!;
+
+      expect(x.contributions.speed).toBeCloseTo(0.675);
+      expect(x.contributions.cost).toBeCloseTo(0.05);
+    });
+
+    it('should score missing evaluations as 0 with a warning', () => {
+      const result = analyzeMultiCriteria(options, criteria, evaluations.slice(0, 3), 'weighted-sum');
+
+      expect(result.ranking.find(entry => entry.optionId === 'y')!.contributions.cost).toBe(0);
+      expect(result.warnings).toContainEqual(expect.stringContaining('No evaluation of "y" on "cost"'));
+    });
+  });
+
+  describe('topsis', () => {
+    it('should give a dominating option closeness 1 and a dominated option 0', () => {
+      const result = analyzeMultiCriteria(options, criteria, [
+        evaluation('x', 'speed', 0.9),
+        evaluation('x', 'cost', 0.8),
+        evaluation('y', 'speed', 0.3),
+        evaluation('y', 'cost', 0.4)
+      ], 'topsis');
+
+      expect(result.scores.x).toBeCloseTo(1);
+      expect(result.scores.y).toBeCloseTo(0);
+    });
+
+    it('should produce closeness scores between 0 and 1', () => {
+      const result = analyzeMultiCriteria(options, criteria, evaluations, 'topsis');
+
+      for (const entry of result.ranking) {
+        expect(entry.score).toBeGreaterThanOrEqual(0);
+        expect(entry.score).toBeLessThanOrEqual(1);
+      }
+      expect(result.recommendedOptionId).toBe('x');
+    });
+  });
+
+  describe('ahp', () => {
+    const threeCriteria: DecisionCriterion[] = [
+      { id: 'a', name: 'A', description: '', weight: 0, evaluationMethod: 'qualitative' },
+      { id: 'b', name: 'B', description: '', weight: 0, evaluationMethod: 'qualitative' },
+      { id: 'c', name: 'C', description: '', weight: 0, evaluationMethod: 'qualitative' }
+    ];
+
+    it('should derive exact weights from a consistent matrix', () => {
+      const { weights, consistency } = ahpWeights(threeCriteria, [
+        { criterionA: 'a', criterionB: 'b', preference: 2 },
+        { criterionA: 'a', criterionB: 'c', preference: 4 },
+        { criterionA: 'b', criterionB: 'c', preference: 2 }
+      ], []);
+
+      expect(weights[0]).toBeCloseTo(4 / 7);
+      expect(weights[1]).toBeCloseTo(2 / 7);
+      expect(weights[2]).toBeCloseTo(1 / 7);
+      expect(consistency.consistencyRatio).toBeCloseTo(0);
+      expect(consistency.isConsistent).toBe(true);
+    });
+
+    it('should flag inconsistent judgments', () => {
+      const { consistency } = ahpWeights(threeCriteria, [
+        { criterionA: 'a', criterionB: 'b', preference: 9 },
+        { criterionA: 'b', criterionB: 'c', preference: 9 },
+        { criterionA: 'c', criterionB: 'a', preference: 9 }
+      ], []);
+
+      expect(consistency.consistencyRatio).toBeGreaterThan(0.1);
+      expect(consistency.isConsistent).toBe(false);
+    });
+
+    it('should assume equal importance for missing pairs', () => {
+      const warnings: string[] = [];
+      const { weights } = ahpWeights(threeCriteria, [], warnings);
+
+      expect(weights.every(weight => Math.abs(weight - 1 / 3) < 1e-9)).toBe(true);
+      expect(warnings).toHaveLength(3);
+    });
+
+    it('should rank options with AHP weights and report consistency', () => {
+      const result = analyzeMultiCriteria(options, criteria, evaluations, 'ahp', [
+        { criterionA: 'cost', criterionB: 'speed', preference: 5 }
+      ]);
+
+      expect(result.criterionWeights.cost).toBeCloseTo(5 / 6);
+      expect(result.recommendedOptionId).toBe('y');
+      expect(result.consistency).toBeDefined();
+    });
+  });
+});
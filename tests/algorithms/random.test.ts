@@ -0,0 +1,35 @@
+/**
+ * Tests for the seeded random number generator
+ */
+
+import { createRandom, pick } from '../../src/algorithms/random.js';
+
+describe('createRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const first = createRandom(7);
+    const second = createRandom(7);
+
+    expect(Array.from({ length: 5 }, first)).toEqual(Array.from({ length: 5 }, second));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(createRandom(1)()).not.toBe(createRandom(2)());
+  });
+
+  it('should return values in [0, 1)', () => {
+    const random = createRandom(123);
+    const values = Array.from({ length: 1000 }, random);
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThan(1);
+  });
+});
+
+describe('pick', () => {
+  it('should pick every element eventually', () => {
+    const random = createRandom(5);
+    const picked = new Set(Array.from({ length: 100 }, () => pick(random, ['a', 'b', 'c'])));
+
+    expect([...picked].sort()).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for decision sensitivity analysis
+ * Tests tipping-point detection for criterion weights and outcome probabilities
+ */
+
+import { weightSensitivity, probabilitySensitivity } from '../../src/algorithms/sensitivity.js';
+import {
+  DecisionOption,
+  DecisionCriterion,
+  CriterionEvaluation,
+  PossibleOutcome
+} from '../../src/interfaces/DecisionFrameworkInterfaces.js';
+
+const options: DecisionOption[] = [
+  { id: 'x', name: 'Option X', description: 'Fast but costly' },
+  { id: 'y', name: 'Option Y', description: 'Cheap but slow' }
+];
+
+describe('weightSensitivity', () => {
+  const criteria: DecisionCriterion[] = [
+    { id: 'speed', name: 'Speed', description: '', weight: 0.6, evaluationMethod: 'quantitative' },
+    { id: 'cost', name: 'Cost', description: '', weight: 0.2, evaluationMethod: 'quantitative' }
+  ];
+
+  const evaluations: CriterionEvaluation[] = [
+    { optionId: 'x', criterionId: 'speed', score: 0.9, justification: '' },
+    { optionId: 'x', criterionId: 'cost', score: 0.2, justification: '' },
+    { optionId: 'y', criterionId: 'speed', score: 0.3, justification: '' },
+    { optionId: 'y', criterionId: 'cost', score: 1.0, justification: '' }
+  ];
+
+  it('should find the weight at which the top option flips', () => {
+    const result = weightSensitivity(options, criteria, evaluations, 'weighted-sum')!;
+    const cost = result.parameters.find(parameter => parameter.parameter === 'cost')!;
+    const speed = result.parameters.find(parameter => parameter.parameter === 'speed')!;
+
+    expect(result.baselineTopOptionId).toBe('x');
+    expect(cost).toMatchObject({ flips: true, direction: 'increase', newTopOptionId: 'y' });
+    expect(cost.threshold).toBeCloseTo(0.45, 4);
+    expect(speed).toMatchObject({ flips: true, direction: 'decrease', newTopOptionId: 'y' });
+    expect(speed.threshold).toBeCloseTo(0.2667, 3);
+  });
+
+  it('should rate a recommendation robust when nothing flips it', () => {
+    const dominated: CriterionEvaluation[] = evaluations.map(evaluation =>
+      evaluation.optionId === 'x' ? { ...evaluation, score: 1 } : evaluation
+    );
+
+    const result = weightSensitivity(options, criteria, dominated, 'topsis')!;
+
+    expect(result.robustness).toBe('robust');
+    expect(result.parameters.every(parameter => !parameter.flips)).toBe(true);
+    expect(result.insights[0]).toContain('stays top-ranked');
+  });
+
+  it('should describe each tipping point in the insights', () => {
+    const result = weightSensitivity(options, criteria, evaluations, 'weighted-sum')!;
+
+    expect(result.robustness).toBe('moderate');
+    expect(result.insights[0]).toMatch(/^Weight of cost: raising it from 0\.200 to 0\.450 makes Option Y top-ranked instead of Option X$/);
+  });
+});
+
+describe('probabilitySensitivity', () => {
+  const outcomes: PossibleOutcome[] = [
+    { optionId: 'x', description: 'smooth', probability: 0.6, value: 100, confidenceInEstimate: 0.7 },
+    { optionId: 'x', description: 'outage', probability: 0.4, value: -50, confidenceInEstimate: 0.7 },
+    { optionId: 'y', description: 'smooth', probability: 0.9, value: 60, confidenceInEstimate: 0.9 },
+    { optionId: 'y', description: 'outage', probability: 0.1, value: 20, confidenceInEstimate: 0.9 }
+  ];
+
+  it('should find the probability at which expected utility flips', () => {
+    const result = probabilitySensitivity(options, outcomes, 'expected-utility')!;
+    const smooth = result.parameters.find(parameter => parameter.parameter === 'x: smooth')!;
+
+    expect(result.baselineTopOptionId).toBe('y');
+    expect(smooth).toMatchObject({ flips: true, direction: 'increase', newTopOptionId: 'x' });
+    expect(smooth.threshold).toBeCloseTo(106 / 150, 4);
+  });
+
+  it('should skip options with a single outcome', () => {
+    const result = probabilitySensitivity(options, [
+      { optionId: 'x', description: 'sure thing', probability: 1, value: 10, confidenceInEstimate: 1 },
+      ...outcomes.slice(2)
+    ], 'expected-utility')!;
+
+    expect(result.parameters.map(parameter => parameter.parameter)).toEqual(['y: smooth', 'y: outage']);
+  });
+
+  it('should return undefined when nothing is ranked', () => {
+    expect(probabilitySensitivity(options, [], 'expected-utility')).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for value-of-information analysis
+ * Tests EVPI, EVSI and research cost trade-offs per information gap
+ */
+
+import { analyzeValueOfInformation } from '../../src/algorithms/valueOfInformation.js';
+import { DecisionOption, PossibleOutcome, InformationGap } from '../../src/interfaces/DecisionFrameworkInterfaces.js';
+
+const options: DecisionOption[] = [
+  { id: 'launch', name: 'Launch', description: 'Ship now' },
+  { id: 'wait', name: 'Wait', description: 'Hold back' }
+];
+
+const outcome = (optionId: string, description: string, probability: number, value: number): PossibleOutcome => ({
+  optionId,
+  description,
+  probability,
+  value,
+  confidenceInEstimate: 0.5
+});
+
+const outcomes: PossibleOutcome[] = [
+  outcome('launch', 'demand high', 0.5, 100),
+  outcome('launch', 'demand low', 0.5, -50),
+  outcome('wait', 'demand high', 0.5, 10),
+  outcome('wait', 'demand low', 0.5, 10)
+];
+
+const gap = (overrides: Partial<InformationGap> = {}): InformationGap => ({
+  description: 'Market demand',
+  impact: 0.8,
+  researchMethod: 'Customer survey',
+  ...overrides
+});
+
+describe('analyzeValueOfInformation', () => {
+  it('should compute the expected value of perfect information', () => {
+    const result = analyzeValueOfInformation(options, outcomes, [gap()])!;
+
+    expect(result.baselineOptionId).toBe('launch');
+    expect(result.baselineExpectedValue).toBeCloseTo(25);
+    expect(result.evpi).toBeCloseTo(30);
+    expect(result.gaps[0].evpi).toBeCloseTo(30);
+  });
+
+  it('should compute the expected value of sample information', () => {
+    const result = analyzeValueOfInformation(options, outcomes, [gap({ sampleAccuracy: 0.8 })])!;
+
+    expect(result.gaps[0].evsi).toBeCloseTo(15);
+    expect(result.gaps[0].sampleAccuracy).toBe(0.8);
+  });
+
+  it('should weigh research cost against its value', () => {
+    const result = analyzeValueOfInformation(options, outcomes, [
+      gap({ description: 'Survey', sampleAccuracy: 0.8, cost: 20 }),
+      gap({ description: 'Pilot launch', cost: 20 })
+    ])!;
+
+    expect(result.gaps[0]).toMatchObject({ description: 'Pilot launch', rank: 1, worthResearching: true });
+    expect(result.gaps[0].netValue).toBeCloseTo(10);
+    expect(result.gaps[1]).toMatchObject({ description: 'Survey', rank: 2, worthResearching: false });
+    expect(result.gaps[1].netValue).toBeCloseTo(-5);
+  });
+
+  it('should value uninformative research at 0', () => {
+    const result = analyzeValueOfInformation(options, outcomes, [gap({ sampleAccuracy: 0.5 })])!;
+
+    expect(result.gaps[0].evsi).toBeCloseTo(0);
+  });
+
+  it('should only reveal the states a gap names', () => {
+    const threeStates = [
+      outcome('launch', 'boom', 0.25, 200),
+      outcome('launch', 'steady', 0.5, 20),
+      outcome('launch', 'bust', 0.25, -100),
+      outcome('wait', 'boom', 0.25, 0),
+      outcome('wait', 'steady', 0.5, 0),
+      outcome('wait', 'bust', 0.25, 0)
+    ];
+
+    const result = analyzeValueOfInformation(options, threeStates, [
+      gap({ description: 'Bust risk', states: ['bust'] }),
+      gap({ description: 'Everything' })
+    ])!;
+
+    const bust = result.gaps.find(entry => entry.description === 'Bust risk')!;
+    const everything = result.gaps.find(entry => entry.description === 'Everything')!;
+    expect(bust.states).toEqual(['bust']);
+    expect(bust.evpi).toBeCloseTo(25);
+    expect(everything.evpi).toBeCloseTo(result.evpi);
+  });
+
+  it('should warn when options disagree on state probabilities', () => {
+    const result = analyzeValueOfInformation(options, [
+      outcome('launch', 'demand high', 0.6, 100),
+      outcome('launch', 'demand low', 0.4, -50),
+      outcome('wait', 'demand high', 0.4, 10),
+      outcome('wait', 'demand low', 0.6, 10)
+    ], [gap()])!;
+
+    expect(result.warnings).toContainEqual(expect.stringContaining('different probabilities to state "demand high"'));
+  });
+
+  it('should return undefined without outcomes', () => {
+    expect(analyzeValueOfInformation(options, [], [gap()])).toBeUndefined();
+  });
+});
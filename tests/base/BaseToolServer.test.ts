@@ -4,7 +4,8 @@
  */
 
 import { z } from 'zod';
-import { BaseToolServer, MCPResponse } from '../../src/base/BaseToolServer.js';
+import { BaseToolServer, MCPResponse, MAX_INPUT_BYTES } from '../../src/base/BaseToolServer.js';
+import { ValidationError, SecurityError, StateError } from '../../src/errors/CustomErrors.js';
 import { createMockThoughtData, createMockValidationError } from '../helpers/mockFactories.js';
 
 // Test schema for validation testing
@@ -132,6 +133,23 @@ describe('BaseToolServer', () => {
         expect((error as Error).message).toContain('count');
       }
     });
+
+    it('should list each failing field with expected and received types', () => {
+      let thrown: unknown;
+      try {
+        testServer['validate']({ message: 123, count: -1 });
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(ValidationError);
+      expect((thrown as ValidationError).details).toEqual({
+        issues: [
+          { path: 'message', message: 'Expected string, received number', code: 'invalid_type', expected: 'string', received: 'number' },
+          { path: 'count', message: 'Number must be greater than 0', code: 'too_small' }
+        ]
+      });
+    });
   });
 
   describe('run method', () => {
@@ -218,6 +236,45 @@ describe('BaseToolServer', () => {
       const parsedError = JSON.parse(errorText);
       expect(parsedError.error).toBe("String error");
     });
+
+    it('should include the code and details of validation errors', () => {
+      const parsedError = JSON.parse(testServer.run({ message: 'test' }).content[0].text);
+
+      expect(parsedError).toMatchObject({
+        code: 'VALIDATION_ERROR',
+        details: { issues: [{ path: 'count', code: 'invalid_type', expected: 'number', received: 'undefined' }] }
+      });
+    });
+
+    it('should report unexpected errors as processing errors', () => {
+      const parsedError = JSON.parse(errorServer.run({ message: 'test', count: 1 }).content[0].text);
+
+      expect(parsedError).toHaveProperty('code', 'PROCESSING_ERROR');
+    });
+
+    it('should keep the fields of errors thrown by handle', () => {
+      class StatefulServer extends BaseToolServer<TestInput, TestOutput> {
+        constructor() {
+          super(TestSchema);
+        }
+
+        protected handle(_validInput: TestInput): TestOutput {
+          throw new StateError('Session expired', 'session-1');
+        }
+      }
+
+      const parsedError = JSON.parse(new StatefulServer().run({ message: 'test', count: 1 }).content[0].text);
+
+      expect(parsedError).toMatchObject({ error: 'Session expired', code: 'STATE_ERROR', sessionId: 'session-1', status: 'failed' });
+    });
+
+    it('should reject oversized input with a security error instead of returning a result', () => {
+      const message = 'x'.repeat(MAX_INPUT_BYTES);
+
+      expect(() => testServer.run({ message, count: 1 })).toThrow(SecurityError);
+      expect(() => testServer.run({ message, count: 1 })).toThrow(`exceeds the limit of ${MAX_INPUT_BYTES} bytes`);
+      expect(testServer.run({ message: 'x'.repeat(MAX_INPUT_BYTES - 100), count: 1 }).isError).toBeUndefined();
+    });
   });
 
   describe('formatResponse method', () => {
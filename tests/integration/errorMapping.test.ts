@@ -0,0 +1,87 @@
+/**
+ * Integration tests for MCP error mapping
+ * Tests which failures become JSON-RPC errors and which become isError tool results
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ToolRegistry, MAX_INPUT_BYTES } from '../../src/base/BaseToolServer.js';
+import { initializeToolRegistry } from '../../src/base/toolRegistry.js';
+import { createMcpServer, toMcpError } from '../../src/base/mcpServer.js';
+import { ValidationError, StateError, SecurityError, ProcessingError } from '../../src/errors/CustomErrors.js';
+
+describe('MCP error mapping', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    (ToolRegistry as any).tools = [];
+    initializeToolRegistry();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    (ToolRegistry as any).tools = [];
+  });
+
+  const callError = async (name: string, args: Record<string, unknown>): Promise<McpError> => {
+    try {
+      await client.callTool({ name, arguments: args });
+    } catch (error) {
+      return error as McpError;
+    }
+    throw new Error('Expected the call to fail');
+  };
+
+  it('should report unknown tools as invalid params', async () => {
+    const error = await callError('no_such_tool', {});
+
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.message).toContain('Unknown tool: no_such_tool. Available tools: sequential_thinking, mental_model');
+  });
+
+  it('should return invalid arguments as an isError result with field details', async () => {
+    const result = await client.callTool({ name: 'mental_model', arguments: { modelName: 'first_principles' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content[0].text)).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { issues: [{ path: 'problem', code: 'invalid_type', expected: 'string', received: 'undefined' }] },
+      status: 'failed'
+    });
+  });
+
+  it('should report oversized input as an invalid request', async () => {
+    const error = await callError('mental_model', { modelName: 'first_principles', problem: 'x'.repeat(MAX_INPUT_BYTES) });
+
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.message).toContain(`exceeds the limit of ${MAX_INPUT_BYTES} bytes`);
+  });
+
+  describe('toMcpError', () => {
+    it.each([
+      ['ValidationError', new ValidationError('bad'), ErrorCode.InvalidParams],
+      ['SecurityError', new SecurityError('denied'), ErrorCode.InvalidRequest],
+      ['StateError', new StateError('gone', 'session-1'), ErrorCode.InvalidRequest],
+      ['ProcessingError', new ProcessingError('broke'), ErrorCode.InternalError],
+      ['Error', new Error('unexpected'), ErrorCode.InternalError]
+    ])('should map %s', (_name, error, code) => {
+      expect(toMcpError(error).code).toBe(code);
+    });
+
+    it('should pass structured fields along as data', () => {
+      expect(toMcpError(new StateError('gone', 'session-1')).data).toEqual({
+        message: 'gone',
+        name: 'StateError',
+        code: 'STATE_ERROR',
+        sessionId: 'session-1'
+      });
+    });
+  });
+});
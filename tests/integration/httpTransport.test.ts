@@ -0,0 +1,204 @@
+/**
+ * Integration tests for the HTTP transport
+ * Tests streamable HTTP sessions, the SSE fallback, request rejection and idle session eviction
+ */
+
+import { request } from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { ToolRegistry, MAX_INPUT_BYTES } from '../../src/base/BaseToolServer.js';
+import { initializeToolRegistry } from '../../src/base/toolRegistry.js';
+import { createMcpServer } from '../../src/base/mcpServer.js';
+import { InMemorySessionManager } from '../../src/services/SessionManager.js';
+import { startHttpTransport, HttpTransportHandle, HTTP_ENDPOINTS } from '../../src/transports/httpTransport.js';
+
+describe('HTTP transport', () => {
+  let handle: HttpTransportHandle;
+
+  beforeAll(async () => {
+    (ToolRegistry as any).tools = [];
+    initializeToolRegistry();
+    handle = await startHttpTransport(createMcpServer, { host: '127.0.0.1', port: 0 });
+  });
+
+  afterAll(async () => {
+    await handle.close();
+    (ToolRegistry as any).tools = [];
+  });
+
+  it('should list tools over streamable HTTP', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}${HTTP_ENDPOINTS.streamable}`)));
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toContain('sequential_thinking');
+    await client.close();
+  });
+
+  it('should call tools over streamable HTTP', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}${HTTP_ENDPOINTS.streamable}`)));
+
+    const result = await client.callTool({
+      name: 'mental_model',
+      arguments: { modelName: 'first_principles', problem: 'Shared server' }
+    });
+
+    expect(result.isError).toBeFalsy();
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content[0].text).modelName).toBe('first_principles');
+    await client.close();
+  });
+
+  it('should serve concurrent clients with separate sessions', async () => {
+    const first = new StreamableHTTPClientTransport(new URL(`${handle.url}${HTTP_ENDPOINTS.streamable}`));
+    const second = new StreamableHTTPClientTransport(new URL(`${handle.url}${HTTP_ENDPOINTS.streamable}`));
+    const clientA = new Client({ name: 'client-a', version: '1.0.0' });
+    const clientB = new Client({ name: 'client-b', version: '1.0.0' });
+
+    await clientA.connect(first);
+    await clientB.connect(second);
+
+    expect(first.sessionId).toBeDefined();
+    expect(second.sessionId).toBeDefined();
+    expect(first.sessionId).not.toBe(second.sessionId);
+
+    await clientA.close();
+    await clientB.close();
+  });
+
+  it('should keep the thoughts of clients that give no sessionId apart', async () => {
+    const thought = { thought: 'Shared server', thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: false };
+    const results = [];
+    for (const name of ['client-a', 'client-b']) {
+      const transport = new StreamableHTTPClientTransport(new URL(`${handle.url}${HTTP_ENDPOINTS.streamable}`));
+      const client = new Client({ name, version: '1.0.0' });
+      await client.connect(transport);
+      const result = await client.callTool({ name: 'sequential_thinking', arguments: thought });
+      results.push({ transportSessionId: transport.sessionId, output: result.structuredContent });
+      await client.close();
+    }
+
+    for (const { transportSessionId, output } of results) {
+      expect(output).toMatchObject({ sessionId: transportSessionId, thoughtHistoryLength: 1 });
+    }
+  });
+
+  it('should list tools over the SSE fallback', async () => {
+    const client = new Client({ name: 'sse-client', version: '1.0.0' });
+    await client.connect(new SSEClientTransport(new URL(`${handle.url}${HTTP_ENDPOINTS.sse}`)));
+
+    const { tools } = await client.listTools();
+
+    expect(tools).toHaveLength(10);
+    await client.close();
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(`${handle.url}${HTTP_ENDPOINTS.streamable}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should answer requests for unknown sessions with 404', async () => {
+    const init = { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'probe', version: '1.0.0' } } };
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'mcp-session-id': 'no-such-session' };
+
+    const post = await fetch(`${handle.url}${HTTP_ENDPOINTS.streamable}`, { method: 'POST', headers, body: JSON.stringify(init) });
+    const get = await fetch(`${handle.url}${HTTP_ENDPOINTS.streamable}`, { method: 'GET', headers });
+
+    expect(post.status).toBe(404);
+    expect(get.status).toBe(404);
+  });
+
+  it('should refuse bodies larger than the input limit', async () => {
+    const response = await fetch(`${handle.url}${HTTP_ENDPOINTS.streamable}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { padding: 'x'.repeat(MAX_INPUT_BYTES) } })
+    });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('should stop reading a chunked body once it passes the input limit', async () => {
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = request(`${handle.url}${HTTP_ENDPOINTS.streamable}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' }
+      }, res => {
+        res.resume();
+        resolve(res.statusCode);
+      });
+      req.on('error', reject);
+      // Never ends the body: the server has to answer without waiting for it
+      req.write('x'.repeat(MAX_INPUT_BYTES + 1));
+    });
+
+    expect(status).toBe(413);
+  });
+
+  it('should return 404 for unknown paths', async () => {
+    const response = await fetch(`${handle.url}/unknown`);
+
+    expect(response.status).toBe(404);
+  });
+
+  describe('idle sessions', () => {
+    let store: InMemorySessionManager;
+    let idleHandle: HttpTransportHandle;
+
+    beforeEach(async () => {
+      store = new InMemorySessionManager();
+      idleHandle = await startHttpTransport(() => createMcpServer(store), {
+        host: '127.0.0.1',
+        port: 0,
+        sessionTimeoutMs: 200,
+        cleanupIntervalMs: 20
+      });
+    });
+
+    afterEach(async () => {
+      await idleHandle.close();
+      store.destroy();
+    });
+
+    it('should close sessions abandoned without a DELETE and release their store listeners', async () => {
+      const baseline = (store as any).listeners.size;
+      const transport = new StreamableHTTPClientTransport(new URL(`${idleHandle.url}${HTTP_ENDPOINTS.streamable}`));
+      const client = new Client({ name: 'abandoned-client', version: '1.0.0' });
+      await client.connect(transport);
+      expect((store as any).listeners.size).toBe(baseline + 1);
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      expect((store as any).listeners.size).toBe(baseline);
+      const response = await fetch(`${idleHandle.url}${HTTP_ENDPOINTS.streamable}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'mcp-session-id': transport.sessionId! },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      });
+      expect(response.status).toBe(404);
+      await client.close();
+    });
+
+    it('should keep sessions that stay active', async () => {
+      const client = new Client({ name: 'active-client', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${idleHandle.url}${HTTP_ENDPOINTS.streamable}`)));
+
+      for (let i = 0; i < 8; i++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        await client.listTools();
+      }
+
+      expect((store as any).listeners.size).toBe(1);
+      await client.close();
+    });
+  });
+});
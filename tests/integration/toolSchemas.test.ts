@@ -0,0 +1,346 @@
+/**
+ * Tests for the Zod to JSON schema conversion behind ListTools
+ * Walks every registered tool schema alongside its advertised JSON schema
+ */
+
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { BaseToolServer, ToolRegistry } from '../../src/base/BaseToolServer.js';
+import { initializeToolRegistry } from '../../src/base/toolRegistry.js';
+import { createMcpServer } from '../../src/base/mcpServer.js';
+
+type JsonSchema = Record<string, any>;
+
+class EchoServer<T> extends BaseToolServer<T, T> {
+  protected handle(validInput: T): T {
+    return validInput;
+  }
+}
+
+/**
+ * Register a throwaway tool and return the JSON schema it advertises
+ */
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  (ToolRegistry as any).tools = [];
+  ToolRegistry.register({ name: 'probe', schema, server: new EchoServer(schema) });
+  return ToolRegistry.getToolDefinitions()[0].inputSchema as JsonSchema;
+}
+
+/**
+ * Assert that `json` describes the same values as `zod`, recursing into
+ * objects, arrays, records and unions. Returns the paths it visited.
+ */
+function expectFaithful(zod: z.ZodTypeAny, json: JsonSchema, path = '$'): string[] {
+  if (zod.description) {
+    expect({ path, description: json.description }).toEqual({ path, description: zod.description });
+  }
+
+  if (zod instanceof z.ZodOptional) {
+    return expectFaithful(zod._def.innerType, json, path);
+  }
+  if (zod instanceof z.ZodDefault) {
+    expect({ path, default: json.default }).toEqual({ path, default: zod._def.defaultValue() });
+    return expectFaithful(zod._def.innerType, json, path);
+  }
+  if (zod instanceof z.ZodEffects) {
+    return expectFaithful(zod.innerType(), json, path);
+  }
+  if (zod instanceof z.ZodNullable) {
+    expect(json.anyOf[1]).toEqual({ type: 'null' });
+    return expectFaithful(zod._def.innerType, json.anyOf[0], path);
+  }
+
+  const visited = [path];
+  if (zod instanceof z.ZodString) {
+    expect({ path, type: json.type }).toEqual({ path, type: 'string' });
+  } else if (zod instanceof z.ZodNumber) {
+    expect({ path, type: json.type }).toEqual({ path, type: zod.isInt ? 'integer' : 'number' });
+  } else if (zod instanceof z.ZodBoolean) {
+    expect({ path, type: json.type }).toEqual({ path, type: 'boolean' });
+  } else if (zod instanceof z.ZodEnum) {
+    expect({ path, enum: json.enum }).toEqual({ path, enum: zod.options });
+  } else if (zod instanceof z.ZodLiteral) {
+    expect({ path, const: json.const }).toEqual({ path, const: zod.value });
+  } else if (zod instanceof z.ZodArray) {
+    expect({ path, type: json.type }).toEqual({ path, type: 'array' });
+    visited.push(...expectFaithful(zod.element, json.items, `${path}[]`));
+  } else if (zod instanceof z.ZodObject) {
+    expect({ path, type: json.type }).toEqual({ path, type: 'object' });
+    const shape = zod.shape as Record<string, z.ZodTypeAny>;
+    expect(Object.keys(json.properties)).toEqual(Object.keys(shape));
+    expect(json.required).toEqual(Object.keys(shape).filter(key => !shape[key].isOptional()));
+    for (const [key, field] of Object.entries(shape)) {
+      visited.push(...expectFaithful(field, json.properties[key], `${path}.${key}`));
+    }
+  } else if (zod instanceof z.ZodRecord) {
+    expect({ path, type: json.type }).toEqual({ path, type: 'object' });
+    visited.push(...expectFaithful(zod.valueSchema, json.additionalProperties, `${path}{}`));
+  } else if (zod instanceof z.ZodDiscriminatedUnion) {
+    // Flattened into one object: variant shapes sit under anyOf, titled by discriminator value
+    expect({ path, type: json.type, oneOf: json.oneOf }).toEqual({ path, type: 'object', oneOf: undefined });
+    const discriminator: string = zod.discriminator;
+    const values = zod.options.map((option: z.AnyZodObject) => option.shape[discriminator].value);
+    expect({ path, enum: json.properties[discriminator].enum }).toEqual({ path, enum: values });
+    zod.options.forEach((option: z.AnyZodObject, index: number) => {
+      const shape = option.shape as Record<string, z.ZodTypeAny>;
+      for (const [key, field] of Object.entries(shape)) {
+        if (key === discriminator) {
+          continue;
+        }
+        const property = json.properties[key];
+        const variant = property.anyOf?.find((entry: JsonSchema) => entry.title === `${discriminator}: ${values[index]}`);
+        visited.push(...expectFaithful(field, variant ?? property, `${path}|${index}.${key}`));
+      }
+    });
+  } else if (zod instanceof z.ZodUnion) {
+    expect(json.anyOf).toHaveLength(zod.options.length);
+    zod.options.forEach((option: z.ZodTypeAny, index: number) => {
+      visited.push(...expectFaithful(option, json.anyOf[index], `${path}|${index}`));
+    });
+  } else if (zod instanceof z.ZodUnknown || zod instanceof z.ZodAny) {
+    expect({ path, type: json.type }).toEqual({ path, type: undefined });
+  } else {
+    throw new Error(`No expectation for ${zod.constructor.name} at ${path}`);
+  }
+  return visited;
+}
+
+/**
+ * Paths of properties, at any depth, that have no description
+ */
+function undescribedProperties(json: JsonSchema, path = '$'): string[] {
+  const missing: string[] = [];
+  for (const [key, property] of Object.entries<JsonSchema>(json.properties ?? {})) {
+    const propertyPath = `${path}.${key}`;
+    if (!property.description) {
+      missing.push(propertyPath);
+    }
+    missing.push(...undescribedProperties(property, propertyPath));
+  }
+  if (json.items) {
+    missing.push(...undescribedProperties(json.items, `${path}[]`));
+  }
+  if (typeof json.additionalProperties === 'object') {
+    missing.push(...undescribedProperties(json.additionalProperties, `${path}{}`));
+  }
+  (json.anyOf ?? []).forEach((option: JsonSchema, index: number) => {
+    missing.push(...undescribedProperties(option, `${path}|${index}`));
+  });
+  return missing;
+}
+
+const names = [
+  'sequential_thinking',
+  'mental_model',
+  'debugging_approach',
+  'stochastic_algorithm',
+  'collaborative_reasoning',
+  'decision_framework',
+  'metacognitive_monitoring',
+  'scientific_method',
+  'structured_argumentation',
+  'visual_reasoning'
+];
+
+describe('Tool input schemas', () => {
+  afterEach(() => {
+    (ToolRegistry as any).tools = [];
+  });
+
+  describe('registered tools', () => {
+    beforeEach(() => {
+      initializeToolRegistry();
+    });
+
+    it.each(names)('should faithfully describe the %s schema', name => {
+      const tool = ToolRegistry.findTool(name)!;
+      const definition = ToolRegistry.getToolDefinitions().find(entry => entry.name === name)!;
+
+      const visited = expectFaithful(tool.schema as z.ZodTypeAny, definition.inputSchema as JsonSchema);
+
+      expect(visited.length).toBeGreaterThan(1);
+      expect(definition.inputSchema).toMatchObject({ type: 'object', additionalProperties: false });
+    });
+
+    it.each(names)('should describe every property of the %s schema', name => {
+      const definition = ToolRegistry.getToolDefinitions().find(entry => entry.name === name)!;
+
+      expect(undescribedProperties(definition.inputSchema as JsonSchema)).toEqual([]);
+    });
+
+    it.each(names)('should advertise %s examples that the tool accepts', name => {
+      const tool = ToolRegistry.findTool(name)!;
+      const definition = ToolRegistry.getToolDefinitions().find(entry => entry.name === name)!;
+      const examples = (definition.inputSchema as JsonSchema).examples as unknown[];
+
+      expect(examples.length).toBeGreaterThan(0);
+      expect(examples).toEqual(tool.examples);
+      for (const example of examples) {
+        expect(tool.schema.safeParse(example).error?.issues).toBeUndefined();
+        expect(tool.server.run(example).isError).toBeUndefined();
+      }
+    });
+
+    it('should describe open-ended records as objects rather than strings', () => {
+      const definitions = ToolRegistry.getToolDefinitions();
+      const visual = definitions.find(entry => entry.name === 'visual_reasoning')!.inputSchema as JsonSchema;
+      const decision = definitions.find(entry => entry.name === 'decision_framework')!.inputSchema as JsonSchema;
+
+      expect(visual.properties.elements.items.properties.properties).toMatchObject({ type: 'object', additionalProperties: {} });
+      expect(decision.properties.expectedValues).toMatchObject({ type: 'object', additionalProperties: { type: 'number' } });
+    });
+  });
+
+  describe('conversion', () => {
+    it('should convert unions to anyOf', () => {
+      const json = convert(z.object({ value: z.union([z.string(), z.number().int()]) }));
+
+      expect(json.properties.value).toEqual({ anyOf: [{ type: 'string' }, { type: 'integer' }] });
+    });
+
+    it('should convert nullable fields to anyOf with null', () => {
+      const json = convert(z.object({ note: z.string().nullable() }));
+
+      expect(json.properties.note).toEqual({ anyOf: [{ type: 'string' }, { type: 'null' }] });
+    });
+
+    it('should carry descriptions and defaults', () => {
+      const json = convert(z.object({
+        mode: z.enum(['fast', 'slow']).default('fast').describe('How hard to think')
+      }).describe('Probe input'));
+
+      expect(json.description).toBe('Probe input');
+      expect(json.properties.mode).toEqual({
+        type: 'string',
+        enum: ['fast', 'slow'],
+        default: 'fast',
+        description: 'How hard to think'
+      });
+      expect(json.required).toEqual([]);
+    });
+
+    it('should keep enums nested inside arrays and records', () => {
+      const json = convert(z.object({
+        tags: z.array(z.enum(['a', 'b'])).min(1).max(3),
+        scores: z.record(z.enum(['low', 'high']), z.number())
+      }));
+
+      expect(json.properties.tags).toEqual({
+        type: 'array',
+        items: { type: 'string', enum: ['a', 'b'] },
+        minItems: 1,
+        maxItems: 3
+      });
+      expect(json.properties.scores).toEqual({
+        type: 'object',
+        additionalProperties: { type: 'number' },
+        propertyNames: { type: 'string', enum: ['low', 'high'] }
+      });
+    });
+
+    it('should describe unknown and any values as unconstrained', () => {
+      const json = convert(z.object({ payload: z.unknown(), extra: z.any() }));
+
+      expect(json.properties.payload).toEqual({});
+      expect(json.properties.extra).toEqual({});
+    });
+
+    it('should describe string formats and patterns', () => {
+      const json = convert(z.object({
+        email: z.string().email(),
+        link: z.string().url(),
+        code: z.string().regex(/^[A-Z]{3}$/)
+      }));
+
+      expect(json.properties.email).toEqual({ type: 'string', format: 'email' });
+      expect(json.properties.link).toEqual({ type: 'string', format: 'uri' });
+      expect(json.properties.code).toEqual({ type: 'string', pattern: '^[A-Z]{3}$' });
+    });
+
+    it('should omit examples for tools registered without them', () => {
+      expect(convert(z.object({ a: z.string() }))).not.toHaveProperty('examples');
+    });
+
+    it('should allow extra keys only on passthrough objects', () => {
+      const json = convert(z.object({
+        strict: z.object({ a: z.string() }).strict(),
+        stripped: z.object({ a: z.string() }),
+        open: z.object({ a: z.string() }).passthrough(),
+        typed: z.object({ a: z.string() }).catchall(z.number())
+      }));
+
+      expect(json.properties.strict.additionalProperties).toBe(false);
+      expect(json.properties.stripped.additionalProperties).toBe(false);
+      expect(json.properties.open.additionalProperties).toBe(true);
+      expect(json.properties.typed.additionalProperties).toEqual({ type: 'number' });
+    });
+  });
+});
+
+describe('Tool output schemas', () => {
+  beforeEach(() => {
+    (ToolRegistry as any).tools = [];
+    initializeToolRegistry();
+  });
+
+  afterEach(() => {
+    (ToolRegistry as any).tools = [];
+  });
+
+  it.each(names)('should faithfully describe the %s output schema', name => {
+    const tool = ToolRegistry.findTool(name)!;
+    const definition = ToolRegistry.getToolDefinitions().find(entry => entry.name === name)!;
+
+    expect(definition.outputSchema).toBeDefined();
+    expectFaithful(tool.server.getOutputSchema() as z.ZodTypeAny, definition.outputSchema as JsonSchema);
+    expect(undescribedProperties(definition.outputSchema as JsonSchema)).toEqual([]);
+  });
+
+  it.each(names)('should return %s results as structured content matching the output schema', name => {
+    const tool = ToolRegistry.findTool(name)!;
+
+    for (const example of tool.examples!) {
+      const response = tool.server.run(example);
+
+      expect(response.isError).toBeUndefined();
+      expect(response.structuredContent).toEqual(JSON.parse(response.content[0].text));
+      expect(tool.server.getOutputSchema()!.safeParse(response.structuredContent).error?.issues).toBeUndefined();
+    }
+  });
+
+  it('should omit structured content for servers without an output schema', () => {
+    const response = new EchoServer(z.object({ a: z.string() })).run({ a: 'x' });
+
+    expect(response.structuredContent).toBeUndefined();
+    expect(JSON.parse(response.content[0].text)).toEqual({ a: 'x' });
+  });
+
+  it('should omit the output schema for tools registered without one', () => {
+    convert(z.object({ a: z.string() }));
+
+    expect(ToolRegistry.getToolDefinitions()[0]).not.toHaveProperty('outputSchema');
+  });
+
+  it('should pass client-side output validation for every example', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools.filter(tool => tool.outputSchema).map(tool => tool.name)).toEqual(names);
+
+    for (const name of names) {
+      // The client validates structured content only when the advertised schema compiles
+      expect((client as any).getToolOutputValidator(name)).toBeDefined();
+      for (const example of ToolRegistry.findTool(name)!.examples!) {
+        const result = await client.callTool({ name, arguments: example as Record<string, unknown> });
+
+        expect({ name, isError: result.isError }).toEqual({ name, isError: undefined });
+        expect(result.structuredContent).toMatchObject({ status: 'success' });
+      }
+    }
+    await client.close();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for the MCP prompt catalogue
+ * Tests prompt listing, argument handling and the generated message sequences
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ToolRegistry } from '../../src/base/BaseToolServer.js';
+import { initializeToolRegistry } from '../../src/base/toolRegistry.js';
+import { createMcpServer } from '../../src/base/mcpServer.js';
+import { getPromptDefinitions, getPrompt } from '../../src/prompts/promptCatalogue.js';
+import { ValidationError } from '../../src/errors/CustomErrors.js';
+
+/**
+ * Fill every argument of a prompt with a placeholder value
+ */
+function sampleArguments(name: string): Record<string, string> {
+  const definition = getPromptDefinitions().find(entry => entry.name === name)!;
+  return Object.fromEntries(definition.arguments.map(argument => [argument.name, `sample ${argument.name}`]));
+}
+
+describe('promptCatalogue', () => {
+  const names = getPromptDefinitions().map(entry => entry.name);
+
+  beforeEach(() => {
+    (ToolRegistry as any).tools = [];
+    initializeToolRegistry();
+  });
+
+  afterEach(() => {
+    (ToolRegistry as any).tools = [];
+  });
+
+  it('should include the pre-mortem, binary search and design review prompts', () => {
+    expect(names).toEqual(expect.arrayContaining(['pre_mortem', 'binary_search_debugging', 'design_review']));
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('should cover every registered tool', () => {
+    const covered = names.map(name => getPrompt(name, sampleArguments(name)).messages[1].content.text);
+
+    for (const tool of ToolRegistry.getAllTools()) {
+      expect({ tool: tool.name, covered: covered.some(text => text.includes(`the ${tool.name} tool`)) })
+        .toEqual({ tool: tool.name, covered: true });
+    }
+  });
+
+  it.each(names)('should walk through %s as user, assistant and user messages', name => {
+    const prompt = getPrompt(name, sampleArguments(name));
+
+    expect(prompt.description.length).toBeGreaterThan(0);
+    expect(prompt.messages.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(prompt.messages[1].content.text).toMatch(/^I'll work through this with the \w+ tool:\n1\. /);
+  });
+
+  it('should fill the arguments into the messages', () => {
+    const prompt = getPrompt('pre_mortem', {
+      decision: 'Migrate billing to the new platform',
+      options: 'migrate now, migrate in Q3 , stay',
+      horizon: 'six months'
+    });
+
+    expect(prompt.messages[0].content.text).toBe([
+      'Run a pre-mortem on this decision: Migrate billing to the new platform',
+      'Options: migrate now; migrate in Q3; stay',
+      'Imagine it is six months from now and the decision turned out badly.'
+    ].join('\n'));
+  });
+
+  it('should fall back to defaults for omitted optional arguments', () => {
+    const prompt = getPrompt('mental_model_analysis', { problem: 'Slow onboarding' });
+
+    expect(prompt.messages[0].content.text).toBe('Analyze this problem with the first_principles mental model: Slow onboarding');
+    expect(prompt.messages[1].content.text).toContain('modelName "first_principles"');
+  });
+
+  it('should name the five personas of the design review', () => {
+    const text = getPrompt('design_review', { design: 'Event-sourced orders service' }).messages[0].content.text;
+
+    for (const persona of ['architect', 'security', 'operations', 'user_advocate', 'skeptic']) {
+      expect(text).toContain(persona);
+    }
+  });
+
+  it('should reject missing required arguments', () => {
+    expect(() => getPrompt('binary_search_debugging', { issue: '  ' })).toThrow(ValidationError);
+    expect(() => getPrompt('binary_search_debugging')).toThrow('Prompt binary_search_debugging is missing required arguments: issue');
+  });
+
+  it('should reject unknown prompts', () => {
+    expect(() => getPrompt('no_such_prompt')).toThrow('Unknown prompt: no_such_prompt');
+  });
+
+  describe('over MCP', () => {
+    let client: Client;
+
+    beforeEach(async () => {
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await createMcpServer().connect(serverTransport);
+      await client.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    it('should advertise the prompts capability and list the prompts', async () => {
+      expect(client.getServerCapabilities()?.prompts).toBeDefined();
+
+      const { prompts } = await client.listPrompts();
+
+      expect(prompts).toEqual(getPromptDefinitions());
+    });
+
+    it('should return the message sequence for a prompt', async () => {
+      const result = await client.getPrompt({ name: 'binary_search_debugging', arguments: { issue: 'Checkout returns 500' } });
+
+      expect(result.messages).toEqual(getPrompt('binary_search_debugging', { issue: 'Checkout returns 500' }).messages);
+    });
+
+    it('should report bad prompt requests as invalid params', async () => {
+      await expect(client.getPrompt({ name: 'design_review' })).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+  });
+});
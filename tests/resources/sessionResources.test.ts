@@ -0,0 +1,233 @@
+/**
+ * Tests for session store resources
+ * Tests thinking:// URIs, listing and reading stored reasoning, and change subscriptions
+ */
+
+import { jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ErrorCode,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../../src/base/mcpServer.js';
+import { InMemorySessionManager } from '../../src/services/SessionManager.js';
+import { DecisionFrameworkServer } from '../../src/servers/DecisionFrameworkServer.js';
+import { VisualReasoningServer } from '../../src/servers/VisualReasoningServer.js';
+import { ScientificMethodServer } from '../../src/servers/ScientificMethodServer.js';
+import { SequentialThinkingServer } from '../../src/servers/SequentialThinkingServer.js';
+import { StructuredArgumentationServer } from '../../src/servers/StructuredArgumentationServer.js';
+import {
+  resourceUri,
+  parseResourceUri,
+  listResources,
+  readResource,
+  getResourceTemplates
+} from '../../src/resources/sessionResources.js';
+import { ValidationError } from '../../src/errors/CustomErrors.js';
+
+const decision = {
+  decisionStatement: 'Pick a vendor',
+  options: [{ name: 'A', description: 'Vendor A' }, { name: 'B', description: 'Vendor B' }],
+  analysisType: 'expected-utility',
+  stage: 'options',
+  decisionId: 'vendor choice',
+  iteration: 1,
+  nextStageNeeded: true
+};
+
+const diagram = {
+  operation: 'create',
+  elements: [{ id: 'api', type: 'node', properties: {} }],
+  diagramId: 'architecture',
+  diagramType: 'graph',
+  iteration: 1,
+  nextOperationNeeded: true
+};
+
+const inquiry = {
+  stage: 'observation',
+  observation: 'Latency doubled after the deploy',
+  inquiryId: 'latency',
+  iteration: 1,
+  nextStageNeeded: true
+};
+
+const readJson = (store: InMemorySessionManager, uri: string) => JSON.parse(readResource(store, uri).contents[0].text);
+
+describe('sessionResources', () => {
+  let store: InMemorySessionManager;
+
+  beforeEach(() => {
+    store = new InMemorySessionManager();
+  });
+
+  afterEach(() => {
+    store.destroy();
+  });
+
+  describe('URIs', () => {
+    it('should build and parse thinking:// URIs', () => {
+      const uri = resourceUri('decision', 'vendor choice');
+
+      expect(uri).toBe('thinking://decisions/vendor%20choice');
+      expect(parseResourceUri(uri)).toEqual({ kind: 'decision', id: 'vendor choice' });
+      expect(parseResourceUri('thinking://inquiries/latency')).toEqual({ kind: 'inquiry', id: 'latency' });
+    });
+
+    it('should reject URIs outside the known collections', () => {
+      expect(() => parseResourceUri('thinking://notes/1')).toThrow(ValidationError);
+      expect(() => parseResourceUri('file:///etc/passwd')).toThrow('Invalid resource URI: file:///etc/passwd');
+    });
+
+    it('should advertise a template per collection', () => {
+      expect(getResourceTemplates().map(template => template.uriTemplate)).toEqual([
+        'thinking://sessions/{id}',
+        'thinking://decisions/{decisionId}',
+        'thinking://diagrams/{diagramId}',
+        'thinking://inquiries/{inquiryId}',
+        'thinking://debates/{debateId}'
+      ]);
+    });
+  });
+
+  describe('stored reasoning', () => {
+    it('should keep every tool call under its id', () => {
+      new DecisionFrameworkServer(store).run(decision);
+      new DecisionFrameworkServer(store).run({ ...decision, stage: 'recommendation', iteration: 2, nextStageNeeded: false });
+      new VisualReasoningServer(store).run(diagram);
+      new ScientificMethodServer(store).run(inquiry);
+      new SequentialThinkingServer(store).run({ thought: 'Start', thoughtNumber: 1, totalThoughts: 2, nextThoughtNeeded: true, sessionId: 's1' });
+
+      expect(listResources(store).map(resource => resource.uri)).toEqual([
+        'thinking://sessions/s1',
+        'thinking://decisions/vendor%20choice',
+        'thinking://diagrams/architecture',
+        'thinking://inquiries/latency'
+      ]);
+      expect(listResources(store)[1]).toMatchObject({ name: 'Decision vendor choice', description: '2 tool calls', mimeType: 'application/json' });
+    });
+
+    it('should read a decision with its inputs and results', () => {
+      new DecisionFrameworkServer(store).run(decision);
+
+      const body = readJson(store, 'thinking://decisions/vendor%20choice');
+
+      expect(body.decisionId).toBe('vendor choice');
+      expect(body.entries).toHaveLength(1);
+      expect(body.entries[0].input).toMatchObject({ decisionStatement: 'Pick a vendor', stage: 'options' });
+      expect(body.entries[0].result).toMatchObject({ decisionId: 'vendor choice', status: 'success' });
+      expect(body).not.toHaveProperty('kind');
+    });
+
+    it('should read a debate with the acceptability of each argument', () => {
+      const server = new StructuredArgumentationServer(store);
+      server.run({ claim: 'Ship Friday', premises: [], conclusion: 'Ship', argumentId: 't', debateId: 'release', argumentType: 'thesis', confidence: 0.6, nextArgumentNeeded: true });
+      server.run({ claim: 'Nobody is on call', premises: [], conclusion: 'Wait', argumentId: 'o', debateId: 'release', argumentType: 'objection', respondsTo: 't', confidence: 0.8, nextArgumentNeeded: false });
+
+      const body = readJson(store, 'thinking://debates/release');
+
+      expect(body.debateId).toBe('release');
+      expect(body.entries[1].result.argumentGraph).toMatchObject({ accepted: ['o'], defeated: ['t'] });
+    });
+
+    it('should read a thinking session', () => {
+      const server = new SequentialThinkingServer(store);
+      server.run({ thought: 'Start', thoughtNumber: 1, totalThoughts: 2, nextThoughtNeeded: true, sessionId: 's1' });
+
+      const body = readJson(store, 'thinking://sessions/s1');
+
+      expect(body).toMatchObject({ sessionId: 's1', thoughtHistory: [{ thought: 'Start' }], branches: {} });
+    });
+
+    it('should not record calls that fail validation', () => {
+      new VisualReasoningServer(store).run({ ...diagram, diagramType: 'sketch' });
+
+      expect(listResources(store)).toEqual([]);
+    });
+
+    it('should report missing resources', () => {
+      expect(() => readResource(store, 'thinking://diagrams/none')).toThrow('Resource not found: thinking://diagrams/none');
+    });
+  });
+
+  describe('over MCP', () => {
+    let client: Client;
+
+    beforeEach(async () => {
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await createMcpServer(store).connect(serverTransport);
+      await client.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    it('should advertise subscribable resources', () => {
+      expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true, listChanged: true });
+    });
+
+    it('should list, read and template resources', async () => {
+      new ScientificMethodServer(store).run(inquiry);
+
+      const { resources } = await client.listResources();
+      const { contents } = await client.readResource({ uri: resources[0].uri });
+      const { resourceTemplates } = await client.listResourceTemplates();
+
+      expect(resources.map(resource => resource.uri)).toEqual(['thinking://inquiries/latency']);
+      expect(JSON.parse(contents[0].text as string).entries[0].input.observation).toBe('Latency doubled after the deploy');
+      expect(resourceTemplates).toHaveLength(5);
+    });
+
+    it('should report unknown resources as invalid params', async () => {
+      await expect(client.readResource({ uri: 'thinking://decisions/none' })).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      await expect(client.subscribeResource({ uri: 'thinking://nowhere/1' })).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+
+    it('should notify subscribers when a resource changes', async () => {
+      const updated: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+        updated.push(notification.params.uri);
+      });
+      await client.subscribeResource({ uri: 'thinking://diagrams/architecture' });
+
+      new VisualReasoningServer(store).run(diagram);
+      new ScientificMethodServer(store).run(inquiry);
+      await client.ping();
+
+      expect(updated).toEqual(['thinking://diagrams/architecture']);
+
+      await client.unsubscribeResource({ uri: 'thinking://diagrams/architecture' });
+      new VisualReasoningServer(store).run({ ...diagram, operation: 'observe', iteration: 2 });
+      await client.ping();
+
+      expect(updated).toHaveLength(1);
+    });
+
+    it('should announce list changes when resources appear', async () => {
+      let listChanges = 0;
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+        listChanges++;
+      });
+
+      new DecisionFrameworkServer(store).run(decision);
+      new DecisionFrameworkServer(store).run({ ...decision, iteration: 2 });
+      await client.ping();
+
+      expect(listChanges).toBe(1);
+    });
+
+    it('should stop watching the store once the connection closes', async () => {
+      const listener = jest.fn();
+      await client.close();
+
+      store.onChange(listener);
+      expect(() => new DecisionFrameworkServer(store).run(decision)).not.toThrow();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect((store as any).listeners.size).toBe(1);
+    });
+  });
+});
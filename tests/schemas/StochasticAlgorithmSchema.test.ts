@@ -0,0 +1,136 @@
+/**
+ * Tests for StochasticAlgorithmSchema
+ * Tests the per-algorithm discriminated union and its JSON schema exposure
+ */
+
+import { StochasticAlgorithmSchema, MAX_BAYESIAN_OBSERVATIONS } from '../../src/schemas/StochasticAlgorithmSchema.js';
+import { ToolRegistry } from '../../src/base/BaseToolServer.js';
+import { StochasticAlgorithmServer } from '../../src/servers/StochasticAlgorithmServer.js';
+
+const mctsInput = {
+  algorithm: 'mcts',
+  problem: 'Pick a move',
+  parameters: {
+    root: 'start',
+    states: [{ id: 'start', actions: [{ name: 'go', next: 'end' }] }, { id: 'end', reward: 1 }]
+  }
+};
+
+describe('StochasticAlgorithmSchema', () => {
+  describe('validation', () => {
+    it('should apply the parameter schema of the selected algorithm', () => {
+      const result = StochasticAlgorithmSchema.parse(mctsInput);
+
+      expect(result.algorithm).toBe('mcts');
+      if (result.algorithm === 'mcts') {
+        expect(result.parameters.iterations).toBe(1000);
+        expect(result.parameters.states[0].player).toBe('max');
+      }
+    });
+
+    it('should accept full algorithm names in any casing', () => {
+      const result = StochasticAlgorithmSchema.parse({ ...mctsInput, algorithm: 'Monte Carlo Tree Search' });
+
+      expect(result.algorithm).toBe('mcts');
+    });
+
+    it('should reject unknown algorithms', () => {
+      const result = StochasticAlgorithmSchema.safeParse({ ...mctsInput, algorithm: 'genetic' });
+
+      expect(result.success).toBe(false);
+      expect(result.error!.errors[0].path).toEqual(['algorithm']);
+    });
+
+    it('should reject parameters meant for another algorithm', () => {
+      const result = StochasticAlgorithmSchema.safeParse({ ...mctsInput, algorithm: 'mdp' });
+
+      expect(result.success).toBe(false);
+      expect(result.error!.errors.map(error => error.path.join('.'))).toContain('parameters.transitions');
+    });
+
+    it('should require parameters', () => {
+      const result = StochasticAlgorithmSchema.safeParse({ algorithm: 'bandit', problem: 'Allocate traffic' });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('limits', () => {
+    const rejectedPaths = (input: unknown) => {
+      const result = StochasticAlgorithmSchema.safeParse(input);
+      return result.success ? [] : result.error.errors.map(error => error.path.join('.'));
+    };
+
+    it('should bound the MDP solver iterations and tolerance', () => {
+      const mdp = (limits: Record<string, number>) => ({
+        algorithm: 'mdp',
+        problem: 'Autoscaling',
+        parameters: {
+          states: ['idle'],
+          actions: ['hold'],
+          transitions: [{ state: 'idle', action: 'hold', nextState: 'idle', probability: 1, reward: 1 }],
+          ...limits
+        }
+      });
+
+      expect(rejectedPaths(mdp({ maxIterations: 10000, tolerance: 1e-12 }))).toEqual([]);
+      expect(rejectedPaths(mdp({ maxIterations: 10001, tolerance: 1e-300 }))).toEqual(['parameters.tolerance', 'parameters.maxIterations']);
+    });
+
+    it('should cap the MCTS search depth', () => {
+      expect(rejectedPaths({ ...mctsInput, parameters: { ...mctsInput.parameters, maxDepth: 1000 } })).toEqual([]);
+      expect(rejectedPaths({ ...mctsInput, parameters: { ...mctsInput.parameters, maxDepth: 1001 } })).toEqual(['parameters.maxDepth']);
+    });
+
+    it('should cap the number of Bayesian observations', () => {
+      const bayesian = (count: number) => ({
+        algorithm: 'bayesian',
+        problem: 'Tune learning rate',
+        parameters: {
+          bounds: [{ name: 'learningRate', min: 0, max: 1 }],
+          observations: Array.from({ length: count }, (_, i) => ({ x: [i / count], y: i % 7 }))
+        }
+      });
+
+      expect(rejectedPaths(bayesian(MAX_BAYESIAN_OBSERVATIONS))).toEqual([]);
+      expect(rejectedPaths(bayesian(MAX_BAYESIAN_OBSERVATIONS + 1))).toEqual(['parameters.observations']);
+    });
+  });
+
+  describe('tool definition', () => {
+    beforeEach(() => {
+      (ToolRegistry as any).tools = [];
+      ToolRegistry.register({
+        name: 'stochastic_algorithm',
+        schema: StochasticAlgorithmSchema,
+        server: new StochasticAlgorithmServer()
+      });
+    });
+
+    afterEach(() => {
+      (ToolRegistry as any).tools = [];
+    });
+
+    it('should expose one variant per algorithm', () => {
+      const [definition] = ToolRegistry.getToolDefinitions();
+      const inputSchema = definition.inputSchema as any;
+
+      expect(inputSchema.type).toBe('object');
+      expect(inputSchema.properties.algorithm.enum).toEqual(['mdp', 'mcts', 'bandit', 'bayesian', 'hmm']);
+      expect(inputSchema.required).toEqual(['algorithm', 'problem', 'parameters']);
+      expect(inputSchema.oneOf).toBeUndefined();
+      expect(inputSchema.properties.parameters.anyOf.map((variant: any) => variant.title))
+        .toEqual(['algorithm: mdp', 'algorithm: mcts', 'algorithm: bandit', 'algorithm: bayesian', 'algorithm: hmm']);
+    });
+
+    it('should describe the typed parameters of each variant', () => {
+      const [definition] = ToolRegistry.getToolDefinitions();
+      const mdp = (definition.inputSchema as any).properties.parameters.anyOf[0];
+
+      expect(mdp.type).toBe('object');
+      expect(mdp.required).toEqual(['states', 'actions', 'transitions']);
+      expect(mdp.properties.gamma).toMatchObject({ type: 'number', minimum: 0, exclusiveMaximum: 1, default: 0.9 });
+      expect(mdp.properties.method.enum).toEqual(['value-iteration', 'policy-iteration', 'both']);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for DecisionFrameworkServer
+ * Tests computed decision analysis and response formatting
+ */
+
+import { DecisionFrameworkServer } from '../../src/servers/DecisionFrameworkServer.js';
+import { DecisionFrameworkData } from '../../src/schemas/index.js';
+
+const createDecisionInput = (overrides: Partial<DecisionFrameworkData> = {}): DecisionFrameworkData => ({
+  decisionStatement: 'Choose a vendor',
+  options: [
+    { id: 'a', name: 'Vendor A', description: 'Cheap' },
+    { id: 'b', name: 'Vendor B', description: 'Reliable' }
+  ],
+  possibleOutcomes: [
+    { optionId: 'a', description: 'smooth', probability: 0.6, value: 100, confidenceInEstimate: 0.7 },
+    { optionId: 'a', description: 'outage', probability: 0.4, value: -50, confidenceInEstimate: 0.7 },
+    { optionId: 'b', description: 'smooth', probability: 0.9, value: 60, confidenceInEstimate: 0.9 },
+    { optionId: 'b', description: 'outage', probability: 0.1, value: 20, confidenceInEstimate: 0.9 }
+  ],
+  analysisType: 'expected-utility',
+  stage: 'analysis',
+  decisionId: 'decision-1',
+  iteration: 1,
+  nextStageNeeded: true,
+  ...overrides
+});
+
+describe('DecisionFrameworkServer', () => {
+  let server: DecisionFrameworkServer;
+
+  beforeEach(() => {
+    server = new DecisionFrameworkServer();
+  });
+
+  describe('outcome analysis', () => {
+    it('should compute expected values instead of echoing caller input', () => {
+      const result = server.process(createDecisionInput({ expectedValues: { a: 999, b: 999 } }));
+
+      expect(result.expectedValues!.a).toBeCloseTo(40);
+      expect(result.expectedValues!.b).toBeCloseTo(56);
+      expect(result.analysis!.recommendedOptionId).toBe('b');
+    });
+
+    it('should apply the requested decision rule', () => {
+      const result = server.process(createDecisionInput({ analysisType: 'maximin' }));
+
+      expect(result.analysis!.method).toBe('maximin');
+      expect(result.analysis!.ranking[0]).toMatchObject({ optionId: 'b', score: 20 });
+    });
+
+    it('should pass the aspiration level to satisficing', () => {
+      const result = server.process(createDecisionInput({ analysisType: 'satisficing', aspirationLevel: 30 }));
+
+      expect(result.analysis).toHaveProperty('aspirationLevel', 30);
+      expect(result.analysis!.recommendedOptionId).toBeUndefined();
+    });
+
+    it('should skip outcome analysis without possible outcomes', () => {
+      const result = server.process(createDecisionInput({ possibleOutcomes: undefined, expectedValues: { a: 1 } }));
+
+      expect(result.analysis).toBeUndefined();
+      expect(result.expectedValues).toEqual({ a: 1 });
+    });
+  });
+
+  describe('multi-criteria analysis', () => {
+    const multiCriteriaInput = (overrides: Partial<DecisionFrameworkData> = {}) => createDecisionInput({
+      analysisType: 'multi-criteria',
+      criteria: [
+        { id: 'price', name: 'Price', description: 'Lower is better', weight: 0.7, evaluationMethod: 'quantitative' },
+        { id: 'support', name: 'Support', description: 'Quality of support', weight: 0.3, evaluationMethod: 'qualitative' }
+      ],
+      criteriaEvaluations: [
+        { optionId: 'a', criterionId: 'price', score: 0.9, justification: 'Cheapest' },
+        { optionId: 'a', criterionId: 'support', score: 0.2, justification: 'Email only' },
+        { optionId: 'b', criterionId: 'price', score: 0.4, justification: 'Pricey' },
+        { optionId: 'b', criterionId: 'support', score: 0.9, justification: '24/7' }
+      ],
+      ...overrides
+    });
+
+    it('should compute multi-criteria scores with weighted sum by default', () => {
+      const result = server.process(multiCriteriaInput({ multiCriteriaScores: { a: 0, b: 1 } }));
+
+      expect(result.analysis!.method).toBe('weighted-sum');
+      expect(result.multiCriteriaScores!.a).toBeCloseTo(0.69);
+      expect(result.multiCriteriaScores!.b).toBeCloseTo(0.55);
+    });
+
+    it('should use the requested method', () => {
+      const result = server.process(multiCriteriaInput({
+        multiCriteriaMethod: 'ahp',
+        pairwiseComparisons: [{ criterionA: 'support', criterionB: 'price', preference: 4 }]
+      }));
+
+      expect(result.analysis!.method).toBe('ahp');
+      expect(result.analysis).toHaveProperty('consistency.isConsistent', true);
+      expect(result.analysis!.recommendedOptionId).toBe('b');
+    });
+
+    it('should skip scoring without criteria evaluations', () => {
+      const result = server.process(multiCriteriaInput({ criteriaEvaluations: undefined }));
+
+      expect(result.analysis).toBeUndefined();
+    });
+  });
+
+  describe('sensitivity analysis', () => {
+    it('should report probability tipping points for expected utility', () => {
+      const result = server.process(createDecisionInput({ sensitivityInsights: ['caller text'] }));
+
+      expect(result.sensitivity!.baselineTopOptionId).toBe('b');
+      expect(result.sensitivity!.parameters.some((parameter: { flips: boolean }) => parameter.flips)).toBe(true);
+      expect(result.sensitivityInsights).not.toContain('caller text');
+    });
+
+    it('should skip sensitivity for rules that ignore probabilities', () => {
+      const result = server.process(createDecisionInput({ analysisType: 'maximin', sensitivityInsights: ['caller text'] }));
+
+      expect(result.sensitivity).toBeUndefined();
+      expect(result.sensitivityInsights).toEqual(['caller text']);
+    });
+  });
+
+  describe('value of information', () => {
+    it('should attach value of information to each information gap', () => {
+      const result = server.process(createDecisionInput({
+        informationGaps: [
+          { description: 'Outage likelihood', impact: 0.9, researchMethod: 'Reference calls', sampleAccuracy: 0.9, cost: 1 }
+        ]
+      }));
+
+      expect(result.valueOfInformation!.evpi).toBeGreaterThan(0);
+      expect(result.valueOfInformation!.gaps[0]).toMatchObject({ description: 'Outage likelihood', rank: 1 });
+      expect(result.valueOfInformation!.gaps[0].evsi).toBeDefined();
+    });
+
+    it('should skip value of information without information gaps', () => {
+      const result = server.process(createDecisionInput());
+
+      expect(result.valueOfInformation).toBeUndefined();
+    });
+  });
+
+  describe('run', () => {
+    it('should return the computed analysis in the response envelope', () => {
+      const response = server.run(createDecisionInput({ analysisType: 'minimax-regret' }));
+
+      expect(response.isError).toBeUndefined();
+      const result = JSON.parse(response.content[0].text);
+      expect(result.analysis!.ranking).toHaveLength(2);
+      expect(result.status).toBe('success');
+    });
+  });
+});
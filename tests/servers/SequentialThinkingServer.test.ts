@@ -4,7 +4,8 @@
  */
 
 import { jest } from '@jest/globals';
-import { SequentialThinkingServer } from '../../src/servers/SequentialThinkingServer.js';
+import { SequentialThinkingServer, DEFAULT_SESSION_ID } from '../../src/servers/SequentialThinkingServer.js';
+import { InMemorySessionManager } from '../../src/services/SessionManager.js';
 import {
   createMockThoughtData,
   createMockCurrentStep,
@@ -130,6 +131,114 @@ describe('SequentialThinkingServer', () => {
     });
   });
 
+  describe('session tracking', () => {
+    let sessions: InMemorySessionManager;
+    let trackedServer: SequentialThinkingServer;
+
+    beforeEach(() => {
+      sessions = new InMemorySessionManager();
+      trackedServer = new SequentialThinkingServer(sessions);
+    });
+
+    afterEach(() => {
+      sessions.destroy();
+    });
+
+    it('should record every thought in the given session', () => {
+      trackedServer.process(createMockThoughtData({ thoughtNumber: 1, totalThoughts: 3, sessionId: 'chain-1' }));
+      const result = trackedServer.process(createMockThoughtData({ thoughtNumber: 2, totalThoughts: 3, sessionId: 'chain-1' }));
+
+      expect(result.sessionId).toBe('chain-1');
+      expect(result.thoughtHistoryLength).toBe(2);
+      expect(sessions.getThoughtHistory('chain-1').map(t => t.thoughtNumber)).toEqual([1, 2]);
+    });
+
+    it('should not store the sessionId on recorded thoughts', () => {
+      trackedServer.process(createMockThoughtData({ sessionId: 'chain-1' }));
+
+      expect(sessions.getThoughtHistory('chain-1')[0]).not.toHaveProperty('sessionId');
+    });
+
+    it('should fall back to the default session when no sessionId is given', () => {
+      const result = trackedServer.process(createMockThoughtData());
+
+      expect(result.sessionId).toBe(DEFAULT_SESSION_ID);
+      expect(sessions.getThoughtHistory(DEFAULT_SESSION_ID)).toHaveLength(1);
+    });
+
+    it('should fall back to the transport session of the caller', () => {
+      const first = trackedServer.process(createMockThoughtData(), { transportSessionId: 'client-a' });
+      const second = trackedServer.process(createMockThoughtData(), { transportSessionId: 'client-b' });
+
+      expect(first.sessionId).toBe('client-a');
+      expect(second.sessionId).toBe('client-b');
+      expect(second.thoughtHistoryLength).toBe(1);
+      expect(sessions.getThoughtHistory(DEFAULT_SESSION_ID)).toEqual([]);
+    });
+
+    it('should keep sessions isolated from each other', () => {
+      trackedServer.process(createMockThoughtData({ sessionId: 'chain-a' }));
+      trackedServer.process(createMockThoughtData({ sessionId: 'chain-a', thoughtNumber: 2 }));
+      const result = trackedServer.process(createMockThoughtData({ sessionId: 'chain-b' }));
+
+      expect(result.thoughtHistoryLength).toBe(1);
+    });
+
+    it('should track branches and return the branch list', () => {
+      trackedServer.process(createMockThoughtData({ thoughtNumber: 1, totalThoughts: 4, sessionId: 'chain-1' }));
+      trackedServer.process(createMockThoughtData({
+        thoughtNumber: 2, totalThoughts: 4, sessionId: 'chain-1', branchFromThought: 1, branchId: 'alt-a'
+      }));
+      const result = trackedServer.process(createMockThoughtData({
+        thoughtNumber: 2, totalThoughts: 4, sessionId: 'chain-1', branchFromThought: 1, branchId: 'alt-b'
+      }));
+
+      expect(result.branches).toEqual(['alt-a', 'alt-b']);
+      expect(result.thoughtHistoryLength).toBe(3);
+      expect(sessions.getBranches('chain-1')['alt-a']).toHaveLength(1);
+    });
+
+    it('should not record a branch without branchFromThought', () => {
+      const result = trackedServer.process(createMockThoughtData({ sessionId: 'chain-1', branchId: 'orphan' }));
+
+      expect(result.branches).toEqual([]);
+    });
+
+    it('should return the thought being revised', () => {
+      trackedServer.process(createMockThoughtData({ thought: 'Original idea', thoughtNumber: 1, totalThoughts: 3, sessionId: 'chain-1' }));
+      trackedServer.process(createMockThoughtData({ thought: 'Next idea', thoughtNumber: 2, totalThoughts: 3, sessionId: 'chain-1' }));
+
+      const result = trackedServer.process(createMockThoughtData({
+        thought: 'Better idea', thoughtNumber: 3, totalThoughts: 3, sessionId: 'chain-1', isRevision: true, revisesThought: 1
+      }));
+
+      expect(result.revisedThought).toMatchObject({ thought: 'Original idea', thoughtNumber: 1 });
+    });
+
+    it('should leave revisedThought undefined when the revised thought is unknown', () => {
+      const result = trackedServer.process(createMockThoughtData({
+        sessionId: 'chain-1', isRevision: true, revisesThought: 7
+      }));
+
+      expect(result.revisedThought).toBeUndefined();
+    });
+
+    it('should report session store failures as state errors', () => {
+      jest.spyOn(sessions, 'addThought').mockImplementation(() => {
+        throw new Error('disk full');
+      });
+
+      const response = trackedServer.run(createMockThoughtData({ sessionId: 'chain-1', thoughtNumber: 2 }));
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text)).toMatchObject({
+        error: "Could not record thought 2 in session 'chain-1': disk full",
+        code: 'STATE_ERROR',
+        sessionId: 'chain-1'
+      });
+    });
+  });
+
   describe('processThought (backward compatibility)', () => {
     it('should process valid thought successfully via run method', () => {
       const validInput = {
@@ -0,0 +1,313 @@
+/**
+ * Tests for StochasticAlgorithmServer
+ * Tests executable algorithms and parameter validation
+ */
+
+import { StochasticAlgorithmServer } from '../../src/servers/StochasticAlgorithmServer.js';
+
+const mdpParameters = {
+  states: ['idle', 'busy'],
+  actions: ['scale', 'hold'],
+  transitions: [
+    { state: 'idle', action: 'hold', nextState: 'idle', probability: 0.7, reward: 1 },
+    { state: 'idle', action: 'hold', nextState: 'busy', probability: 0.3, reward: 1 },
+    { state: 'idle', action: 'scale', nextState: 'idle', probability: 1, reward: -1 },
+    { state: 'busy', action: 'hold', nextState: 'busy', probability: 1, reward: -5 },
+    { state: 'busy', action: 'scale', nextState: 'idle', probability: 1, reward: -2 }
+  ],
+  gamma: 0.9
+};
+
+const gameTree = {
+  root: 'open',
+  states: [
+    { id: 'open', actions: [{ name: 'attack', next: 'exposed' }, { name: 'defend', next: 'solid' }] },
+    { id: 'exposed', player: 'min', actions: [{ name: 'counter', next: 'lost' }, { name: 'retreat', next: 'won' }] },
+    { id: 'solid', player: 'min', actions: [{ name: 'probe', next: 'drawn' }] },
+    { id: 'won', reward: 1 },
+    { id: 'lost', reward: -1 },
+    { id: 'drawn', reward: 0 }
+  ],
+  iterations: 500
+};
+
+describe('StochasticAlgorithmServer', () => {
+  let server: StochasticAlgorithmServer;
+
+  beforeEach(() => {
+    server = new StochasticAlgorithmServer();
+  });
+
+  const runAlgorithm = (input: unknown) => {
+    const response = server.run(input);
+    expect(response.isError).toBeUndefined();
+    return JSON.parse(response.content[0].text);
+  };
+
+  it('should reject unknown algorithms', () => {
+    const response = server.run({ algorithm: 'simulated annealing', problem: 'Scheduling', parameters: {} });
+
+    expect(response.isError).toBe(true);
+    expect(JSON.parse(response.content[0].text).error).toContain('algorithm: Invalid discriminator value');
+  });
+
+  describe('mdp', () => {
+    it('should return the optimal policy and value function', () => {
+      const result = runAlgorithm({ algorithm: 'mdp', problem: 'Autoscaling', parameters: mdpParameters });
+
+      expect(result.solution.policy).toEqual({ idle: 'hold', busy: 'scale' });
+      expect(result.solution.valueIteration.converged).toBe(true);
+      expect(result.solution.policyIteration.converged).toBe(true);
+      expect(result.solution.policiesAgree).toBe(true);
+      expect(result.result).toContain('value iteration converged');
+    });
+
+    it('should run only the requested method', () => {
+      const result = runAlgorithm({
+        algorithm: 'markov decision process',
+        problem: 'Autoscaling',
+        parameters: { ...mdpParameters, method: 'policy-iteration' }
+      });
+
+      expect(result.solution.policyIteration.iterations).toBeGreaterThan(0);
+      expect(result.solution.valueIteration).toBeUndefined();
+      expect(result.solution.policiesAgree).toBeUndefined();
+    });
+
+    it('should reject transitions to unknown states', () => {
+      const response = server.run({
+        algorithm: 'mdp',
+        problem: 'Autoscaling',
+        parameters: {
+          ...mdpParameters,
+          transitions: [...mdpParameters.transitions.slice(1), { state: 'idle', action: 'hold', nextState: 'down', probability: 0.3 }]
+        }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('parameters.transitions.4.nextState: Unknown state "down"');
+    });
+
+    it('should reject transition probabilities that do not sum to 1', () => {
+      const response = server.run({
+        algorithm: 'mdp',
+        problem: 'Autoscaling',
+        parameters: { ...mdpParameters, transitions: mdpParameters.transitions.slice(1) }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('state "idle" and action "hold" sum to 0.300');
+    });
+
+    it('should require an MDP definition', () => {
+      const response = server.run({ algorithm: 'mdp', problem: 'Autoscaling', parameters: { states: 100 } });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('parameters.states');
+    });
+  });
+
+  describe('mcts', () => {
+    it('should return the best action sequence and root statistics', () => {
+      const result = runAlgorithm({ algorithm: 'mcts', problem: 'Opening choice', parameters: gameTree, seed: 3 });
+
+      expect(result.solution.bestSequence).toEqual(['defend', 'probe']);
+      expect(result.solution.children).toHaveLength(2);
+      expect(result.result).toContain('Best action sequence: defend → probe');
+    });
+
+    it('should reject actions leading to unknown states', () => {
+      const response = server.run({
+        algorithm: 'mcts',
+        problem: 'Opening choice',
+        parameters: { ...gameTree, states: gameTree.states.slice(0, 5) }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('parameters.states.2.actions.0.next: Unknown state "drawn"');
+    });
+  });
+
+  describe('bandit', () => {
+    it('should return regret, per-arm estimates and the recommended arm', () => {
+      const result = runAlgorithm({
+        algorithm: 'bandit',
+        problem: 'Checkout A/B test',
+        parameters: {
+          arms: [
+            { id: 'control', history: { pulls: 400, totalReward: 20 } },
+            { id: 'variant', history: { pulls: 400, totalReward: 36 } }
+          ],
+          policy: 'thompson'
+        },
+        seed: 1
+      });
+
+      expect(result.solution.recommendedArm).toBe('variant');
+      expect(result.solution.arms).toHaveLength(2);
+      expect(result.solution.cumulativeRegret).toBeGreaterThan(0);
+      expect(result.result).toContain('recommended next arm: variant');
+    });
+
+    it('should reject arms without a distribution or history', () => {
+      const response = server.run({
+        algorithm: 'multi-armed bandit',
+        problem: 'Checkout A/B test',
+        parameters: { arms: [{ id: 'control' }, { id: 'variant', distribution: { type: 'bernoulli', p: 0.1 } }] }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('parameters.arms.0: Arm "control" needs a distribution or a history');
+    });
+
+    it('should reject bernoulli histories with more successes than pulls', () => {
+      const response = server.run({
+        algorithm: 'bandit',
+        problem: 'Checkout A/B test',
+        parameters: { arms: [{ id: 'a', history: { pulls: 5, totalReward: 6 } }, { id: 'b', history: { pulls: 5, totalReward: 1 } }] }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('parameters.arms.0.history.totalReward');
+    });
+  });
+
+  describe('hmm', () => {
+    const hmmParameters = {
+      states: ['healthy', 'fever'],
+      symbols: ['normal', 'cold', 'dizzy'],
+      initial: [0.6, 0.4],
+      transition: [[0.7, 0.3], [0.4, 0.6]],
+      emission: [[0.5, 0.4, 0.1], [0.1, 0.3, 0.6]],
+      observations: ['normal', 'cold', 'dizzy']
+    };
+
+    it('should return the Viterbi path, marginals and likelihood', () => {
+      const result = runAlgorithm({ algorithm: 'hmm', problem: 'Patient monitoring', parameters: hmmParameters });
+
+      expect(result.solution.viterbiPath).toEqual(['healthy', 'healthy', 'fever']);
+      expect(result.solution.posteriors).toHaveLength(3);
+      expect(result.solution.likelihood).toBeCloseTo(0.03628, 6);
+    });
+
+    it('should fit the model with Baum-Welch when only observations are given', () => {
+      const result = runAlgorithm({
+        algorithm: 'hidden markov model',
+        problem: 'Patient monitoring',
+        parameters: { states: ['healthy', 'fever'], observations: hmmParameters.observations }
+      });
+
+      expect(result.solution.fitted.transition).toHaveLength(2);
+      expect(result.result).toContain('Model fitted with Baum-Welch');
+    });
+
+    it('should reject partially specified models', () => {
+      const response = server.run({
+        algorithm: 'hmm',
+        problem: 'Patient monitoring',
+        parameters: { ...hmmParameters, emission: undefined }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('Provide initial, transition and emission together');
+    });
+
+    it('should reject rows that are not probability distributions', () => {
+      const response = server.run({
+        algorithm: 'hmm',
+        problem: 'Patient monitoring',
+        parameters: { ...hmmParameters, transition: [[0.7, 0.2], [0.4, 0.6]] }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('parameters.transition.0: Probabilities sum to 0.900, expected 1');
+    });
+
+    it('should report observations the model cannot produce as processing errors', () => {
+      const response = server.run({
+        algorithm: 'hmm',
+        problem: 'Patient monitoring',
+        parameters: { ...hmmParameters, emission: [[0.5, 0.5, 0], [0.5, 0.5, 0]] },
+        seed: 7
+      });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text)).toMatchObject({
+        error: 'hmm failed: Observation 3 has zero probability under the model',
+        code: 'PROCESSING_ERROR',
+        context: { algorithm: 'hmm', seed: 7 }
+      });
+    });
+  });
+
+  describe('bayesian', () => {
+    const bayesianParameters = {
+      bounds: [{ name: 'learningRate', min: 0.001, max: 0.1 }],
+      observations: [{ x: [0.001], y: 0.71 }, { x: [0.05], y: 0.83 }, { x: [0.1], y: 0.64 }],
+      acquisitionFunction: 'expected_improvement'
+    };
+
+    it('should return the posterior and the next point to sample', () => {
+      const result = runAlgorithm({ algorithm: 'bayesian', problem: 'Tune learning rate', parameters: bayesianParameters });
+
+      expect(result.solution.posterior.length).toBeGreaterThan(0);
+      expect(result.solution.nextPoint.x[0]).toBeGreaterThanOrEqual(0.001);
+      expect(result.solution.nextPoint.x[0]).toBeLessThanOrEqual(0.1);
+      expect(result.solution.bestObservation.y).toBe(0.83);
+      expect(result.result).toContain('Next point under expected_improvement: learningRate=');
+    });
+
+    it('should reject observations outside the bounds', () => {
+      const response = server.run({
+        algorithm: 'bayesian optimization',
+        problem: 'Tune learning rate',
+        parameters: { ...bayesianParameters, observations: [{ x: [0.5], y: 0.2 }] }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('parameters.observations.0.x.0: learningRate = 0.5 is outside [0.001, 0.1]');
+    });
+  });
+
+  describe('seed', () => {
+    const stochasticInputs = [
+      { algorithm: 'mcts', problem: 'Opening choice', parameters: { ...gameTree, iterations: 50 } },
+      {
+        algorithm: 'bandit',
+        problem: 'Checkout A/B test',
+        parameters: {
+          arms: [{ id: 'a', distribution: { type: 'bernoulli', p: 0.3 } }, { id: 'b', distribution: { type: 'bernoulli', p: 0.35 } }],
+          rounds: 200
+        }
+      },
+      {
+        algorithm: 'bayesian',
+        problem: 'Tune learning rate',
+        parameters: { bounds: [{ name: 'x', min: 0, max: 1 }], observations: [{ x: [0.2], y: 1 }, { x: [0.7], y: 2 }] }
+      },
+      { algorithm: 'hmm', problem: 'Weather', parameters: { states: ['dry', 'wet'], observations: ['sun', 'rain', 'rain', 'sun'] } }
+    ];
+
+    it.each(stochasticInputs)('should replay $algorithm exactly from the echoed seed', input => {
+      const first = runAlgorithm(input);
+      const replay = runAlgorithm({ ...input, seed: first.seed });
+
+      expect(typeof first.seed).toBe('number');
+      expect(replay.seed).toBe(first.seed);
+      expect(replay.solution).toEqual(first.solution);
+    });
+
+    it('should echo the seed for deterministic algorithms too', () => {
+      const result = runAlgorithm({ algorithm: 'mdp', problem: 'Autoscaling', parameters: mdpParameters, seed: 9 });
+
+      expect(result.seed).toBe(9);
+    });
+
+    it('should reject seeds outside the unsigned 32-bit range', () => {
+      const response = server.run({ ...stochasticInputs[0], seed: -1 });
+
+      expect(response.isError).toBe(true);
+      expect(JSON.parse(response.content[0].text).error).toContain('seed');
+    });
+  });
+});
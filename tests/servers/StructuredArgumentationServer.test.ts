@@ -0,0 +1,255 @@
+/**
+ * Tests for StructuredArgumentationServer
+ * Tests debate sessions kept across calls, which claims stand after each argument, Toulmin breakdowns and fallacy flags
+ */
+
+import { z } from 'zod';
+import { StructuredArgumentationServer, DEFAULT_DEBATE_ID } from '../../src/servers/StructuredArgumentationServer.js';
+import { StructuredArgumentationSchema } from '../../src/schemas/index.js';
+import { ToolCallContext } from '../../src/base/BaseToolServer.js';
+import { InMemorySessionManager } from '../../src/services/SessionManager.js';
+import { ValidationError } from '../../src/errors/CustomErrors.js';
+
+type ArgumentInput = z.input<typeof StructuredArgumentationSchema>;
+
+const thesis: ArgumentInput = {
+  claim: 'We should move to microservices',
+  premises: ['Teams block each other when releasing the monolith'],
+  conclusion: 'Splitting into services will speed up releases',
+  argumentId: 'thesis',
+  debateId: 'architecture',
+  argumentType: 'thesis',
+  confidence: 0.7,
+  nextArgumentNeeded: true
+};
+
+const objection: ArgumentInput = {
+  claim: 'Release blocking comes from shared QA, not the monolith',
+  premises: ['Every release waits for the same QA window'],
+  conclusion: 'Services would still wait for QA',
+  argumentId: 'objection',
+  debateId: 'architecture',
+  argumentType: 'objection',
+  confidence: 0.6,
+  respondsTo: 'thesis',
+  nextArgumentNeeded: true
+};
+
+const rebuttal: ArgumentInput = {
+  claim: 'QA can be split per service',
+  premises: ['Contract tests replace the shared QA window'],
+  conclusion: 'The QA bottleneck goes away with services',
+  argumentId: 'rebuttal',
+  debateId: 'architecture',
+  argumentType: 'rebuttal',
+  confidence: 0.65,
+  respondsTo: 'objection',
+  nextArgumentNeeded: false
+};
+
+describe('StructuredArgumentationServer', () => {
+  let store: InMemorySessionManager;
+  let server: StructuredArgumentationServer;
+
+  /**
+   * Validate an argument the way the tool does and process it
+   */
+  const submit = (input: ArgumentInput, context: ToolCallContext = {}) => server.process(StructuredArgumentationSchema.parse(input), context);
+
+  beforeEach(() => {
+    store = new InMemorySessionManager();
+    server = new StructuredArgumentationServer(store);
+  });
+
+  afterEach(() => {
+    store.destroy();
+  });
+
+  it('should let a thesis stand until it is attacked', () => {
+    const result = submit(thesis);
+
+    expect(result.argumentStatus).toBe('accepted');
+    expect(result.argumentGraph.accepted).toEqual(['thesis']);
+    expect(result.argumentGraph.extensions).toEqual({ grounded: ['thesis'], preferred: [['thesis']], stable: [['thesis']] });
+  });
+
+  it('should defeat a claim after an objection and reinstate it after a rebuttal', () => {
+    submit(thesis);
+
+    const afterObjection = submit(objection);
+    expect(afterObjection.argumentGraph.accepted).toEqual(['objection']);
+    expect(afterObjection.argumentGraph.defeated).toEqual(['thesis']);
+
+    const afterRebuttal = submit(rebuttal);
+    expect(afterRebuttal.argumentStatus).toBe('accepted');
+    expect(afterRebuttal.argumentGraph.accepted).toEqual(['thesis', 'rebuttal']);
+    expect(afterRebuttal.argumentGraph.defeated).toEqual(['objection']);
+    expect(afterRebuttal.argumentGraph.arguments[1]).toMatchObject({ argumentId: 'objection', status: 'defeated', attackedBy: ['rebuttal'] });
+  });
+
+  it('should report mutually contradicting claims as undecided', () => {
+    submit({ ...thesis, contradicts: ['counter'] });
+    const result = submit({ ...thesis, argumentId: 'counter', claim: 'Stay on the monolith', contradicts: ['thesis'] });
+
+    expect(result.argumentStatus).toBe('undecided');
+    expect(result.argumentGraph.undecided).toEqual(['thesis', 'counter']);
+    expect(result.argumentGraph.extensions.preferred).toEqual([['thesis'], ['counter']]);
+  });
+
+  it('should keep debates apart and fall back to the default debate', () => {
+    submit(thesis);
+    const result = submit({ ...thesis, debateId: undefined, argumentId: undefined, contradicts: ['thesis'] });
+
+    expect(result.debateId).toBe(DEFAULT_DEBATE_ID);
+    expect(result.argumentId).toBe('argument-1');
+    expect(result.argumentGraph.warnings).toEqual(['Argument "argument-1" contradicts unknown argument "thesis"']);
+    expect(store.getRecord('debate', 'architecture')!.entries).toHaveLength(1);
+    expect(store.getRecord('debate', DEFAULT_DEBATE_ID)!.entries).toHaveLength(1);
+  });
+
+  it('should keep the debates of transport sessions without a debateId apart', () => {
+    const untitled = { ...thesis, debateId: undefined };
+    submit(untitled, { transportSessionId: 'client-a' });
+    const other = submit({ ...untitled, argumentId: 'monolith', claim: 'Stay on the monolith' }, { transportSessionId: 'client-b' });
+
+    expect(other.debateId).toBe('client-b');
+    expect(other.argumentGraph.arguments.map(argument => argument.claim)).toEqual(['Stay on the monolith']);
+    expect(() => submit({ ...objection, debateId: undefined }, { transportSessionId: 'client-b' }))
+      .toThrow('Argument "objection" responds to unknown argument "thesis" in debate "client-b"');
+    expect(store.getRecord('debate', 'client-a')!.entries[0].input).toMatchObject({ claim: thesis.claim });
+    expect(store.getRecord('debate', DEFAULT_DEBATE_ID)).toBeNull();
+  });
+
+  describe('debate sessions', () => {
+    it('should track turns, unanswered arguments and the stage of the debate', () => {
+      const opening = submit(thesis);
+      expect(opening).toMatchObject({ turn: 1, debateStage: 'opening', suggestedNextTypes: ['antithesis', 'objection'] });
+      expect(opening.argumentGraph.unanswered).toEqual(['thesis']);
+
+      const contested = submit(objection);
+      expect(contested).toMatchObject({ turn: 2, debateStage: 'contested', suggestedNextTypes: ['rebuttal'] });
+      expect(contested.argumentGraph.unanswered).toEqual(['objection']);
+
+      const answered = submit(rebuttal);
+      expect(answered).toMatchObject({ turn: 3, debateStage: 'answered', suggestedNextTypes: ['synthesis', 'objection'] });
+      expect(answered.argumentGraph.unanswered).toEqual(['rebuttal']);
+
+      const synthesis = submit({ ...thesis, argumentId: 'synthesis', argumentType: 'synthesis', respondsTo: 'rebuttal' });
+      expect(synthesis).toMatchObject({ turn: 4, debateStage: 'synthesized', suggestedNextTypes: ['objection'] });
+    });
+
+    it('should ignore caller-supplied suggestions', () => {
+      const result = server.run({ ...thesis, suggestedNextTypes: ['synthesis'] });
+
+      expect(result.structuredContent!.suggestedNextTypes).toEqual(['antithesis', 'objection']);
+    });
+
+    it('should reject responses to arguments that are not in the debate', () => {
+      submit(thesis);
+
+      expect(() => submit({ ...objection, respondsTo: 'missing' }))
+        .toThrow('Argument "objection" responds to unknown argument "missing" in debate "architecture"');
+      expect(() => submit({ ...objection, debateId: 'other' })).toThrow(ValidationError);
+      expect(store.getRecord('debate', 'architecture')!.entries).toHaveLength(1);
+    });
+
+    it('should require every type but thesis to respond to something', () => {
+      const result = server.run({ ...objection, respondsTo: undefined });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        error: 'Objection "objection" must respond to an earlier argument: set respondsTo',
+        code: 'VALIDATION_ERROR',
+        details: { field: 'respondsTo', debateId: 'architecture' }
+      });
+    });
+
+    it('should only accept rebuttals of attacking arguments', () => {
+      submit(thesis);
+
+      expect(() => submit({ ...rebuttal, respondsTo: 'thesis' }))
+        .toThrow('Rebuttal "rebuttal" must respond to an antithesis, objection or rebuttal, but "thesis" is a thesis');
+    });
+
+    it('should not let an argument respond to itself', () => {
+      submit(thesis);
+
+      expect(() => submit({ ...thesis, argumentType: 'antithesis', respondsTo: 'thesis' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('Toulmin mode', () => {
+    const toulmin = {
+      data: ['Releases wait on three other teams', 'Median release lead time is nine days'],
+      warrant: 'Independent deployment removes waiting on other teams',
+      backing: 'Teams that split the billing monolith cut lead time by half',
+      qualifier: 'Probably',
+      rebuttal: 'Unless the services still share a release train'
+    };
+
+    it('should report a complete Toulmin argument', () => {
+      const result = submit({ ...thesis, toulmin });
+
+      expect(result.toulmin).toEqual({
+        complete: true,
+        presentElements: ['data', 'warrant', 'backing', 'qualifier', 'rebuttal'],
+        missingElements: []
+      });
+    });
+
+    it('should list the elements an incomplete Toulmin argument lacks', () => {
+      const result = submit({ ...thesis, toulmin: { data: [], warrant: toulmin.warrant, qualifier: toulmin.qualifier } });
+
+      expect(result.toulmin).toEqual({
+        complete: false,
+        presentElements: ['warrant', 'qualifier'],
+        missingElements: ['data', 'backing', 'rebuttal']
+      });
+    });
+
+    it('should leave Toulmin out when it is not used', () => {
+      expect(submit(thesis).toulmin).toBeUndefined();
+    });
+
+    it('should reject blank Toulmin elements', () => {
+      const result = server.run({ ...thesis, toulmin: { ...toulmin, backing: '' } });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).details.issues[0].path).toBe('toulmin.backing');
+    });
+
+    it('should render the Toulmin breakdown', () => {
+      const result = submit(thesis);
+      const output = server['formatArgumentationOutput'](
+        StructuredArgumentationSchema.parse({ ...thesis, toulmin: { ...toulmin, backing: undefined } }),
+        'architecture',
+        result.argumentGraph,
+        { stage: result.debateStage, unanswered: result.argumentGraph.unanswered, suggestedNextTypes: result.suggestedNextTypes },
+        []
+      );
+
+      expect(output).toContain('Toulmin Structure');
+      expect(output).toContain('Warrant: Independent deployment removes waiting on other teams');
+      expect(output).toContain('Backing: (missing)');
+      expect(output).toContain('INCOMPLETE (missing backing)');
+    });
+  });
+
+  it('should flag fallacies in the argument text', () => {
+    const result = submit({ ...thesis, premises: ['Experts agree that monoliths never scale'] });
+
+    expect(result.fallacies.map(fallacy => [fallacy.type, fallacy.field, fallacy.span.text])).toEqual([
+      ['appeal-to-authority', 'premises.0', 'Experts agree'],
+      ['unsupported-universal', 'premises.0', 'never']
+    ]);
+    submit(objection);
+    expect(submit(rebuttal).fallacies).toEqual([]);
+  });
+
+  it('should not record arguments that fail validation', () => {
+    const result = server.run({ ...thesis, confidence: 2 });
+
+    expect(result.isError).toBe(true);
+    expect(store.listRecords('debate')).toEqual([]);
+  });
+});
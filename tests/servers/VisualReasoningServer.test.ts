@@ -0,0 +1,125 @@
+/**
+ * Tests for VisualReasoningServer
+ * Tests diagrams stored by diagramId across operations and rejection of dangling references
+ */
+
+import { z } from 'zod';
+import { VisualReasoningServer } from '../../src/servers/VisualReasoningServer.js';
+import { VisualReasoningSchema, VisualElementData } from '../../src/schemas/index.js';
+import { InMemorySessionManager } from '../../src/services/SessionManager.js';
+import { ValidationError } from '../../src/errors/CustomErrors.js';
+
+type VisualReasoningInput = z.input<typeof VisualReasoningSchema>;
+
+const node = (id: string, properties: Record<string, unknown> = {}): VisualElementData => ({ id, type: 'node', properties });
+
+describe('VisualReasoningServer', () => {
+  let store: InMemorySessionManager;
+  let server: VisualReasoningServer;
+
+  /**
+   * Validate an operation on the "topology" graph the way the tool does and process it
+   */
+  const apply = (input: Pick<VisualReasoningInput, 'operation'> & Partial<VisualReasoningInput>) =>
+    server.process(VisualReasoningSchema.parse({
+      diagramId: 'topology',
+      diagramType: 'graph',
+      iteration: 1,
+      nextOperationNeeded: true,
+      ...input
+    }));
+
+  beforeEach(() => {
+    store = new InMemorySessionManager();
+    server = new VisualReasoningServer(store);
+  });
+
+  afterEach(() => {
+    store.destroy();
+  });
+
+  it('should build up a diagram across operations', () => {
+    apply({ operation: 'create', elements: [node('api'), node('db')] });
+
+    const result = apply({
+      operation: 'create',
+      elements: [
+        { id: 'api-db', type: 'edge', source: 'api', target: 'db', properties: {} },
+        { id: 'backend', type: 'container', contains: ['api', 'db'], properties: {} }
+      ]
+    });
+
+    expect(result.elementCount).toBe(2);
+    expect(result.diagram).toMatchObject({ nodeCount: 2, edgeCount: 1, containerCount: 1, annotationCount: 0 });
+    expect(result.diagram.elements.map(element => element.id)).toEqual(['api', 'db', 'api-db', 'backend']);
+  });
+
+  it('should update, transform and delete stored elements', () => {
+    apply({
+      operation: 'create',
+      elements: [node('api', { color: 'blue' }), node('db'), { id: 'api-db', type: 'edge', source: 'api', target: 'db', properties: {} }]
+    });
+
+    apply({ operation: 'update', elements: [{ ...node('api'), label: 'API' }] });
+    const moved = apply({ operation: 'transform', transformationType: 'move', elements: [node('api', { x: 40 })] });
+    expect(moved.diagram.elements[0]).toEqual({ id: 'api', type: 'node', label: 'API', properties: { color: 'blue', x: 40 } });
+
+    const deleted = apply({ operation: 'delete', elements: [node('db')] });
+    expect(deleted.removedElementIds).toEqual(['db', 'api-db']);
+    expect(deleted.diagram.elements.map(element => element.id)).toEqual(['api']);
+  });
+
+  it('should reject a transform that changes more than its transformationType', () => {
+    apply({ operation: 'create', elements: [node('api')] });
+
+    expect(() => apply({ operation: 'transform', transformationType: 'move', elements: [node('api', { color: 'red' })] }))
+      .toThrow('Cannot transform in diagram "topology": A move transform only changes x, y, position, so it cannot set color on "api"');
+  });
+
+  it('should build on the latest stored diagram without replaying earlier operations', () => {
+    apply({ operation: 'create', elements: [node('api')] });
+    store.getRecord('diagram', 'topology')!.entries[0].input = {};
+
+    const result = apply({ operation: 'create', elements: [node('db')] });
+
+    expect(result.diagram.elements.map(element => element.id)).toEqual(['api', 'db']);
+  });
+
+  it('should reject edges to nodes that do not exist', () => {
+    apply({ operation: 'create', elements: [node('api')] });
+
+    expect(() => apply({ operation: 'create', elements: [{ id: 'api-cache', type: 'edge', source: 'api', target: 'cache', properties: {} }] }))
+      .toThrow('Cannot create in diagram "topology": Edge "api-cache" references missing node "cache"');
+  });
+
+  it('should reject containers with missing children and leave the diagram unchanged', () => {
+    const result = server.run({
+      operation: 'create',
+      elements: [{ id: 'backend', type: 'container', contains: ['api'], properties: {} }],
+      diagramId: 'topology',
+      diagramType: 'graph',
+      iteration: 1,
+      nextOperationNeeded: true
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { field: 'elements', diagramId: 'topology', problems: ['Container "backend" contains missing element "api"'] }
+    });
+    expect(store.getRecord('diagram', 'topology')).toBeNull();
+  });
+
+  it('should reject updates to elements that were never created', () => {
+    expect(() => apply({ operation: 'update', elements: [node('ghost')] })).toThrow(ValidationError);
+  });
+
+  it('should keep diagrams apart', () => {
+    apply({ operation: 'create', elements: [node('api')] });
+
+    const other = apply({ operation: 'observe', elements: [], diagramId: 'other' });
+
+    expect(other.diagram.elements).toEqual([]);
+    expect(other.removedElementIds).toBeUndefined();
+  });
+});
@@ -264,6 +264,11 @@ describe('ServerRegistry', () => {
         algorithm: 'mcts',
         problem: 'Test optimization problem',
         parameters: {
+          root: 'start',
+          states: [
+            { id: 'start', actions: [{ name: 'left', next: 'goal' }, { name: 'right', next: 'start' }] },
+            { id: 'goal', reward: 1 }
+          ],
           iterations: 1000,
           explorationConstant: 1.414
         }
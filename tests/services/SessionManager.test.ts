@@ -4,7 +4,15 @@
  */
 
 import { jest } from '@jest/globals';
-import { InMemorySessionManager, sessionManager } from '../../src/services/SessionManager.js';
+import { mkdtempSync, readFileSync, rmSync, appendFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  InMemorySessionManager,
+  FileSessionManager,
+  createSessionManager,
+  sessionManager
+} from '../../src/services/SessionManager.js';
 import { createMockSessionData, createMockTimers, resetAllMocks } from '../helpers/mockFactories.js';
 
 describe('InMemorySessionManager', () => {
@@ -406,6 +414,17 @@ describe('InMemorySessionManager', () => {
       expect(manager.getSession(sessionId)).not.toBeNull();
     });
 
+    it('should honor a configured session timeout', () => {
+      const shortLived = new InMemorySessionManager({ sessionTimeoutMs: 5 * 60 * 1000 });
+      shortLived.createSession('short-session');
+
+      jest.advanceTimersByTime(6 * 60 * 1000);
+      shortLived.cleanupExpiredSessions();
+
+      expect(shortLived.getSession('short-session')).toBeNull();
+      shortLived.destroy();
+    });
+
     it('should handle multiple sessions with different ages', () => {
       manager.createSession('old-session-1');
       manager.createSession('old-session-2');
@@ -552,3 +571,261 @@ describe('InMemorySessionManager', () => {
     });
   });
 });
+
+describe('InMemorySessionManager records', () => {
+  let manager: InMemorySessionManager;
+
+  beforeEach(() => {
+    manager = new InMemorySessionManager();
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  const entry = (iteration: number) => ({ at: `2026-01-0${iteration}T00:00:00.000Z`, input: { iteration }, result: { status: 'success' } });
+
+  it('should append entries to the record with the same kind and id', () => {
+    manager.addRecordEntry('decision', 'vendor', entry(1));
+    manager.addRecordEntry('decision', 'vendor', entry(2));
+    manager.addRecordEntry('diagram', 'vendor', entry(3));
+
+    expect(manager.getRecord('decision', 'vendor')?.entries).toEqual([entry(1), entry(2)]);
+    expect(manager.getRecord('diagram', 'vendor')?.entries).toEqual([entry(3)]);
+    expect(manager.getRecord('inquiry', 'vendor')).toBeNull();
+  });
+
+  it('should list records by kind', () => {
+    manager.addRecordEntry('decision', 'a', entry(1));
+    manager.addRecordEntry('decision', 'b', entry(1));
+    manager.addRecordEntry('inquiry', 'c', entry(1));
+
+    expect(manager.listRecords('decision').map(record => record.id)).toEqual(['a', 'b']);
+  });
+
+  it('should notify listeners of created, updated and removed sessions and records', () => {
+    const changes: unknown[] = [];
+    const stop = manager.onChange(change => changes.push(change));
+
+    manager.addThought('session-1', { thought: 'One', thoughtNumber: 1, totalThoughts: 2, nextThoughtNeeded: true });
+    manager.addRecordEntry('decision', 'vendor', entry(1));
+    manager.addRecordEntry('decision', 'vendor', entry(2));
+    manager.clearSession('session-1');
+    stop();
+    manager.addRecordEntry('decision', 'other', entry(1));
+
+    expect(changes).toEqual([
+      { kind: 'session', id: 'session-1', change: 'created' },
+      { kind: 'session', id: 'session-1', change: 'updated' },
+      { kind: 'decision', id: 'vendor', change: 'created' },
+      { kind: 'decision', id: 'vendor', change: 'updated' },
+      { kind: 'session', id: 'session-1', change: 'removed' }
+    ]);
+  });
+
+  it('should expire records past the timeout', () => {
+    jest.useFakeTimers();
+    try {
+      manager.addRecordEntry('diagram', 'old', entry(1));
+      jest.advanceTimersByTime(61 * 60 * 1000);
+      manager.addRecordEntry('diagram', 'new', entry(1));
+
+      manager.cleanupExpiredSessions();
+
+      expect(manager.getRecord('diagram', 'old')).toBeNull();
+      expect(manager.getRecord('diagram', 'new')).not.toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('FileSessionManager', () => {
+  let dir: string;
+  let filePath: string;
+  let manager: FileSessionManager;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'thinking-sessions-'));
+    filePath = join(dir, 'nested', 'sessions.jsonl');
+    manager = new FileSessionManager({ filePath });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const thought = (thoughtNumber: number) => ({
+    thought: `Thought ${thoughtNumber}`,
+    thoughtNumber,
+    totalThoughts: 3,
+    nextThoughtNeeded: true
+  });
+
+  const readEvents = () => readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+  it('should append every mutation to the log', () => {
+    manager.addThought('session-1', thought(1));
+    manager.addBranch('session-1', 'alt', thought(2));
+    manager.clearSession('session-1');
+
+    expect(readEvents().map(event => event.type)).toEqual(['create', 'thought', 'branch', 'clear']);
+  });
+
+  it('should restore sessions after a restart', () => {
+    manager.addThought('session-1', thought(1));
+    manager.addThought('session-1', thought(2));
+    manager.addBranch('session-1', 'alt', thought(2));
+    manager.destroy();
+
+    const restarted = new FileSessionManager({ filePath });
+
+    expect(restarted.getThoughtHistory('session-1')).toEqual([thought(1), thought(2)]);
+    expect(restarted.getBranches('session-1')).toEqual({ alt: [thought(2)] });
+    restarted.destroy();
+  });
+
+  it('should not restore cleared sessions', () => {
+    manager.addThought('session-1', thought(1));
+    manager.clearSession('session-1');
+    manager.destroy();
+
+    const restarted = new FileSessionManager({ filePath });
+
+    expect(restarted.getSession('session-1')).toBeNull();
+    restarted.destroy();
+  });
+
+  it('should not append while replaying', () => {
+    manager.addThought('session-1', thought(1));
+    manager.destroy();
+
+    const before = readEvents().length;
+    const restarted = new FileSessionManager({ filePath });
+
+    expect(readEvents()).toHaveLength(before);
+    restarted.destroy();
+  });
+
+  it('should restore records after a restart', () => {
+    const entry = { at: '2026-01-01T00:00:00.000Z', input: { decisionId: 'vendor' }, result: { status: 'success' } };
+    manager.addRecordEntry('decision', 'vendor', entry);
+    manager.addRecordEntry('decision', 'vendor', entry);
+    manager.destroy();
+
+    const restarted = new FileSessionManager({ filePath });
+
+    expect(readEvents().map(event => event.type)).toEqual(['record', 'record']);
+    expect(restarted.getRecord('decision', 'vendor')?.entries).toEqual([entry, entry]);
+    restarted.destroy();
+  });
+
+  it('should compact the log on load', () => {
+    const entry = { at: '2026-01-01T00:00:00.000Z', input: {}, result: {} };
+    manager.addThought('cleared-session', thought(1));
+    manager.clearSession('cleared-session');
+    manager.addThought('session-1', thought(1));
+    manager.addBranch('session-1', 'alt', thought(2));
+    manager.addRecordEntry('diagram', 'topology', entry);
+    manager.destroy();
+
+    const restarted = new FileSessionManager({ filePath });
+
+    expect(readEvents().map(event => event.type)).toEqual(['create', 'thought', 'branch', 'record']);
+    expect(readEvents().some(event => event.sessionId === 'cleared-session')).toBe(false);
+    expect(restarted.getBranches('session-1')).toEqual({ alt: [thought(2)] });
+    restarted.destroy();
+  });
+
+  it('should skip malformed lines in the log', () => {
+    manager.addThought('session-1', thought(1));
+    manager.destroy();
+    appendFileSync(filePath, '{"type":"thou');
+
+    const restarted = new FileSessionManager({ filePath });
+
+    expect(restarted.getThoughtHistory('session-1')).toHaveLength(1);
+    restarted.destroy();
+  });
+
+  describe('expiry', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should drop sessions past the TTL on load', () => {
+      manager.addThought('stale-session', thought(1));
+      manager.destroy();
+
+      jest.advanceTimersByTime(11 * 60 * 1000);
+      const restarted = new FileSessionManager({ filePath, sessionTimeoutMs: 10 * 60 * 1000 });
+
+      expect(restarted.getSession('stale-session')).toBeNull();
+      expect(readFileSync(filePath, 'utf8')).toBe('');
+      restarted.destroy();
+    });
+
+    it('should count the TTL from the last read after a restart', () => {
+      const entry = { at: '2026-01-01T00:00:00.000Z', input: {}, result: {} };
+      manager.addThought('read-session', thought(1));
+      manager.addRecordEntry('diagram', 'read-diagram', entry);
+
+      jest.advanceTimersByTime(8 * 60 * 1000);
+      manager.getThoughtHistory('read-session');
+      manager.getRecord('diagram', 'read-diagram');
+      manager.destroy();
+
+      jest.advanceTimersByTime(8 * 60 * 1000);
+      const restarted = new FileSessionManager({ filePath, sessionTimeoutMs: 10 * 60 * 1000 });
+      restarted.destroy();
+
+      // Again after the log was compacted
+      jest.advanceTimersByTime(60 * 1000);
+      const compacted = new FileSessionManager({ filePath, sessionTimeoutMs: 10 * 60 * 1000 });
+
+      expect(compacted.getThoughtHistory('read-session')).toEqual([thought(1)]);
+      expect(compacted.getRecord('diagram', 'read-diagram')?.entries).toEqual([entry]);
+      compacted.destroy();
+    });
+
+    it('should log reads at most once a minute', () => {
+      manager.addThought('session-1', thought(1));
+
+      jest.advanceTimersByTime(2 * 60 * 1000);
+      manager.getSession('session-1');
+      manager.getSession('session-1');
+      jest.advanceTimersByTime(30 * 1000);
+      manager.getSession('session-1');
+
+      expect(readEvents().map(event => event.type)).toEqual(['create', 'thought', 'touch']);
+    });
+  });
+});
+
+describe('createSessionManager', () => {
+  it('should create an in-memory manager for the memory store', () => {
+    const manager = createSessionManager({ store: 'memory' });
+
+    expect(manager).toBeInstanceOf(InMemorySessionManager);
+    expect(manager).not.toBeInstanceOf(FileSessionManager);
+    manager.destroy();
+  });
+
+  it('should create a file-backed manager', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'thinking-sessions-'));
+    const manager = createSessionManager({ store: 'file', filePath: join(dir, 'sessions.jsonl') });
+
+    expect(manager).toBeInstanceOf(FileSessionManager);
+    manager.destroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should require a file path for the file store', () => {
+    expect(() => createSessionManager({ store: 'file' })).toThrow('File session store requires a filePath');
+  });
+});